@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Bell, BellOff, Trash2 } from 'lucide-react';
+import { countUnseen, SNOOZE_OPTIONS } from './alerts.ts';
+import { AlertEvent, AlertKind, TranslationSet } from './types.ts';
+import { fillTemplate, getPlantNow } from './utils.ts';
+
+interface AlertCenterProps {
+  history: AlertEvent[];
+  snoozedUntil: number;
+  timeZone: string;
+  onSnooze: (until: number) => void;
+  onClear: () => void;
+  t: TranslationSet;
+}
+
+const MESSAGE_KEYS: Record<AlertKind, keyof TranslationSet> = {
+  lowRate: 'alertLowRate',
+  overdue: 'alertOverdue',
+  avgRate: 'alertAvgRate'
+};
+
+export function describeAlert(a: AlertEvent, t: TranslationSet): string {
+  return fillTemplate(t[MESSAGE_KEYS[a.kind]], { truck: a.truckNo || '', material: a.material || '', value: a.value, limit: a.limit });
+}
+
+// Plant wall clock, like every other time on the dashboard.
+const formatTime = (ms: number, timeZone: string) => {
+  const d = getPlantNow(timeZone, new Date(ms));
+  return `${d.getMonth() + 1}/${d.getDate()} ${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
+};
+
+export const AlertCenter = ({ history, snoozedUntil, timeZone, onSnooze, onClear, t }: AlertCenterProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  // History is newest first; what was there on load counts as seen.
+  const [seenAt, setSeenAt] = useState(() => history[0]?.at ?? 0);
+  const unseen = countUnseen(history, seenAt);
+  const isSnoozed = snoozedUntil > Date.now();
+
+  const toggle = () => {
+    setIsOpen(o => !o);
+    if (history.length > 0) setSeenAt(at => Math.max(at, history[0].at));
+  };
+
+  return (
+    <div className="relative">
+      <button onClick={toggle} title={t.alertsTitle} className="relative p-2.5 bg-slate-50 border rounded-xl hover:bg-slate-100 transition-all shadow-sm">
+        {isSnoozed ? <BellOff className="w-6 h-6 text-amber-500" /> : <Bell className="w-6 h-6 text-slate-600" />}
+        {unseen > 0 && (
+          <span className="absolute -top-2 -right-2 min-w-[22px] h-[22px] px-1 rounded-full text-[10px] font-black text-white flex items-center justify-center bg-rose-600">{unseen}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-14 w-[420px] bg-white border rounded-3xl shadow-2xl p-6 space-y-4 z-50">
+          <div className="flex justify-between items-center">
+            <h3 className="text-sm font-black text-slate-800 flex items-center gap-2"><Bell className="w-4 h-4 text-indigo-600" /> {t.alertsTitle}</h3>
+            <button onClick={onClear} disabled={history.length === 0} className="text-[10px] text-slate-400 font-black flex items-center gap-1 hover:text-rose-500 disabled:opacity-30">
+              <Trash2 className="w-3 h-3" /> {t.clearFilters}
+            </button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-[10px] font-black text-slate-400 uppercase">{t.alertSnooze}</span>
+            {SNOOZE_OPTIONS.map(m => (
+              <button key={m} onClick={() => onSnooze(Date.now() + m * 60000)} className="px-3 py-1.5 rounded-lg text-[10px] font-black border bg-slate-50 text-slate-500 hover:bg-slate-100">
+                {m < 60 ? `${m}m` : `${m / 60}h`}
+              </button>
+            ))}
+            {isSnoozed && (
+              <button onClick={() => onSnooze(0)} className="px-3 py-1.5 rounded-lg text-[10px] font-black border border-amber-300 bg-amber-50 text-amber-600 hover:bg-amber-100">
+                {fillTemplate(t.alertResume, { time: formatTime(snoozedUntil, timeZone) })}
+              </button>
+            )}
+          </div>
+
+          {history.length === 0 ? (
+            <div className="py-8 text-center text-slate-300 font-bold italic">{t.alertsEmpty}</div>
+          ) : (
+            <div className="max-h-[360px] overflow-y-auto custom-scrollbar pr-2 space-y-2">
+              {history.map(a => (
+                <div key={a.id} className={`flex items-start gap-3 px-4 py-3 rounded-xl border ${a.silenced ? 'border-slate-100 bg-slate-50/60 opacity-60' : 'border-rose-100 bg-rose-50/40'}`}>
+                  <span className="shrink-0 font-mono text-[10px] text-slate-400 pt-0.5">{formatTime(a.at, timeZone)}</span>
+                  <span className="flex-1 text-xs font-bold text-slate-700">{describeAlert(a, t)}</span>
+                  {a.silenced && <BellOff className="w-3 h-3 text-slate-400 shrink-0 mt-0.5" />}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
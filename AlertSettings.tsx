@@ -0,0 +1,55 @@
+import React from 'react';
+import { AlertRules, TranslationSet } from './types.ts';
+
+interface AlertSettingsProps {
+  rules: AlertRules;
+  onChange: (rules: AlertRules) => void;
+  t: TranslationSet;
+}
+
+export const AlertSettings = ({ rules, onChange, t }: AlertSettingsProps) => {
+  const update = (patch: Partial<AlertRules>) => onChange({ ...rules, ...patch });
+
+  // Permission can only be requested from a user gesture, so ask when the box is ticked.
+  const toggleNotify = async (notify: boolean) => {
+    if (notify && 'Notification' in window && Notification.permission === 'default') {
+      await Notification.requestPermission();
+    }
+    update({ notify });
+  };
+
+  const notifyBlocked = rules.notify && 'Notification' in window && Notification.permission === 'denied';
+
+  const checkbox = (checked: boolean, onToggle: (v: boolean) => void, label: string) => (
+    <label className="flex items-center gap-2 text-xs font-bold text-slate-600 cursor-pointer">
+      <input type="checkbox" checked={checked} disabled={!rules.enabled} onChange={e => onToggle(e.target.checked)} className="accent-indigo-600" />
+      {label}
+    </label>
+  );
+
+  return (
+    <div className="pt-4 border-t space-y-4">
+      <div className="flex justify-between items-center">
+        <h4 className="text-xs font-black text-slate-400 uppercase tracking-widest">{t.alertRulesLabel}</h4>
+        <label className="flex items-center gap-2 text-[10px] font-black text-indigo-600 cursor-pointer">
+          <input type="checkbox" checked={rules.enabled} onChange={e => update({ enabled: e.target.checked })} className="accent-indigo-600" />
+          {t.alertEnabled}
+        </label>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        {checkbox(rules.notify, toggleNotify, t.alertNotify)}
+        {checkbox(rules.sound, sound => update({ sound }), t.alertSound)}
+      </div>
+      {notifyBlocked && <div className="text-[10px] text-rose-500 font-bold">{t.alertNotifyBlocked}</div>}
+      <div className="space-y-2">
+        {checkbox(rules.lowRate, lowRate => update({ lowRate }), t.alertRuleLowRate)}
+        <div className="flex items-center gap-3">
+          {checkbox(rules.overdue, overdue => update({ overdue }), t.alertRuleOverdue)}
+          <input type="number" min={1} step={0.5} value={rules.overdueFactor} disabled={!rules.enabled || !rules.overdue} onChange={e => update({ overdueFactor: parseFloat(e.target.value) })} className="w-20 bg-slate-50 border rounded-xl p-2 text-xs font-bold outline-none" />
+          <span className="text-xs font-bold text-slate-400">{t.alertOverdueFactor}</span>
+        </div>
+        {checkbox(rules.avgRate, avgRate => update({ avgRate }), t.alertRuleAvgRate)}
+      </div>
+    </div>
+  );
+};
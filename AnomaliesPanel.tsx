@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { Radar as RadarIcon, ChevronDown, ChevronUp } from 'lucide-react';
+import { Anomaly, AnomalyKind, ANOMALY_Z_THRESHOLD } from './anomalies.ts';
+import { DrillTarget, TranslationSet } from './types.ts';
+import { fillTemplate } from './utils.ts';
+
+interface AnomaliesPanelProps {
+  anomalies: Anomaly[];
+  onSelect: (target: DrillTarget) => void;
+  t: TranslationSet;
+}
+
+const KIND_LABEL_KEYS: Record<AnomalyKind, keyof TranslationSet> = {
+  duration: 'anomalyKindDuration',
+  weight: 'anomalyKindWeight',
+  dayCounts: 'anomalyKindDayCounts',
+  dayTons: 'anomalyKindDayTons'
+};
+
+const REASON_KEYS: Record<AnomalyKind, keyof TranslationSet> = {
+  duration: 'anomalyReasonDuration',
+  weight: 'anomalyReasonWeight',
+  dayCounts: 'anomalyReasonDayCounts',
+  dayTons: 'anomalyReasonDayTons'
+};
+
+export function describeAnomaly(a: Anomaly, t: TranslationSet): string {
+  // Weights are stored in kg but read in tons everywhere else on the dashboard.
+  const scale = a.kind === 'weight' ? 1 / 1000 : 1;
+  return fillTemplate(t[REASON_KEYS[a.kind]], {
+    truck: a.truck?.truckNo || '',
+    material: a.material || '',
+    date: a.date,
+    value: parseFloat((a.value * scale).toFixed(1)),
+    median: parseFloat((a.median * scale).toFixed(1))
+  });
+}
+
+/**
+ * Truck anomalies open that truck's visits; day anomalies open the day.
+ */
+export function anomalyDrillTarget(a: Anomaly): DrillTarget {
+  return a.truck ? { kind: 'truck', value: a.truck.truckNo } : { kind: 'day', value: a.date };
+}
+
+export const AnomaliesPanel = ({ anomalies, onSelect, t }: AnomaliesPanelProps) => {
+  const [kind, setKind] = useState<AnomalyKind | 'all'>('all');
+  const [isOpen, setIsOpen] = useState(false);
+  const visible = kind === 'all' ? anomalies : anomalies.filter(a => a.kind === kind);
+  const count = (k: AnomalyKind) => anomalies.filter(a => a.kind === k).length;
+
+  return (
+    <section id="anomalies" className="bg-white p-10 rounded-[3rem] border shadow-sm space-y-6">
+      <button onClick={() => setIsOpen(o => !o)} className="w-full flex justify-between items-center">
+        <h3 className="text-xl font-black text-slate-800 flex items-center gap-3">
+          <RadarIcon className="text-indigo-600" /> {t.anomaliesTitle}
+          <span className={`text-xs font-black px-3 py-1 rounded-full ${anomalies.length > 0 ? 'bg-rose-50 text-rose-600' : 'bg-emerald-50 text-emerald-600'}`}>{anomalies.length}</span>
+        </h3>
+        {isOpen ? <ChevronUp className="text-slate-400" /> : <ChevronDown className="text-slate-400" />}
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            <button onClick={() => setKind('all')} className={`px-4 py-2 rounded-xl text-xs font-black border transition-all ${kind === 'all' ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-slate-50 text-slate-500 hover:bg-slate-100'}`}>
+              {t.statusAll} ({anomalies.length})
+            </button>
+            {(Object.keys(KIND_LABEL_KEYS) as AnomalyKind[]).map(k => (
+              <button key={k} onClick={() => setKind(k)} className={`px-4 py-2 rounded-xl text-xs font-black border transition-all ${kind === k ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-slate-50 text-slate-500 hover:bg-slate-100'}`}>
+                {t[KIND_LABEL_KEYS[k]]} ({count(k)})
+              </button>
+            ))}
+            <span className="text-[10px] font-bold text-slate-400 ml-auto">{fillTemplate(t.anomalyMethod, { z: ANOMALY_Z_THRESHOLD })}</span>
+          </div>
+
+          {visible.length === 0 ? (
+            <div className="py-8 text-center text-slate-300 font-bold italic">{t.anomaliesEmpty}</div>
+          ) : (
+            <div className="max-h-[400px] overflow-y-auto custom-scrollbar pr-2 space-y-2">
+              {visible.map((a, i) => (
+                <button key={i} onClick={() => onSelect(anomalyDrillTarget(a))} className="w-full text-left flex items-center gap-4 px-4 py-3 rounded-xl border border-slate-100 bg-slate-50/60 hover:bg-white hover:shadow-md transition-all">
+                  <span className={`shrink-0 w-16 text-center text-[10px] font-black px-2 py-1 rounded-lg ${a.direction === 'high' ? 'bg-rose-100 text-rose-600' : 'bg-sky-100 text-sky-600'}`}>
+                    {a.direction === 'high' ? `▲ ${t.anomalyHigh}` : `▼ ${t.anomalyLow}`}
+                  </span>
+                  <span className="shrink-0 text-[10px] font-black text-slate-400 uppercase w-20">{t[KIND_LABEL_KEYS[a.kind]]}</span>
+                  <span className="flex-1 text-sm font-bold text-slate-700">{describeAnomaly(a, t)}</span>
+                  <span className="shrink-0 font-mono text-[10px] text-slate-400">{a.date}</span>
+                  <span className="shrink-0 font-mono text-xs font-black text-slate-500 w-14 text-right">z={a.score}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
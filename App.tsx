@@ -3,7 +3,7 @@ import {
   BarChart, Bar, LineChart, Line, AreaChart, Area, 
   XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, 
   ComposedChart, RadarChart, PolarGrid, PolarAngleAxis, Radar,
-  LabelList, ReferenceLine
+  LabelList, ReferenceLine, Legend, Cell
 } from 'recharts';
 import { 
   Settings as SettingsIcon, 
@@ -17,127 +17,62 @@ import {
   Save,
   Info,
   BarChart3,
-  Copy
+  Copy,
+  AlertTriangle,
+  Columns3,
+  Stethoscope,
+  Warehouse,
+  Link,
+  Share2,
+  Sheet,
+  FileText
 } from 'lucide-react';
 import html2canvas from 'html2canvas';
-import { I18N, CSV_URL } from './constants.ts';
-import { TruckData, DashboardSettings, FilterState, Language, EfficiencyMode } from './types.ts';
-
-// --- IST Time Utilities ---
-const UNIFIED_ANIM_SPEED = 1200; 
-
-/**
- * Gets the current date/time specifically in India Standard Time
- * Returns a Date object where the local components (hours, minutes) match IST.
- */
-function getISTNow(): Date {
-  const now = new Date();
-  const indiaTimeStr = now.toLocaleString("en-US", { timeZone: "Asia/Kolkata" });
-  return new Date(indiaTimeStr);
-}
-
-/**
- * Formats a Date object to YYYY-MM-DD using its local components.
- * This avoids timezone conversions shifting the day.
- */
-function formatDateToISO(d: Date): string {
-  const yyyy = d.getFullYear();
-  const mm = String(d.getMonth() + 1).padStart(2, '0');
-  const dd = String(d.getDate()).padStart(2, '0');
-  return `${yyyy}-${mm}-${dd}`;
-}
-
-/**
- * Logic: If the time (in Factory Time/IST) is before 07:00, the "Shift Date" is yesterday.
- */
-function getShiftDateString(date: Date): string {
-  const h = date.getHours();
-  // Create a copy to manipulate
-  const d = new Date(date);
-  if (h < 7) {
-    d.setDate(d.getDate() - 1);
-  }
-  return formatDateToISO(d);
-}
-
-function robustParseCSV(text: string): string[][] {
-  const result: string[][] = [];
-  let row: string[] = [];
-  let col = "";
-  let inQuotes = false;
-  for (let i = 0; i < text.length; i++) {
-    const char = text[i];
-    const nextChar = text[i + 1];
-    if (inQuotes) {
-      if (char === '"' && nextChar === '"') { col += '"'; i++; }
-      else if (char === '"') inQuotes = false;
-      else col += char;
-    } else {
-      if (char === '"') inQuotes = true;
-      else if (char === ',') { row.push(col); col = ""; }
-      else if (char === '\n' || char === '\r') {
-        row.push(col);
-        if (row.length > 0) result.push(row);
-        row = []; col = "";
-        if (char === '\r' && nextChar === '\n') i++;
-      } else col += char;
-    }
-  }
-  if (col || row.length > 0) { row.push(col); result.push(row); }
-  return result;
-}
-
-function findColIdx(headers: string[], keywords: string[]): number {
-  return headers.findIndex(h => keywords.some(k => h.toLowerCase().includes(k.toLowerCase())));
-}
-
-/**
- * Parses date strings from CSV. 
- * Supports DD/MM/YYYY, DD-MM-YYYY, YYYY-MM-DD.
- * Returns a Date object representing the "Factory Wall Time".
- */
-function smartParseDate(str: string) {
-  if (!str) return null;
-  const cleanStr = str.trim().replace(/[\u200B-\u200D\uFEFF]/g, '').replace(/\u00a0/g, ' ');
-  
-  // Extract time part if exists
-  const parts = cleanStr.split(/\s+/);
-  const datePart = parts[0];
-  const timePart = parts.length > 1 ? parts[1] : "00:00";
-  const [hh, mm] = timePart.split(':').map(Number);
-
-  // Try YYYY-MM-DD or YYYY/MM/DD
-  const isoMatch = datePart.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
-  if (isoMatch) {
-    const d = new Date(parseInt(isoMatch[1]), parseInt(isoMatch[2]) - 1, parseInt(isoMatch[3]), hh || 0, mm || 0);
-    return isNaN(d.getTime()) ? null : d;
-  }
-
-  // Try DD/MM/YYYY or DD-MM-YYYY
-  const dmyMatch = datePart.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})/);
-  if (dmyMatch) {
-    // dmyMatch[1] = Day, dmyMatch[2] = Month, dmyMatch[3] = Year
-    const d = new Date(parseInt(dmyMatch[3]), parseInt(dmyMatch[2]) - 1, parseInt(dmyMatch[1]), hh || 0, mm || 0);
-    return isNaN(d.getTime()) ? null : d;
-  }
-
-  // Fallback
-  const d = new Date(cleanStr);
-  return isNaN(d.getTime()) ? null : d;
-}
-
-/**
- * Safe number parsing that handles commas (e.g. "1,894")
- */
-function parseNumberSafe(str: string): number {
-  if (!str) return 0;
-  // Remove commas before parsing
-  return parseFloat(str.replace(/,/g, '')) || 0;
-}
+import { I18N, DEFAULT_SETTINGS, DEFAULT_TIME_ZONE, UNIFIED_ANIM_SPEED, CHART_TYPE_CHOICES } from './constants.ts';
+import { TruckData, DashboardSettings, FilterState, Language, EfficiencyMode, InsightModelId, DataSourceConfig, ColumnMapping, DrillTarget, ReportOptions, RangeSummary, ComparisonState, AlertEvent, DateFormat, ChartTypeOption, ParetoItem, ParetoMetric, ParetoClass, TranslationSet } from './types.ts';
+import { InsightsPanel } from './InsightsPanel.tsx';
+import { DataSourceSettings } from './DataSourceSettings.tsx';
+import { ShiftSettings } from './ShiftSettings.tsx';
+import { AlertSettings } from './AlertSettings.tsx';
+import { AlertCenter, describeAlert } from './AlertCenter.tsx';
+import { mergeRows, truckKey } from './rowDiff.ts';
+import { evaluateAlerts, toAlertEvents, playAlertTone, showAlertNotification, MonitorSnapshot, ALERT_HISTORY_LIMIT } from './alerts.ts';
+import { MaterialBenchmarks } from './MaterialBenchmarks.tsx';
+import { createDataSource, DEFAULT_SOURCE_CONFIG } from './dataSources.ts';
+import { ColumnMappingWizard } from './ColumnMappingWizard.tsx';
+import { DiagnosticsDrawer } from './DiagnosticsDrawer.tsx';
+import { validateRows, ImportReport } from './validation.ts';
+import { resolveColumns, mapRowsToTrucks, resolveDateFormats, getSourceKey, getLoadKey, FIELD_LABEL_KEYS, ColumnResolution, DateColumnFormats } from './columnMapping.ts';
+import { DATE_FORMATS, DATE_FORMAT_LABEL_KEYS } from './dateFormats.ts';
+import { buildTimelineData, buildRangeSummary, buildParetoData, buildFlowData, getStockMaterials, buildInventoryData, buildUtilizationData, buildWeekdayHourData, buildDurationStats, getTruckRate, selectDrillRows, getMaterialBenchmark, deriveMaterialBenchmarks, getExpectedAvgTime, PARETO_CLASS_LIMITS } from './analytics.ts';
+import { DrillDownPanel } from './DrillDownPanel.tsx';
+import { DataExplorer } from './DataExplorer.tsx';
+import { ComparisonPicker } from './ComparisonPicker.tsx';
+import { getBaselineRange, overlayBaseline, dayOffset, pctDelta } from './comparison.ts';
+import { forecastTimeline, backtestForecast, mergeForecast, dropPartialDay, ForecastKey } from './forecast.ts';
+import { detectAnomalies } from './anomalies.ts';
+import { AnomaliesPanel } from './AnomaliesPanel.tsx';
+import { ScorecardPanel } from './ScorecardPanel.tsx';
+import { CarrierSettings } from './CarrierSettings.tsx';
+import { buildScorecard } from './scorecard.ts';
+import { UNASSIGNED_CARRIER } from './carriers.ts';
+import { ReportDialog } from './ReportDialog.tsx';
+import { ReportSheet } from './ReportSheet.tsx';
+import { renderPdfReport } from './pdfReport.ts';
+import { analyzeLogisticsData, parseInsightBullets } from './geminiService.ts';
+import { buildAnalysisSummary } from './aiSummary.ts';
+import { InventoryChart } from './InventoryChart.tsx';
+import { HeatmapChart, BoxPlotChart } from './DistributionCharts.tsx';
+import { DayGantt } from './DayGantt.tsx';
+import { FilterBar } from './FilterBar.tsx';
+import { EMPTY_FILTERS, matchesFilters, filterRows, isCompletedTrip, IN_PROGRESS_MARKER } from './filters.ts';
+import { encodeViewState, decodeViewState, ViewPatch, ViewDefaults, NO_COMPARISON } from './urlState.ts';
+import { getShiftDate, getShiftIndex, getShiftDayWindow, getShiftHours, getDayBoundary, formatClock, SHIFT_COLORS } from './shifts.ts';
+import { getPlantNow, getTimeZoneLabel, isValidTimeZone, formatDateToISO, getDefaultDateRange, smartParseDate, fillTemplate } from './utils.ts';
 
 // --- Sub-components ---
 
-const StatBox = ({ label, value, colorClass = "text-indigo-600", formula }: any) => {
+const StatBox = ({ label, value, colorClass = "text-indigo-600", formula, delta, lowerIsBetter }: any) => {
   return (
     <div className="bg-slate-50/80 p-4 rounded-xl border border-slate-100 flex flex-col items-center justify-center text-center shadow-sm relative group transition-all hover:bg-white hover:shadow-md h-full min-h-[100px]">
       <span className="text-xs sm:text-sm uppercase tracking-wider text-slate-500 font-black mb-1.5 flex items-center gap-1">
@@ -150,6 +85,11 @@ const StatBox = ({ label, value, colorClass = "text-indigo-600", formula }: any)
           <span className="text-lg sm:text-2xl">{value}</span>
         )}
       </div>
+      {delta !== undefined && (
+        <span className={`text-[10px] font-black mt-1 ${delta === null || delta === 0 ? 'text-slate-400' : (delta > 0) !== !!lowerIsBetter ? 'text-emerald-600' : 'text-rose-500'}`}>
+          {delta === null ? '--' : `${delta > 0 ? '▲' : delta < 0 ? '▼' : '●'} ${Math.abs(delta)}%`}
+        </span>
+      )}
       {formula && (
         <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 w-56 bg-slate-800 text-white text-[10px] p-3 rounded-lg opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none z-50 shadow-xl leading-relaxed text-center">
           {formula}
@@ -188,7 +128,39 @@ const DashboardTimer = ({ rate, isPaused, onTrigger, onTogglePause }: { rate: nu
   );
 };
 
-const DynamicChart = React.memo(({ type, data, keys, colors, axisKeys, yDomain, benchmark, settings, dataVersion = 0 }: any) => {
+const COMPARISON_COLOR = '#94a3b8';
+
+const PARETO_UNITS: Record<ParetoMetric, string> = { tons: 't', counts: '', time: 'm' };
+
+const PARETO_METRIC_LABELS: Record<ParetoMetric, 'paretoByTons' | 'paretoByCounts' | 'paretoByTime'> = {
+  tons: 'paretoByTons',
+  counts: 'paretoByCounts',
+  time: 'paretoByTime'
+};
+
+// Bar fill per ABC class when the Pareto card colours its bars; "Others" has no class.
+const PARETO_CLASS_COLORS: Record<ParetoClass, string> = { A: '#6366f1', B: '#a5b4fc', C: '#cbd5e1' };
+const PARETO_OTHERS_COLOR = '#e2e8f0';
+
+const CHART_TYPE_LABELS: Record<ChartTypeOption, string> = {
+  bar: 'Bar (長條)',
+  line: 'Line (折線)',
+  area: 'Area (面積)',
+  stepAfter: 'Step (階梯)',
+  radar: 'Radar (雷達)',
+  composed: 'Composed (複合)',
+  heatmap: 'Heatmap (熱力圖)',
+  boxplot: 'Box Plot (箱形圖)'
+};
+
+interface RecentChanges {
+  added: Set<string>;
+  completed: Set<string>;
+}
+
+const NO_CHANGES: RecentChanges = { added: new Set(), completed: new Set() };
+
+const DynamicChart = React.memo(({ type, data, keys, colors, axisKeys, yDomain, benchmark, series, comparison, forecast, highlights, abc, settings, t, onPointClick, onReady, dataVersion = 0 }: any) => {
   const [showLabels, setShowLabels] = useState(false);
   
   useEffect(() => {
@@ -198,35 +170,66 @@ const DynamicChart = React.memo(({ type, data, keys, colors, axisKeys, yDomain,
     return () => clearTimeout(timer);
   }, [dataVersion, type, settings.animationEnabled]);
 
+  // Labels come last, so once they are on the chart is fully drawn.
+  useEffect(() => {
+    if (showLabels) onReady?.();
+  }, [showLabels]);
+
   if (!data || !Array.isArray(data) || data.length === 0) {
     return <div className="w-full h-full flex items-center justify-center text-slate-300 font-bold italic">No data available for the selected range</div>;
   }
 
+  // Distribution types bring their own data shape; overlays do not apply to them.
+  if (type === 'heatmap') return <HeatmapChart data={data} color={colors[0]} t={t} onPointClick={onPointClick} />;
+  if (type === 'boxplot') {
+    return (
+      <div className="w-full h-full relative" style={{ minHeight: '300px' }}>
+        <BoxPlotChart data={data} color={colors[0]} settings={settings} t={t} onPointClick={onPointClick} />
+      </div>
+    );
+  }
+
   const animationProps = { 
     isAnimationActive: settings.animationEnabled, 
     animationDuration: UNIFIED_ANIM_SPEED,
     animationBegin: 0
   };
 
+  // Clicks anywhere in a category's column report that category's x value.
+  const handleClick = (e: any) => {
+    if (onPointClick && e && e.activeLabel != null) onPointClick(String(e.activeLabel));
+  };
+
+  // ABC-classified data colours each bar by its class instead of the series colour.
+  const classCells = abc ? data.map((d: any, i: number) => <Cell key={i} fill={d.abc ? PARETO_CLASS_COLORS[d.abc as ParetoClass] : PARETO_OTHERS_COLOR} />) : null;
+
   const renderChart = () => {
     if (type === 'radar') {
       return (
-        <RadarChart outerRadius="75%" data={data}>
+        <RadarChart outerRadius="75%" data={data} onClick={handleClick}>
           <PolarGrid stroke="#e2e8f0" />
           <PolarAngleAxis dataKey={axisKeys.x} fontSize={10} fontWeight="black" stroke="#475569" />
-          <Radar name={keys[0]} dataKey={keys[0]} stroke={colors[0]} strokeWidth={3} fill={colors[0]} fillOpacity={0.5} {...animationProps} />
+          {series ? series.map((s: any) => (
+            <Radar key={s.key} name={s.name} dataKey={s.key} stroke={s.color} strokeWidth={3} fill={s.color} fillOpacity={0.3} {...animationProps} />
+          )) : (
+            <Radar name={keys[0]} dataKey={keys[0]} stroke={colors[0]} strokeWidth={3} fill={colors[0]} fillOpacity={0.5} {...animationProps} />
+          )}
+          {comparison && <Radar name={comparison.name} dataKey={`prev_${keys[0]}`} stroke={COMPARISON_COLOR} strokeWidth={2} strokeDasharray="6 4" fill={COMPARISON_COLOR} fillOpacity={0.1} {...animationProps} />}
           <Tooltip />
+          {(series || comparison) && <Legend wrapperStyle={{ fontSize: '11px', fontWeight: 900 }} />}
         </RadarChart>
       );
     }
     
-    const ChartComp: any = type === 'composed' ? ComposedChart : (type === 'bar' ? BarChart : (type === 'area' ? AreaChart : LineChart));
+    // Baseline and forecast overlays are lines, which only ComposedChart can mix with bars and areas.
+    const ChartComp: any = type === 'composed' || comparison || forecast ? ComposedChart : (type === 'bar' ? BarChart : (type === 'area' ? AreaChart : LineChart));
     
     // Explicitly use 0 (number) for default axis, ensuring connection between Axis and Series.
     const primaryYAxisId = type === 'composed' ? "left" : 0;
+    const hasPercentAxis = type === 'composed';
 
     return (
-      <ChartComp data={data} margin={{ top: 30, right: 30, left: 0, bottom: 40 }}>
+      <ChartComp data={data} margin={{ top: 30, right: 30, left: 0, bottom: 40 }} onClick={handleClick}>
         <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#cbd5e1" />
         <XAxis 
           dataKey={axisKeys.x} 
@@ -247,11 +250,23 @@ const DynamicChart = React.memo(({ type, data, keys, colors, axisKeys, yDomain,
           width={45} 
           domain={yDomain || [0, 'auto']} 
         />
-        {type === 'composed' && <YAxis yAxisId="right" orientation="right" stroke={colors[1]} fontSize={9} width={45} domain={[0, 100]} />}
+        {hasPercentAxis && <YAxis yAxisId="right" orientation="right" stroke={colors[1]} fontSize={9} width={45} domain={[0, 100]} />}
         <Tooltip contentStyle={{ borderRadius: '12px', fontSize: '11px' }} />
-        {type === 'composed' ? (
+        {(series || comparison || forecast) && <Legend wrapperStyle={{ fontSize: '11px', fontWeight: 900 }} verticalAlign="top" />}
+        {series ? series.map((s: any, i: number) => {
+          // Split mode stacks one series per shift; lines stay unstacked for readability.
+          const isTop = i === series.length - 1;
+          if (type === 'bar' || type === 'composed') {
+            return <Bar key={s.key} yAxisId={primaryYAxisId} stackId="split" dataKey={s.key} name={s.name} fill={s.color} radius={isTop ? [4, 4, 0, 0] : [0, 0, 0, 0]} {...animationProps} />;
+          }
+          if (type === 'area') {
+            return <Area key={s.key} yAxisId={primaryYAxisId} stackId="split" type="monotone" dataKey={s.key} name={s.name} stroke={s.color} fill={s.color} fillOpacity={0.3} strokeWidth={2} {...animationProps} />;
+          }
+          return <Line key={s.key} yAxisId={primaryYAxisId} type={type === 'stepAfter' ? 'stepAfter' : 'monotone'} dataKey={s.key} name={s.name} stroke={s.color} strokeWidth={3} dot={{ r: 3 }} {...animationProps} />;
+        }) : type === 'composed' ? (
           <>
             <Bar yAxisId="left" dataKey={keys[0]} fill={colors[0]} radius={[4, 4, 0, 0]} barSize={30} {...animationProps}>
+              {classCells}
               {showLabels && <LabelList dataKey={keys[0]} position="top" style={{ fontSize: '10px', fontWeight: '900', fill: colors[0] }} />}
             </Bar>
             <Line yAxisId="right" type="monotone" dataKey={keys[1]} stroke={colors[1]} strokeWidth={3} dot={{ r: 3 }} {...animationProps}>
@@ -260,6 +275,7 @@ const DynamicChart = React.memo(({ type, data, keys, colors, axisKeys, yDomain,
           </>
         ) : type === 'bar' ? (
           <Bar yAxisId={primaryYAxisId} dataKey={keys[0]} fill={colors[0]} radius={[4, 4, 0, 0]} {...animationProps}>
+            {classCells}
             {showLabels && <LabelList dataKey={keys[0]} position="top" style={{ fontSize: '10px', fontWeight: '900', fill: colors[0] }} />}
           </Bar>
         ) : type === 'area' ? (
@@ -271,7 +287,20 @@ const DynamicChart = React.memo(({ type, data, keys, colors, axisKeys, yDomain,
             {showLabels && <LabelList dataKey={keys[0]} position="top" offset={10} style={{ fontSize: '10px', fontWeight: '900', fill: colors[0] }} />}
           </Line>
         )}
+        {forecast && (
+          <>
+            <Area yAxisId={primaryYAxisId} type="monotone" dataKey={`fc_${forecast.key}_band`} name={forecast.bandName} stroke="none" fill={forecast.color} fillOpacity={0.15} legendType="none" {...animationProps} />
+            <Line yAxisId={primaryYAxisId} type="monotone" dataKey={`fc_${forecast.key}`} name={forecast.name} stroke={forecast.color} strokeWidth={2} strokeDasharray="6 4" dot={{ r: 2 }} {...animationProps} />
+          </>
+        )}
+        {comparison && <Line yAxisId={primaryYAxisId} type="monotone" dataKey={`prev_${keys[0]}`} name={comparison.name} stroke={COMPARISON_COLOR} strokeWidth={2} strokeDasharray="6 4" dot={false} connectNulls {...animationProps} />}
         {benchmark && <ReferenceLine yAxisId={primaryYAxisId} y={benchmark} stroke="#ef4444" strokeDasharray="5 5" />}
+        {abc && hasPercentAxis && [PARETO_CLASS_LIMITS.A, PARETO_CLASS_LIMITS.B].map(y => (
+          <ReferenceLine key={`abc-${y}`} yAxisId="right" y={y} stroke={colors[1]} strokeDasharray="3 3" strokeOpacity={0.6} label={{ value: `${y}%`, position: 'insideTopLeft', fill: colors[1], fontSize: 9, fontWeight: 900 }} />
+        ))}
+        {highlights?.map((x: string) => (
+          <ReferenceLine key={`hl-${x}`} yAxisId={primaryYAxisId} x={x} stroke={settings.warnColor} strokeWidth={8} strokeOpacity={0.15} label={{ value: '!', position: 'top', fill: settings.warnColor, fontSize: 12, fontWeight: 900 }} />
+        ))}
       </ChartComp>
     );
   };
@@ -284,47 +313,198 @@ const DynamicChart = React.memo(({ type, data, keys, colors, axisKeys, yDomain,
   );
 });
 
+const scrollToHashedChart = () => {
+  const id = window.location.hash.slice(1);
+  if (id.startsWith('chart-')) document.getElementById(id)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+};
+
+// HH:MM:SS on the plant clock for an epoch timestamp.
+const formatPlantTime = (ms: number, timeZone: string) => {
+  const d = getPlantNow(timeZone, new Date(ms));
+  return [d.getHours(), d.getMinutes(), d.getSeconds()].map(n => String(n).padStart(2, '0')).join(':');
+};
+
+// The cards the PDF report captures after its summary page, in page order.
+const REPORT_CARD_IDS = ['chart-pareto', 'chart-tonnage', 'chart-frequency', 'chart-efficiency', 'chart-flow'] as const;
+
+// How long the report waits for its charts before giving up.
+const REPORT_READY_TIMEOUT_MS = 10000;
+
+// Resolves once the browser has painted the latest render.
+const nextPaint = () => new Promise<void>(resolve => requestAnimationFrame(() => requestAnimationFrame(() => resolve())));
+
+interface ReportChartsProps {
+  rows: TruckData[];
+  settings: DashboardSettings;
+  effMode: EfficiencyMode;
+  t: TranslationSet;
+  onReady: () => void;
+}
+
+/**
+ * Off-screen copies of the report's chart cards, computed from the report's own
+ * rows and language so the live dashboard is never touched. Animation is off so
+ * the charts are final by the time they are captured; onReady fires once every
+ * card has drawn.
+ */
+const ReportCharts = ({ rows, settings, effMode, t, onReady }: ReportChartsProps) => {
+  const ready = useRef(new Set<string>());
+  const markReady = (id: string) => {
+    ready.current.add(id);
+    if (ready.current.size === REPORT_CARD_IDS.length) onReady();
+  };
+  const calendar = settings.shiftCalendar;
+  const chartSettings = { ...settings, animationEnabled: false };
+  const timeline = buildTimelineData(rows, calendar);
+  const summary = buildRangeSummary(timeline);
+  const pareto = buildParetoData(rows, settings.paretoMetric, settings.paretoTopN);
+  const paretoUnit = PARETO_UNITS[pareto.metric];
+  const flow = buildFlowData(rows, calendar);
+  const utilization = buildUtilizationData(timeline, settings.targetHours);
+  const expectedAvgTime = getExpectedAvgTime(rows, settings.materialBenchmarks, settings.benchmarkTime);
+  const { chartTypes } = settings;
+
+  const cards: Record<typeof REPORT_CARD_IDS[number], { title: string; type: ChartTypeOption; data: any[]; keys: string[]; colors: string[]; axisX: string; abc?: boolean; benchmark?: number; footer: { label: string; value: any; color?: string }[] }> = {
+    'chart-pareto': { title: t.pareto, type: chartTypes.pareto, data: pareto.items.map(p => (p.others !== undefined ? { ...p, name: fillTemplate(t.paretoOthers, { count: p.others }) } : p)), keys: [pareto.metric, 'percentage'], colors: ['#6366f1', '#ef4444'], axisX: 'name', abc: true, footer: [
+      { label: fillTemplate(t.statTopN, { n: settings.paretoTopN }), value: `${pareto.topTotal}${paretoUnit}` },
+      { label: t.statRangeTotal, value: `${pareto.total}${paretoUnit}` },
+      { label: t.statRatio, value: `${pareto.total > 0 ? (pareto.topTotal / pareto.total * 100).toFixed(1) : 0}%`, color: 'text-rose-500' },
+      { label: t.paretoClasses, value: `${pareto.classCounts.A} / ${pareto.classCounts.B} / ${pareto.classCounts.C}` },
+      { label: t.statFetchDays, value: summary.days }
+    ]},
+    'chart-tonnage': { title: t.tonnage, type: chartTypes.tonnage, data: timeline, keys: ['tons'], colors: ['#8b5cf6'], axisX: 'date', footer: [
+      { label: t.statRangeTotal, value: `${summary.totalTons}t` },
+      { label: t.statAvgDayWeight, value: `${summary.avgTonsPerDay}t` },
+      { label: t.statTotalEntryUnits, value: summary.totalCounts },
+      { label: t.effTotal, value: `${summary.avgTotalWorkTimePerDay}m`, color: 'text-amber-600' },
+      { label: t.statFetchDays, value: summary.days }
+    ]},
+    'chart-frequency': { title: t.frequency, type: chartTypes.frequency, data: timeline, keys: ['counts'], colors: ['#10b981'], axisX: 'date', footer: [
+      { label: t.statRangeTotal, value: `${summary.totalTons}t` },
+      { label: t.statAvgDayUnits, value: summary.avgCountsPerDay },
+      { label: t.statTotalEntryUnits, value: summary.totalCounts },
+      { label: t.effTotal, value: `${summary.avgTotalWorkTimePerDay}m`, color: 'text-amber-600' },
+      { label: t.statFetchDays, value: summary.days }
+    ]},
+    'chart-efficiency': { title: t.efficiency, type: chartTypes.efficiency, data: chartTypes.efficiency === 'boxplot' ? buildDurationStats(rows, settings.materialBenchmarks, settings.benchmarkTime) : timeline, keys: [effMode === 'avg' ? 'avgTime' : 'time'], colors: ['#f59e0b'], axisX: 'date', benchmark: effMode === 'avg' ? expectedAvgTime : utilization.targetMinutes, footer: [
+      { label: t.statRangeTotal, value: `${summary.totalTons}t` },
+      { label: t.statAvgWorkTime, value: `${summary.avgEff}m`, color: 'text-amber-700' },
+      { label: t.statTotalEntryUnits, value: summary.totalCounts },
+      { label: t.effTotal, value: `${summary.avgTotalWorkTimePerDay}m` },
+      { label: t.statUtilization, value: `${utilization.avgUtilization}%`, color: utilization.avgUtilization >= 100 ? 'text-emerald-600' : 'text-rose-500' },
+      { label: t.statDaysMet, value: `${utilization.daysMet} / ${utilization.days.length}`, color: utilization.daysMet === utilization.days.length ? 'text-emerald-600' : 'text-rose-500' },
+      { label: t.statFetchDays, value: summary.days }
+    ]},
+    'chart-flow': { title: t.flow, type: chartTypes.flow, data: chartTypes.flow === 'heatmap' ? buildWeekdayHourData(rows) : flow.hrs, keys: ['count'], colors: ['#ec4899'], axisX: 'hour', footer: [
+      { label: t.statAvgWorkTime, value: `${summary.avgEff}m`, color: 'text-indigo-700' },
+      { label: t.statTimeDist, value: [flow.amStr, flow.pmStr] },
+      { label: t.statTotalEntryUnits, value: summary.totalCounts },
+      { label: t.effTotal, value: `${summary.avgTotalWorkTimePerDay}m` },
+      { label: t.statFetchDays, value: summary.days }
+    ]}
+  };
+
+  return (
+    <>
+      {REPORT_CARD_IDS.map(id => {
+        const card = cards[id];
+        return (
+          <div key={id} id={`report-${id}`} className="bg-white p-10 flex flex-col" style={{ width: '1100px' }}>
+            <h3 className="text-xl font-black text-slate-800 mb-8">{card.title}</h3>
+            <div className="w-full" style={{ height: '450px' }}>
+              <DynamicChart type={card.type} data={card.data} keys={card.keys} colors={card.colors} axisKeys={{ x: card.axisX }} benchmark={card.benchmark} abc={card.abc} settings={chartSettings} t={t} onReady={() => markReady(id)} />
+            </div>
+            <div className={`grid ${card.footer.length > 5 ? 'grid-cols-7' : 'grid-cols-5'} gap-3 mt-8 pt-8 border-t border-slate-50 px-4`}>
+              {card.footer.map((stat, idx) => <StatBox key={idx} label={stat.label} value={stat.value} colorClass={stat.color} />)}
+            </div>
+          </div>
+        );
+      })}
+    </>
+  );
+};
+
+interface ReportJob {
+  options: ReportOptions;
+  rows: TruckData[];
+  periodLabel: string;
+  generatedAt: string;
+  summary: RangeSummary;
+  alerts: (TruckData & { rate: number })[];
+  insights: string[] | null;
+}
+
 // --- Main App ---
 
 export const App: React.FC = () => {
+  // View state from a shared link wins over defaults and saved chart types.
+  const [urlView] = useState<ViewPatch>(() => decodeViewState(window.location.search));
+
   const [rawData, setRawData] = useState<TruckData[]>([]);
   const [dataVersion, setDataVersion] = useState(0);
   const [animationTick, setAnimationTick] = useState(0);
-  const [lang, setLang] = useState<Language>('zh');
+  const [lang, setLang] = useState<Language>(urlView.lang || 'zh');
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [lastUpdated, setLastUpdated] = useState<number | null>(null);
+  const [refreshFailed, setRefreshFailed] = useState(false);
+  // Trucks that arrived or finished in the latest background refresh
+  const [recentChanges, setRecentChanges] = useState<RecentChanges>(NO_CHANGES);
+  const rawDataRef = useRef<TruckData[]>([]);
+  rawDataRef.current = rawData;
+  // Source (and zone) the current rows came from
+  const loadedSourceKey = useRef('');
   const [isPaused, setIsPaused] = useState(false);
   
-  const [monitorDate, setMonitorDate] = useState<string>(() => getShiftDateString(getISTNow()));
-  const [effMode, setEffMode] = useState<EfficiencyMode>('avg');
-
   const [settings, setSettings] = useState<DashboardSettings>(() => {
     const saved = localStorage.getItem('logistics_v14_config');
-    if (saved) return JSON.parse(saved);
-    return {
-      refreshRate: 600,
-      benchmarkTime: 60,
-      warnThreshold: 95, 
-      warnColor: '#ef4444',
-      animationEnabled: false,
-      animationDuration: 30, 
-      targetHours: 10,
-      chartTypes: {
-        pareto: 'composed',
-        tonnage: 'area',
-        frequency: 'bar',
-        efficiency: 'stepAfter',
-        flow: 'radar'
-      }
-    };
+    const base: DashboardSettings = saved ? { ...DEFAULT_SETTINGS, ...JSON.parse(saved) } : DEFAULT_SETTINGS;
+    return urlView.chartTypes ? { ...base, chartTypes: { ...base.chartTypes, ...urlView.chartTypes } } : base;
+  });
+
+  const [monitorDate, setMonitorDate] = useState<string>(() => urlView.monitorDate || getShiftDate(getPlantNow(settings.timeZone), settings.shiftCalendar));
+  // Index into settings.shiftCalendar.shifts; -1 shows the whole shift day
+  const [monitorShift, setMonitorShift] = useState<number>(urlView.monitorShift ?? -1);
+  const [effMode, setEffMode] = useState<EfficiencyMode>(urlView.effMode || 'avg');
+  const [inventoryMaterial, setInventoryMaterial] = useState<string>('');
+  const [splitByShift, setSplitByShift] = useState<Record<string, boolean>>({});
+  const [drillTarget, setDrillTarget] = useState<DrillTarget | null>(null);
+  const [comparison, setComparison] = useState<ComparisonState>(() => urlView.comparison || NO_COMPARISON);
+  // Days to project on the tonnage and frequency cards; 0 = off
+  const [forecastDays, setForecastDays] = useState<number>(urlView.forecastDays || 0);
+
+  const [sourceConfig, setSourceConfig] = useState<DataSourceConfig>(() => {
+    const saved = localStorage.getItem('logistics_v14_source');
+    return saved ? JSON.parse(saved) : DEFAULT_SOURCE_CONFIG;
+  });
+  const [draftSource, setDraftSource] = useState<DataSourceConfig>(sourceConfig);
+
+  const [columnMappings, setColumnMappings] = useState<Record<string, ColumnMapping>>(() => {
+    const saved = localStorage.getItem('logistics_v14_mappings');
+    return saved ? JSON.parse(saved) : {};
   });
+  const [columnReport, setColumnReport] = useState<ColumnResolution | null>(null);
+  const [dateFormats, setDateFormats] = useState<DateColumnFormats | null>(null);
+  const [isMappingOpen, setIsMappingOpen] = useState(false);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [isDiagnosticsOpen, setIsDiagnosticsOpen] = useState(false);
+  const [isExplorerOpen, setIsExplorerOpen] = useState(false);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+  const [reportJob, setReportJob] = useState<ReportJob | null>(null);
+  const [reportFailed, setReportFailed] = useState(false);
+  const reportReady = useRef<(() => void) | null>(null);
 
-  const [filters, setFilters] = useState<FilterState>(() => {
-    const istNow = getISTNow();
-    const ago = new Date(istNow);
-    ago.setDate(istNow.getDate() - 30);
-    return { startDate: formatDateToISO(ago), endDate: formatDateToISO(istNow), material: '' };
+  const [user, setUser] = useState<string | null>(() => localStorage.getItem('logistics_v14_user'));
+
+  const [alertHistory, setAlertHistory] = useState<AlertEvent[]>(() => {
+    const saved = localStorage.getItem('logistics_v14_alerts');
+    return saved ? JSON.parse(saved) : [];
   });
+  const [snoozedUntil, setSnoozedUntil] = useState<number>(() => parseInt(localStorage.getItem('logistics_v14_alert_snooze') || '0') || 0);
+  const alertSnapshot = useRef<MonitorSnapshot | null>(null);
+
+  const [filters, setFilters] = useState<FilterState>(() => ({ ...getDefaultDateRange(settings.timeZone), ...EMPTY_FILTERS, ...urlView.filters }));
 
   const t = I18N[lang];
 
@@ -338,144 +518,426 @@ export const App: React.FC = () => {
 
   const combinedVersion = useMemo(() => dataVersion + animationTick, [dataVersion, animationTick]);
 
+  // Half-typed zone names in the settings form keep the last valid zone in use.
+  const plantTimeZone = isValidTimeZone(settings.timeZone) ? settings.timeZone : DEFAULT_TIME_ZONE;
+
   const fetchCSV = useCallback(async () => {
-    setIsLoading(true);
+    // Only a new source blocks the screen; timer ticks refresh in the background.
+    const sourceKey = `${getLoadKey(sourceConfig)}|${plantTimeZone}|${settings.dateFormat}`;
+    const isFullLoad = loadedSourceKey.current !== sourceKey;
+    (isFullLoad ? setIsLoading : setIsRefreshing)(true);
     try {
-      const res = await fetch(`${CSV_URL}&cb=${Date.now()}`);
-      const text = await res.text();
-      const allRows = robustParseCSV(text);
+      const allRows = await createDataSource(sourceConfig, plantTimeZone).load();
       if (allRows.length <= 1) return;
-      const headers = allRows[0].map(h => h.trim());
-      const idx = {
-        truck: findColIdx(headers, ["車號", "車牌", "Truck"]),
-        mat: findColIdx(headers, ["原材料", "品名", "Material"]),
-        arrival: findColIdx(headers, ["進場", "Arrival"]),
-        end: findColIdx(headers, ["結束", "作業完成", "End"]),
-        totalTime: findColIdx(headers, ["作業總時間", "總時間", "Duration", "Total Time"]),
-        weight: findColIdx(headers, ["重量", "Weight", "(t)"])
-      };
-      const parsed = allRows.slice(1).map(c => ({
-        truckNo: c[idx.truck] || "N/A",
-        matName: c[idx.mat] || "N/A",
-        arrivalTime: c[idx.arrival] || "",
-        endTime: c[idx.end] || "",
-        // Fix: Remove commas to ensure large numbers (e.g., 1,894) are parsed correctly
-        totalTime: parseNumberSafe(c[idx.totalTime]),
-        weight: parseNumberSafe(c[idx.weight]),
-        mxStock: 0, whStock: 0
-      })).filter(x => !!x.matName);
-      setRawData(parsed);
-      setDataVersion(v => v + 1);
-    } catch (e) { console.error(e); }
-    finally { setIsLoading(false); }
-  }, []);
+      const resolution = resolveColumns(allRows, columnMappings[getSourceKey(sourceConfig)]);
+      setColumnReport(resolution);
+      const body = allRows.slice(1);
+      const dates = resolveDateFormats(body, resolution.idx, settings.dateFormat);
+      setDateFormats(dates);
+      // A missing required column would turn every row into "N/A"/0, so show nothing instead.
+      const parsed = resolution.missing.length > 0 ? [] : mapRowsToTrucks(body, resolution.idx, dates, d => getPlantNow(plantTimeZone, d));
+      const { valid, report } = validateRows(parsed);
+      setImportReport(report);
+      if (isFullLoad) {
+        setRawData(valid);
+        setDataVersion(v => v + 1);
+        setRecentChanges(NO_CHANGES);
+      } else {
+        const { rows, diff } = mergeRows(rawDataRef.current, valid);
+        if (rows !== rawDataRef.current) {
+          setRawData(rows);
+          setDataVersion(v => v + 1);
+        }
+        setRecentChanges({ added: new Set(diff.added), completed: new Set(diff.completed) });
+      }
+      loadedSourceKey.current = sourceKey;
+      setLastUpdated(Date.now());
+      setRefreshFailed(false);
+    } catch (e) {
+      // Keep showing the last good rows; the monitor header says how old they are.
+      console.error(e);
+      setRefreshFailed(true);
+    }
+    finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  }, [sourceConfig, columnMappings, plantTimeZone, settings.dateFormat]);
 
   useEffect(() => { fetchCSV(); }, [fetchCSV]);
 
+  // A new source is a new baseline, not a burst of alerts.
+  useEffect(() => { alertSnapshot.current = null; }, [sourceConfig]);
+
+  // Read through a ref so the refresh-keyed effect below always sees the
+  // latest rules, snooze and language without re-running when they change.
+  const alertInputs = useRef({ settings, snoozedUntil, plantTimeZone, t });
+  alertInputs.current = { settings, snoozedUntil, plantTimeZone, t };
+
+  // Runs once per successful refresh, changed rows or not, so in-progress
+  // trucks still age into overdue. Rule edits apply from the next refresh.
+  useEffect(() => {
+    if (lastUpdated === null) return;
+    const { settings, snoozedUntil, plantTimeZone, t } = alertInputs.current;
+    const plantNow = getPlantNow(plantTimeZone);
+    const win = getShiftDayWindow(getShiftDate(plantNow, settings.shiftCalendar), settings.shiftCalendar);
+    if (!win) return;
+    const rows = rawDataRef.current.filter(r => {
+      const d = smartParseDate(r.arrivalTime);
+      return d && d >= win.start && d < win.end;
+    });
+    const { snapshot, alerts } = evaluateAlerts(alertSnapshot.current, rows, {
+      now: plantNow,
+      rules: settings.alertRules,
+      threshold: settings.warnThreshold,
+      benchmarkTime: settings.benchmarkTime,
+      materialBenchmarks: settings.materialBenchmarks
+    });
+    alertSnapshot.current = snapshot;
+    if (alerts.length === 0) return;
+
+    const events = toAlertEvents(alerts, Date.now(), snoozedUntil);
+    setAlertHistory(h => [...events, ...h].slice(0, ALERT_HISTORY_LIMIT));
+    if (events[0].silenced) return;
+    if (settings.alertRules.sound) playAlertTone();
+    if (settings.alertRules.notify) showAlertNotification(t.alertsTitle, events.map(e => describeAlert(e, t)).join('\n'));
+  }, [lastUpdated]);
+
+  useEffect(() => {
+    localStorage.setItem('logistics_v14_alerts', JSON.stringify(alertHistory));
+  }, [alertHistory]);
+
+  useEffect(() => {
+    localStorage.setItem('logistics_v14_alert_snooze', String(snoozedUntil));
+  }, [snoozedUntil]);
+
   const materialList = useMemo(() => {
     const mats = new Set(rawData.map(r => r.matName));
     return Array.from(mats).sort();
   }, [rawData]);
 
-  const filteredData = useMemo(() => {
-    const s = smartParseDate(filters.startDate);
-    const e = smartParseDate(filters.endDate);
-    if (!s || !e) return [];
-    
-    const sB = new Date(s.getFullYear(), s.getMonth(), s.getDate(), 7, 0);
-    const eB = new Date(e.getFullYear(), e.getMonth(), e.getDate() + 1, 7, 0);
-    
-    return rawData.filter(r => {
-      const d = smartParseDate(r.arrivalTime);
-      return d && d >= sB && d < eB && (!filters.material || r.matName.toLowerCase().includes(filters.material.toLowerCase()));
-    });
-  }, [rawData, filters]);
+  const filteredData = useMemo(() => filterRows(rawData, filters, settings.shiftCalendar), [rawData, filters, settings.shiftCalendar]);
 
-  const timelineData = useMemo(() => {
-    const map: Record<string, any> = {};
-    filteredData.forEach(r => {
-      const d = smartParseDate(r.arrivalTime);
-      if (d) {
-        const k = getShiftDateString(d);
-        if (!map[k]) map[k] = { date: k, tons: 0, counts: 0, time: 0 };
-        map[k].tons += r.weight / 1000;
-        map[k].counts++;
-        map[k].time += r.totalTime;
-      }
-    });
-    return Object.values(map).map((v: any) => ({ 
-      ...v, tons: parseFloat(v.tons.toFixed(1)), avgTime: Math.round(v.time / v.counts) 
-    })).sort((a, b) => a.date.localeCompare(b.date));
-  }, [filteredData]);
-
-  const rangeSummary = useMemo(() => {
-    const totalTons = timelineData.reduce((a, b) => a + b.tons, 0);
-    const totalCounts = timelineData.reduce((a, b) => a + b.counts, 0);
-    const totalTime = timelineData.reduce((a, b) => a + b.time, 0);
-    const days = timelineData.length || 1;
-    const avgTotalWorkTimePerDay = totalTime / days;
-    
+  const timelineData = useMemo(() => buildTimelineData(filteredData, settings.shiftCalendar), [filteredData, settings.shiftCalendar]);
+
+  const rangeSummary = useMemo(() => buildRangeSummary(timelineData), [timelineData]);
+
+  // Reference line for the average-time chart: the benchmark mix of the trucks in range.
+  const expectedAvgTime = useMemo(() => getExpectedAvgTime(filteredData, settings.materialBenchmarks, settings.benchmarkTime), [filteredData, settings.materialBenchmarks, settings.benchmarkTime]);
+
+  const weekdayHourData = useMemo(() => buildWeekdayHourData(filteredData), [filteredData]);
+
+  const durationStats = useMemo(() => buildDurationStats(filteredData, settings.materialBenchmarks, settings.benchmarkTime), [filteredData, settings.materialBenchmarks, settings.benchmarkTime]);
+
+  // Historical medians offered as per-material benchmarks in settings.
+  const materialMedians = useMemo(() => deriveMaterialBenchmarks(rawData), [rawData]);
+
+  const paretoData = useMemo(() => buildParetoData(filteredData, settings.paretoMetric, settings.paretoTopN), [filteredData, settings.paretoMetric, settings.paretoTopN]);
+
+  // Both groupings are built up front so the panel's toggle is instant.
+  const scorecard = useMemo(() => {
+    const opts = {
+      carrierRules: settings.carrierRules,
+      materialBenchmarks: settings.materialBenchmarks,
+      benchmarkTime: settings.benchmarkTime,
+      warnThreshold: settings.warnThreshold,
+      dates: timelineData.map(p => p.date),
+      calendar: settings.shiftCalendar
+    };
+    return { truck: buildScorecard(filteredData, 'truck', opts), carrier: buildScorecard(filteredData, 'carrier', opts) };
+  }, [filteredData, timelineData, settings.carrierRules, settings.materialBenchmarks, settings.benchmarkTime, settings.warnThreshold, settings.shiftCalendar]);
+
+  const flowData = useMemo(() => buildFlowData(filteredData, settings.shiftCalendar), [filteredData, settings.shiftCalendar]);
+
+  // Baseline aggregates for comparison mode; null while comparison is off.
+  const baselineRange = useMemo(() => getBaselineRange(filters, comparison), [filters.startDate, filters.endDate, comparison]);
+
+  const baseline = useMemo(() => {
+    if (!baselineRange) return null;
+    const rows = filterRows(rawData, { ...filters, ...baselineRange }, settings.shiftCalendar);
+    const timeline = buildTimelineData(rows, settings.shiftCalendar);
     return {
-      totalTons: parseFloat(totalTons.toFixed(1)),
-      totalCounts,
-      totalTime,
-      avgTonsPerDay: parseFloat((totalTons / days).toFixed(1)),
-      avgCountsPerDay: parseFloat((totalCounts / days).toFixed(1)),
-      avgTotalWorkTimePerDay: Math.round(avgTotalWorkTimePerDay),
-      avgEff: totalCounts > 0 ? Math.round(totalTime / totalCounts) : 0,
-      days
+      timeline,
+      summary: buildRangeSummary(timeline),
+      pareto: buildParetoData(rows, settings.paretoMetric, settings.paretoTopN),
+      flow: buildFlowData(rows, settings.shiftCalendar),
+      utilization: buildUtilizationData(timeline, settings.targetHours)
     };
-  }, [timelineData]);
-
-  const paretoData = useMemo(() => {
-    const stats: Record<string, number> = {};
-    filteredData.forEach(r => stats[r.matName] = (stats[r.matName] || 0) + (r.weight / 1000));
-    const sorted = Object.entries(stats).sort((a,b) => b[1]-a[1]).slice(0, 10).map(([n, t]) => ({ name: n, tons: parseFloat(t.toFixed(1)) }));
-    const top10Total = sorted.reduce((a,b) => a+b.tons, 0);
-    let acc = 0;
-    const items = sorted.map(i => { acc += i.tons; return { ...i, percentage: top10Total > 0 ? Math.round((acc/top10Total)*100) : 0 }; });
-    return { items, top10Total };
-  }, [filteredData]);
-
-  const flowData = useMemo(() => {
-    const hrs = Array.from({length:24}, (_,i) => ({ hour: `${i}h`, count: 0 }));
-    filteredData.forEach(r => {
-      const d = smartParseDate(r.arrivalTime);
-      if (d) {
-        hrs[d.getHours()].count++;
+  }, [rawData, filters, baselineRange, settings.shiftCalendar, settings.targetHours, settings.paretoMetric, settings.paretoTopN]);
+
+  // The "Others" bucket has an empty name until here, so it overlays the baseline's own bucket.
+  const paretoOthersLabel = (count: number) => fillTemplate(t.paretoOthers, { count });
+  const labelPareto = <T extends ParetoItem>(items: T[]) => items.map(p => (p.others !== undefined ? { ...p, name: paretoOthersLabel(p.others) } : p));
+
+  const chartData = useMemo(() => {
+    if (!baseline || !baselineRange) return { timeline: timelineData, pareto: labelPareto(paretoData.items), flow: flowData.hrs };
+    return {
+      timeline: overlayBaseline(timelineData, baseline.timeline,
+        p => String(dayOffset(filters.startDate, p.date)), p => String(dayOffset(baselineRange.startDate, p.date)),
+        ['tons', 'counts', 'time', 'avgTime']),
+      pareto: labelPareto(overlayBaseline(paretoData.items, baseline.pareto.items, p => p.name, p => p.name, [paretoData.metric])),
+      flow: overlayBaseline(flowData.hrs, baseline.flow.hrs, p => p.hour, p => p.hour, ['count'])
+    };
+  }, [timelineData, paretoData, flowData, baseline, baselineRange, filters.startDate, t]);
+
+  const forecast = useMemo(() => {
+    if (forecastDays <= 0) return null;
+    const complete = dropPartialDay(timelineData, getShiftDate(getPlantNow(plantTimeZone), settings.shiftCalendar));
+    const tons = forecastTimeline(complete, 'tons', forecastDays);
+    const counts = forecastTimeline(complete, 'counts', forecastDays);
+    return {
+      timeline: mergeForecast(mergeForecast(chartData.timeline, 'tons', tons), 'counts', counts),
+      totalTons: parseFloat(tons.reduce((a, b) => a + b.value, 0).toFixed(1)),
+      totalCounts: counts.reduce((a, b) => a + b.value, 0),
+      backtest: {
+        tons: backtestForecast(complete, 'tons', forecastDays),
+        counts: backtestForecast(complete, 'counts', forecastDays)
       }
-    });
-    const amActive = hrs.slice(0, 12).filter(h => h.count > 0).map(h => parseInt(h.hour));
-    const pmActive = hrs.slice(12, 24).filter(h => h.count > 0).map(h => parseInt(h.hour));
-    const amStr = amActive.length > 0 ? `AM: ${Math.min(...amActive)}h~${Math.max(...amActive)}h` : "AM: --";
-    const pmStr = pmActive.length > 0 ? `PM: ${Math.min(...pmActive)}h~${Math.max(...pmActive)}h` : "PM: --";
-    return { hrs, amStr, pmStr };
-  }, [filteredData]);
+    };
+  }, [forecastDays, timelineData, chartData.timeline, plantTimeZone, settings.shiftCalendar]);
+
+  const forecastSeries = (key: ForecastKey, color: string) => forecast ? { key, color, name: fillTemplate(t.forecastSeries, { days: forecastDays }), bandName: t.forecastBand } : undefined;
+
+  const forecastFooter = (key: ForecastKey) => {
+    if (!forecast) return [];
+    const bt = forecast.backtest[key];
+    return [
+      { label: fillTemplate(t.statForecastTotal, { days: forecastDays }), value: key === 'tons' ? `${forecast.totalTons}t` : forecast.totalCounts, color: 'text-violet-600' },
+      { label: t.statForecastError, value: bt.mape !== null ? `${bt.mape}%` : '--', color: 'text-slate-600', formula: fillTemplate(t.forecastFormula, { folds: bt.folds, days: forecastDays }) }
+    ];
+  };
+
+  const anomalies = useMemo(() => detectAnomalies(filteredData, timelineData, settings.shiftCalendar), [filteredData, timelineData, settings.shiftCalendar]);
+
+  // Chart categories to flag, per card.
+  const anomalyHighlights = useMemo(() => {
+    const unique = (values: (string | undefined)[]) => Array.from(new Set(values.filter((v): v is string => !!v)));
+    return {
+      'chart-pareto': unique(anomalies.filter(a => a.kind === 'weight').map(a => a.material)),
+      'chart-tonnage': unique(anomalies.filter(a => a.kind === 'dayTons').map(a => a.date)),
+      'chart-frequency': unique(anomalies.filter(a => a.kind === 'dayCounts').map(a => a.date)),
+      'chart-efficiency': unique(anomalies.filter(a => a.kind === 'duration').map(a => a.date)),
+      'chart-flow': unique(anomalies.filter(a => a.hour !== undefined).map(a => `${a.hour}h`))
+    } as Record<string, string[]>;
+  }, [anomalies]);
+
+  const comparisonSeries = baselineRange ? { name: `${t.compareBaseline} (${baselineRange.startDate} ~ ${baselineRange.endDate})` } : undefined;
+
+  const vsBaseline = (pick: (s: RangeSummary) => number) => baseline ? pctDelta(pick(rangeSummary), pick(baseline.summary)) : undefined;
+
+  const shiftSeries = useCallback((prefix: string) => settings.shiftCalendar.shifts.map((sh, i) => ({
+    key: `${prefix}_s${i}`, name: sh.name, color: SHIFT_COLORS[i % SHIFT_COLORS.length]
+  })), [settings.shiftCalendar]);
+
+  const utilizationData = useMemo(() => buildUtilizationData(timelineData, settings.targetHours), [timelineData, settings.targetHours]);
+
+  const stockMaterials = useMemo(() => getStockMaterials(filteredData), [filteredData]);
+
+  const inventoryData = useMemo(() => {
+    const material = stockMaterials.includes(inventoryMaterial) ? inventoryMaterial : stockMaterials[0];
+    const points = material ? buildInventoryData(filteredData, material, settings.shiftCalendar) : [];
+    const latest = points[points.length - 1];
+    return {
+      material,
+      points,
+      latestMixer: latest ? latest.mxStock : 0,
+      latestWarehouse: latest ? latest.whStock : 0,
+      inboundTons: parseFloat(points.reduce((a, b) => a + b.tons, 0).toFixed(1)),
+      lowDays: points.filter(p => p.mxStock < settings.stockThresholds.mixer || p.whStock < settings.stockThresholds.warehouse).length
+    };
+  }, [filteredData, stockMaterials, inventoryMaterial, settings.stockThresholds, settings.shiftCalendar]);
 
   const todayMonitor = useMemo(() => {
-    const base = smartParseDate(monitorDate);
-    if (!base) return { items: [], avgRate: 0 };
-    const s = new Date(base.getFullYear(), base.getMonth(), base.getDate(), 7, 0);
-    const e = new Date(s); e.setDate(e.getDate() + 1);
+    const win = getShiftDayWindow(monitorDate, settings.shiftCalendar);
+    if (!win) return { items: [], avgRate: 0, workTime: 0 };
+    const { start: s, end: e } = win;
     const items = rawData.filter(r => {
       const d = smartParseDate(r.arrivalTime);
-      return d && d >= s && d < e;
+      return d && d >= s && d < e && (monitorShift < 0 || getShiftIndex(d, settings.shiftCalendar) === monitorShift) && matchesFilters(r, filters);
     }).sort((a, b) => (smartParseDate(b.arrivalTime)?.getTime() || 0) - (smartParseDate(a.arrivalTime)?.getTime() || 0));
     
-    if (items.length === 0) return { items: [], avgRate: 0 };
+    if (items.length === 0) return { items: [], avgRate: 0, workTime: 0 };
     const itemsWithRate = items.map(item => {
-      let rate = 100;
-      if (item.totalTime > 0) {
-        rate = Math.min(100, Math.round((settings.benchmarkTime / item.totalTime) * 100));
-      }
-      return { ...item, rate };
+      const benchmark = getMaterialBenchmark(item.matName, settings.materialBenchmarks, settings.benchmarkTime);
+      return { ...item, benchmark, rate: getTruckRate(item.totalTime, benchmark) };
     });
     const avgRateValue = itemsWithRate.length > 0 ? Math.round(itemsWithRate.reduce((acc, cur) => acc + (cur.rate || 0), 0) / items.length) : 0;
-    return { items: itemsWithRate, avgRate: avgRateValue };
-  }, [rawData, monitorDate, settings.benchmarkTime]);
+    const workTime = items.reduce((acc, cur) => acc + cur.totalTime, 0);
+    return { items: itemsWithRate, avgRate: avgRateValue, workTime };
+  }, [rawData, monitorDate, monitorShift, filters, settings.benchmarkTime, settings.materialBenchmarks, settings.shiftCalendar]);
+
+  useEffect(() => {
+    if (monitorShift >= settings.shiftCalendar.shifts.length) setMonitorShift(-1);
+  }, [settings.shiftCalendar, monitorShift]);
+
+  // Re-anchor the monitor and the default range on the plant's "today" when the plant zone changes.
+  const lastTimeZone = useRef(plantTimeZone);
+  useEffect(() => {
+    if (lastTimeZone.current === plantTimeZone) return;
+    lastTimeZone.current = plantTimeZone;
+    setMonitorDate(getShiftDate(getPlantNow(plantTimeZone), settings.shiftCalendar));
+    setFilters(f => ({ ...f, ...getDefaultDateRange(plantTimeZone) }));
+  }, [plantTimeZone, settings.shiftCalendar]);
+
+  // Mirror the view into the URL. Edits are batched into one history entry so
+  // typing in a filter does not flood back/forward; the first sync only fills in the URL.
+  const getViewDefaults = (): ViewDefaults => ({
+    ...getDefaultDateRange(plantTimeZone),
+    monitorDate: getShiftDate(getPlantNow(plantTimeZone), settings.shiftCalendar)
+  });
+  const viewState = useMemo(() => ({ filters, monitorDate, monitorShift, effMode, lang, chartTypes: settings.chartTypes, comparison, forecastDays }),
+    [filters, monitorDate, monitorShift, effMode, lang, settings.chartTypes, comparison, forecastDays]);
+  const viewQuery = useMemo(() => encodeViewState(viewState, getViewDefaults()), [viewState, plantTimeZone, settings.shiftCalendar]);
+  const hasSyncedUrl = useRef(false);
+  useEffect(() => {
+    const isFirstSync = !hasSyncedUrl.current;
+    hasSyncedUrl.current = true;
+    if (`?${viewQuery}` === window.location.search) return;
+    const url = `${window.location.pathname}?${viewQuery}${window.location.hash}`;
+    if (isFirstSync) {
+      window.history.replaceState(null, '', url);
+      return;
+    }
+    const timer = window.setTimeout(() => window.history.pushState(null, '', url), 500);
+    return () => clearTimeout(timer);
+  }, [viewQuery]);
+
+  useEffect(() => {
+    const restore = () => {
+      const view = decodeViewState(window.location.search);
+      const defaults = getViewDefaults();
+      setFilters({ startDate: defaults.startDate, endDate: defaults.endDate, ...EMPTY_FILTERS, ...view.filters });
+      setMonitorDate(view.monitorDate || defaults.monitorDate);
+      setMonitorShift(view.monitorShift ?? -1);
+      if (view.effMode) setEffMode(view.effMode);
+      if (view.lang) setLang(view.lang);
+      if (view.chartTypes) setSettings(s => ({ ...s, chartTypes: { ...s.chartTypes, ...view.chartTypes } }));
+      setComparison(view.comparison || NO_COMPARISON);
+      setForecastDays(view.forecastDays || 0);
+      scrollToHashedChart();
+    };
+    window.addEventListener('popstate', restore);
+    window.addEventListener('hashchange', scrollToHashedChart);
+    return () => {
+      window.removeEventListener('popstate', restore);
+      window.removeEventListener('hashchange', scrollToHashedChart);
+    };
+  }, [plantTimeZone, settings.shiftCalendar]);
+
+  // Deep links (#chart-*) wait for the first load so the cards have their final height.
+  const hasScrolledToChart = useRef(false);
+  useEffect(() => {
+    if (hasScrolledToChart.current || rawData.length === 0) return;
+    hasScrolledToChart.current = true;
+    scrollToHashedChart();
+  }, [rawData]);
+
+  const copyViewLink = async (chartId?: string) => {
+    // A copied link names its dates, so it shows the same days whenever it is opened.
+    const url = `${window.location.origin}${window.location.pathname}?${encodeViewState(viewState)}${chartId ? `#${chartId}` : ''}`;
+    window.history.replaceState(null, '', url);
+    try {
+      await navigator.clipboard.writeText(url);
+      alert(t.linkCopied);
+    } catch (err) {
+      console.error('Failed to copy link:', err);
+    }
+  };
+
+  const drillRows = useMemo(() => drillTarget ? selectDrillRows(filteredData, drillTarget, settings.shiftCalendar, settings.carrierRules) : [],
+    [filteredData, drillTarget, settings.shiftCalendar, settings.carrierRules]);
+
+  const jumpToMonitorDay = (date: string) => {
+    setMonitorDate(date);
+    setMonitorShift(-1);
+    setDrillTarget(null);
+    document.getElementById('live-monitor')?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  // The report renders its own off-screen sheet and chart cards in the chosen
+  // language and period, so the live view stays as it is while they are captured.
+  const generateReport = async (options: ReportOptions) => {
+    const period = options.period === 'day' ? { startDate: options.day, endDate: options.day } : { startDate: filters.startDate, endDate: filters.endDate };
+    const reportT = I18N[options.lang];
+    const rows = filterRows(rawData, { ...filters, ...period }, settings.shiftCalendar);
+    const plantNow = getPlantNow(plantTimeZone);
+    let insights: string[] | null = null;
+    const chartsReady = new Promise<void>(resolve => { reportReady.current = resolve; });
+
+    setReportFailed(false);
+    setReportJob({
+      options,
+      rows,
+      periodLabel: period.startDate === period.endDate ? period.startDate : `${period.startDate} ~ ${period.endDate}`,
+      generatedAt: `${formatDateToISO(plantNow)} ${formatClock(plantNow.getHours() * 60 + plantNow.getMinutes())} (${getTimeZoneLabel(plantTimeZone)})`,
+      summary: buildRangeSummary(buildTimelineData(rows, settings.shiftCalendar)),
+      alerts: rows
+        .map(r => ({ ...r, rate: getTruckRate(r.totalTime, getMaterialBenchmark(r.matName, settings.materialBenchmarks, settings.benchmarkTime)) }))
+        .filter(r => r.rate < settings.warnThreshold)
+        .sort((a, b) => a.rate - b.rate),
+      insights
+    });
+
+    try {
+      if (options.includeInsights) {
+        try {
+          insights = parseInsightBullets(await analyzeLogisticsData(buildAnalysisSummary(rows, { calendar: settings.shiftCalendar }), options.lang, settings.aiModel));
+          setReportJob(job => job && { ...job, insights });
+        } catch (err) {
+          console.error('Report insights failed:', err);
+        }
+      }
+      await Promise.race([
+        chartsReady,
+        new Promise((_, reject) => setTimeout(() => reject(new Error('Report charts did not render in time')), REPORT_READY_TIMEOUT_MS))
+      ]);
+      await nextPaint();
+      const sections = ['report-sheet', ...REPORT_CARD_IDS.map(id => `report-${id}`)]
+        .map(id => document.getElementById(id))
+        .filter((el): el is HTMLElement => !!el);
+      await renderPdfReport(sections, `${reportT.reportFilePrefix}_${period.startDate}_${period.endDate}`);
+      setIsReportOpen(false);
+    } catch (err) {
+      console.error('Failed to generate report:', err);
+      setReportFailed(true);
+    } finally {
+      reportReady.current = null;
+      setReportJob(null);
+    }
+  };
+
+  const monitorWindowLabel = useMemo(() => {
+    const cal = settings.shiftCalendar;
+    if (monitorShift >= 0 && cal.shifts[monitorShift]) {
+      const { start, end } = getShiftHours(cal, monitorShift);
+      return `${cal.shifts[monitorShift].name} ${start}-${end}`;
+    }
+    const boundary = formatClock(getDayBoundary(cal));
+    return `${boundary}-${boundary}`;
+  }, [settings.shiftCalendar, monitorShift]);
+
+  const monitorWindow = useMemo(() => getShiftDayWindow(monitorDate, settings.shiftCalendar), [monitorDate, settings.shiftCalendar]);
+  // In-progress bars run to the plant clock as of the latest data.
+  const monitorNow = useMemo(() => getPlantNow(plantTimeZone, new Date(lastUpdated ?? Date.now())), [lastUpdated, plantTimeZone]);
+
+  const targetProgress = settings.targetHours > 0 ? Math.round((todayMonitor.workTime / (settings.targetHours * 60)) * 100) : 0;
+
+  const openSettings = () => {
+    setDraftSource(sourceConfig);
+    setIsSettingsOpen(true);
+  };
 
   const handleApplySettings = () => {
     localStorage.setItem('logistics_v14_config', JSON.stringify(settings));
+    try {
+      localStorage.setItem('logistics_v14_source', JSON.stringify(draftSource));
+    } catch (e) {
+      // Large uploads may exceed the storage quota. A file source without its body
+      // would reload as an empty dataset, so the previously saved source stays.
+      console.error(e);
+      alert(t.sourceNotPersisted);
+    }
+    setSourceConfig(draftSource);
     setIsSettingsOpen(false);
     setDataVersion(v => v + 1);
     setAnimationTick(0);
@@ -498,6 +960,52 @@ export const App: React.FC = () => {
     }
   };
 
+  const handleSaveMapping = (mapping: ColumnMapping) => {
+    const next = { ...columnMappings, [getSourceKey(sourceConfig)]: mapping };
+    localStorage.setItem('logistics_v14_mappings', JSON.stringify(next));
+    setColumnMappings(next);
+    setIsMappingOpen(false);
+  };
+
+  const handleLogin = (name: string) => {
+    localStorage.setItem('logistics_v14_user', name);
+    setUser(name);
+  };
+
+  const handleLogout = () => {
+    localStorage.removeItem('logistics_v14_user');
+    setUser(null);
+  };
+
+  const renderSplitToggle = (chartId: string) => settings.shiftCalendar.shifts.length > 1 && (
+    <button
+      onClick={() => setSplitByShift(m => ({ ...m, [chartId]: !m[chartId] }))}
+      className={`text-xs font-bold border rounded-xl p-2 transition-all ${splitByShift[chartId] ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-slate-50 text-slate-600 hover:bg-slate-100'}`}
+    >
+      {t.splitByShift}
+    </button>
+  );
+
+  const renderForecastSelect = () => (
+    <select value={forecastDays} onChange={e => setForecastDays(parseInt(e.target.value))} className={`text-xs font-bold border rounded-xl p-2 outline-none ${forecastDays > 0 ? 'bg-violet-50 text-violet-700 border-violet-200' : 'bg-slate-50'}`}>
+      <option value={0}>{t.forecastOff}</option>
+      {[7, 14].map(d => <option key={d} value={d}>{fillTemplate(t.forecastDays, { days: d })}</option>)}
+    </select>
+  );
+
+  const paretoUnit = PARETO_UNITS[paretoData.metric];
+
+  const renderParetoControls = () => (
+    <>
+      <select value={settings.paretoMetric} onChange={e => setSettings(s => ({...s, paretoMetric: e.target.value as ParetoMetric}))} className="text-xs font-bold border rounded-xl p-2 outline-none bg-slate-50">
+        {(Object.keys(PARETO_METRIC_LABELS) as ParetoMetric[]).map(m => <option key={m} value={m}>{t[PARETO_METRIC_LABELS[m]]}</option>)}
+      </select>
+      <select value={settings.paretoTopN} onChange={e => setSettings(s => ({...s, paretoTopN: parseInt(e.target.value)}))} className="text-xs font-bold border rounded-xl p-2 outline-none bg-slate-50">
+        {[5, 10, 15, 20].map(n => <option key={n} value={n}>{fillTemplate(t.paretoTopN, { n })}</option>)}
+      </select>
+    </>
+  );
+
   const syncBenchmarkToAverage = () => {
     setSettings(s => ({ ...s, benchmarkTime: rangeSummary.avgEff }));
   };
@@ -507,7 +1015,7 @@ export const App: React.FC = () => {
       <div className="fixed top-0 left-0 right-0 z-50 flex justify-center pointer-events-none">
         <DashboardTimer 
           rate={settings.refreshRate} 
-          isPaused={isPaused || isLoading} 
+          isPaused={isPaused || isLoading || isRefreshing} 
           onTrigger={fetchCSV} 
           onTogglePause={() => setIsPaused(!isPaused)}
         />
@@ -519,46 +1027,97 @@ export const App: React.FC = () => {
           <h1 className="text-lg font-black text-slate-800 tracking-tight">{t.title}</h1>
         </div>
         <div className="flex items-center gap-4">
+          {importReport && (
+            <button onClick={() => setIsDiagnosticsOpen(true)} title={t.diagnosticsTitle} className="relative p-2.5 bg-slate-50 border rounded-xl hover:bg-slate-100 transition-all shadow-sm">
+              <Stethoscope className="w-6 h-6 text-slate-600" />
+              {importReport.errors + importReport.warnings > 0 && (
+                <span className={`absolute -top-2 -right-2 min-w-[22px] h-[22px] px-1 rounded-full text-[10px] font-black text-white flex items-center justify-center ${importReport.errors > 0 ? 'bg-rose-600' : 'bg-amber-500'}`}>
+                  {importReport.errors > 0 ? importReport.errors : importReport.warnings}
+                </span>
+              )}
+            </button>
+          )}
+          <AlertCenter history={alertHistory} snoozedUntil={snoozedUntil} timeZone={plantTimeZone} onSnooze={setSnoozedUntil} onClear={() => setAlertHistory([])} t={t} />
+          <button onClick={() => { setReportFailed(false); setIsReportOpen(true); }} title={t.reportTitle} className="p-2.5 bg-slate-50 border rounded-xl hover:bg-slate-100 transition-all shadow-sm"><FileText className="w-6 h-6 text-slate-600" /></button>
+          <button onClick={() => setIsExplorerOpen(true)} title={t.explorerTitle} className="p-2.5 bg-slate-50 border rounded-xl hover:bg-slate-100 transition-all shadow-sm"><Sheet className="w-6 h-6 text-slate-600" /></button>
+          <button onClick={() => copyViewLink()} title={t.shareView} className="p-2.5 bg-slate-50 border rounded-xl hover:bg-slate-100 transition-all shadow-sm"><Share2 className="w-6 h-6 text-slate-600" /></button>
           <select value={lang} onChange={e => setLang(e.target.value as Language)} className="text-sm font-bold border rounded-xl p-2 outline-none cursor-pointer bg-slate-50">
             <option value="zh">繁體中文</option>
             <option value="en">English</option>
             <option value="hi">हिन्दी</option>
           </select>
-          <button onClick={() => setIsSettingsOpen(true)} className="p-2.5 bg-slate-50 border rounded-xl hover:bg-slate-100 transition-all shadow-sm"><SettingsIcon className="w-6 h-6 text-slate-600" /></button>
+          <button onClick={openSettings} className="p-2.5 bg-slate-50 border rounded-xl hover:bg-slate-100 transition-all shadow-sm"><SettingsIcon className="w-6 h-6 text-slate-600" /></button>
         </div>
       </header>
 
       <main className="max-w-7xl mx-auto px-4 py-8 space-y-10">
-        <section className="bg-slate-900 rounded-[2.5rem] p-10 text-white shadow-2xl relative overflow-hidden">
+        {columnReport && columnReport.missing.length > 0 && (
+          <div className="bg-rose-600 text-white rounded-[2rem] p-6 shadow-xl flex flex-col md:flex-row items-start md:items-center justify-between gap-4 border-4 border-rose-300 animate-pulse">
+            <div className="flex items-center gap-4 font-black">
+              <AlertTriangle className="w-8 h-8 shrink-0" />
+              {fillTemplate(t.mappingMissing, { fields: columnReport.missing.map(f => t[FIELD_LABEL_KEYS[f]]).join(', ') })}
+            </div>
+            <button onClick={() => setIsMappingOpen(true)} className="bg-white text-rose-600 rounded-xl px-5 py-2.5 font-black shadow-lg hover:bg-rose-50 transition-all flex items-center gap-2 shrink-0">
+              <Columns3 className="w-5 h-5" /> {t.mappingOpen}
+            </button>
+          </div>
+        )}
+
+        <section id="live-monitor" className="scroll-mt-24 bg-slate-900 rounded-[2.5rem] p-10 text-white shadow-2xl relative overflow-hidden">
           <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-8 mb-10 border-b border-slate-800 pb-8">
             <div className="space-y-2">
               <h2 className="text-3xl font-black flex items-center gap-4">
-                <Clock className="text-indigo-400 w-8 h-8" /> {t.liveStatus} <span className="text-xs font-black text-indigo-400/60 ml-2">(IST)</span>
+                <Clock className="text-indigo-400 w-8 h-8" /> {t.liveStatus} ({monitorWindowLabel}) <span className="text-xs font-black text-indigo-400/60 ml-2">({getTimeZoneLabel(plantTimeZone)})</span>
               </h2>
-              <input type="date" value={monitorDate} onChange={e => setMonitorDate(e.target.value)} className="bg-slate-800 text-slate-200 font-bold px-5 py-3 rounded-2xl outline-none border border-slate-700 focus:border-indigo-500 cursor-pointer" />
+              <div className="flex gap-3">
+                <input type="date" value={monitorDate} onChange={e => setMonitorDate(e.target.value)} className="bg-slate-800 text-slate-200 font-bold px-5 py-3 rounded-2xl outline-none border border-slate-700 focus:border-indigo-500 cursor-pointer" />
+                {settings.shiftCalendar.shifts.length > 1 && (
+                  <select value={monitorShift} onChange={e => setMonitorShift(parseInt(e.target.value))} className="bg-slate-800 text-slate-200 font-bold px-5 py-3 rounded-2xl outline-none border border-slate-700 focus:border-indigo-500 cursor-pointer">
+                    <option value={-1}>{t.allShifts}</option>
+                    {settings.shiftCalendar.shifts.map((sh, i) => <option key={i} value={i}>{sh.name}</option>)}
+                  </select>
+                )}
+              </div>
+              {lastUpdated !== null && (
+                <div className={`text-[11px] font-black flex items-center gap-2 ${refreshFailed ? 'text-rose-400' : 'text-slate-500'}`}>
+                  {refreshFailed ? <AlertTriangle className="w-3.5 h-3.5" /> : <RefreshCcw className={`w-3.5 h-3.5 ${isRefreshing ? 'animate-spin text-indigo-400' : ''}`} />}
+                  {fillTemplate(refreshFailed ? t.refreshFailed : t.lastUpdated, { time: formatPlantTime(lastUpdated, plantTimeZone) })}
+                </div>
+              )}
             </div>
             <div className="flex gap-12 items-center bg-slate-800/40 p-8 rounded-3xl border border-slate-700/50">
               <div className="text-center"><div className="text-4xl font-black text-indigo-400">{todayMonitor.items.length}</div><div className="text-[10px] text-slate-500 uppercase font-black tracking-widest">{t.totalUnits}</div></div>
               <div className="w-px h-12 bg-slate-700"></div>
-              <div className="text-center"><div className={`text-4xl font-black ${todayMonitor.avgRate < settings.warnThreshold ? 'text-rose-400' : 'text-emerald-400'}`}>{todayMonitor.avgRate}%</div><div className="text-[10px] text-slate-500 uppercase font-black tracking-widest">{t.avgRate}</div></div>
+              <div className="text-center"><div className={`text-4xl font-black ${todayMonitor.avgRate < settings.warnThreshold ? 'text-rose-400' : 'text-emerald-400'}`}>{todayMonitor.avgRate}%</div><div className="text-[10px] text-slate-500 uppercase font-black tracking-widest" title={t.operationRateFormula}>{t.avgRate}</div></div>
+              <div className="w-px h-12 bg-slate-700"></div>
+              <div className="text-center min-w-[140px]" title={`${todayMonitor.workTime}m / ${settings.targetHours * 60}m`}>
+                <div className={`text-4xl font-black ${targetProgress >= 100 ? 'text-emerald-400' : 'text-amber-400'}`}>{targetProgress}%</div>
+                <div className="h-1.5 w-full bg-slate-700 rounded-full overflow-hidden my-1.5"><div className={`h-full ${targetProgress >= 100 ? 'bg-emerald-400' : 'bg-amber-400'}`} style={{ width: `${Math.min(100, targetProgress)}%` }} /></div>
+                <div className="text-[10px] text-slate-500 uppercase font-black tracking-widest">{t.targetProgress}</div>
+              </div>
             </div>
           </div>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-8 max-h-[500px] overflow-y-auto pr-4 custom-scrollbar">
-            {todayMonitor.items.length > 0 ? todayMonitor.items.map((item, idx) => {
+            {todayMonitor.items.length > 0 ? todayMonitor.items.map(item => {
               const isAlert = item.rate < settings.warnThreshold;
+              const key = truckKey(item);
+              const change = recentChanges.added.has(key) ? 'new' : recentChanges.completed.has(key) ? 'done' : null;
               return (
-                <div key={idx} className={`bg-slate-800/50 p-6 rounded-3xl border ${isAlert ? 'border-rose-500/50 bg-rose-900/10' : 'border-slate-700/40'} hover:bg-slate-800 transition-all group`}>
+                <div key={key} className={`bg-slate-800/50 p-6 rounded-3xl border ${isAlert ? 'border-rose-500/50 bg-rose-900/10' : 'border-slate-700/40'} ${change === 'new' ? 'ring-2 ring-emerald-400/70' : change === 'done' ? 'ring-2 ring-sky-400/70' : ''} hover:bg-slate-800 transition-all group`}>
                   <div className="flex justify-between items-center mb-4">
-                    <span className={`text-xs px-4 py-1.5 rounded-xl font-black border ${isAlert ? 'bg-rose-600/30 text-rose-300 border-rose-500/20' : 'bg-indigo-600/30 text-indigo-300 border-indigo-500/20'}`}>{item.truckNo}</span>
-                    <span className={`text-sm font-black ${isAlert ? 'text-rose-400' : 'text-emerald-400'}`}>{item.endTime ? '✅' : '⏳'} {item.rate}%</span>
+                    <span className="flex items-center gap-2">
+                      <span className={`text-xs px-4 py-1.5 rounded-xl font-black border ${isAlert ? 'bg-rose-600/30 text-rose-300 border-rose-500/20' : 'bg-indigo-600/30 text-indigo-300 border-indigo-500/20'}`}>{item.truckNo}</span>
+                      {change && <span className={`text-[9px] px-2 py-1 rounded-lg font-black uppercase ${change === 'new' ? 'bg-emerald-500/20 text-emerald-300' : 'bg-sky-500/20 text-sky-300'}`}>{change === 'new' ? t.badgeNew : t.badgeCompleted}</span>}
+                    </span>
+                    <span className={`text-sm font-black ${isAlert ? 'text-rose-400' : 'text-emerald-400'}`}>{isCompletedTrip(item) ? '✅' : IN_PROGRESS_MARKER} {item.rate}%</span>
                   </div>
                   <div className="text-base font-bold text-slate-100 truncate mb-4">{item.matName}</div>
                   <div className="flex justify-between text-[11px] text-slate-400 font-mono mb-4 bg-slate-900/40 p-3 rounded-xl">
                       <span>{t.arrival}: {item.arrivalTime.split(/\s+/)[1] || item.arrivalTime}</span>
-                      <span>{t.departure}: {item.endTime ? (item.endTime.split(/\s+/)[1] || item.endTime) : '--:--'}</span>
+                      <span>{t.departure}: {isCompletedTrip(item) ? (item.endTime.split(/\s+/)[1] || item.endTime) : '--:--'}</span>
                   </div>
                   <div className="h-3 w-full bg-slate-700 rounded-full overflow-hidden shadow-inner">
-                    <div className={`h-full ${isAlert ? 'bg-rose-500' : 'bg-indigo-500'}`} style={{ width: `${Math.min(100, (item.totalTime/settings.benchmarkTime)*100)}%` }} />
+                    <div className={`h-full ${isAlert ? 'bg-rose-500' : 'bg-indigo-500'}`} style={{ width: `${Math.min(100, (item.totalTime/item.benchmark)*100)}%` }} />
                   </div>
                 </div>
               );
@@ -570,97 +1129,159 @@ export const App: React.FC = () => {
           </div>
         </section>
 
-        <section className="bg-white p-8 rounded-[2rem] border shadow-sm grid grid-cols-1 md:grid-cols-4 gap-8 items-end">
-          <div className="md:col-span-2 space-y-3">
-            <label className="text-xs font-black text-slate-500 uppercase tracking-widest">{t.selectDate}</label>
-            <div className="flex gap-4">
-              <input type="date" value={filters.startDate} onChange={e => setFilters(f => ({...f, startDate: e.target.value}))} className="w-full bg-slate-50 border rounded-2xl px-5 py-3.5 font-bold cursor-pointer" />
-              <input type="date" value={filters.endDate} onChange={e => setFilters(f => ({...f, endDate: e.target.value}))} className="w-full bg-slate-50 border rounded-2xl px-5 py-3.5 font-bold cursor-pointer" />
+        <DayGantt items={todayMonitor.items} dayWindow={monitorWindow} now={monitorNow} warnThreshold={settings.warnThreshold} warnColor={settings.warnColor} t={t} />
+
+        <section className="bg-white p-8 rounded-[2rem] border shadow-sm space-y-8">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-8 items-end">
+            <div className="md:col-span-2 space-y-3">
+              <label className="text-xs font-black text-slate-500 uppercase tracking-widest">{t.selectDate}</label>
+              <div className="flex gap-4">
+                <input type="date" value={filters.startDate} onChange={e => setFilters(f => ({...f, startDate: e.target.value}))} className="w-full bg-slate-50 border rounded-2xl px-5 py-3.5 font-bold cursor-pointer" />
+                <input type="date" value={filters.endDate} onChange={e => setFilters(f => ({...f, endDate: e.target.value}))} className="w-full bg-slate-50 border rounded-2xl px-5 py-3.5 font-bold cursor-pointer" />
+              </div>
             </div>
+            <ComparisonPicker comparison={comparison} baseline={baselineRange} onChange={setComparison} t={t} />
+            <button onClick={fetchCSV} className="bg-indigo-600 text-white rounded-2xl py-4 font-black shadow-lg hover:bg-indigo-700 transition-all flex items-center justify-center gap-3 active:scale-95">
+              <RefreshCcw className="w-6 h-6" /> {t.update}
+            </button>
           </div>
-          <div className="space-y-3">
-            <label className="text-xs font-black text-slate-500 uppercase tracking-widest">Material</label>
-            <input type="text" list="mat-search" placeholder="Select or type..." value={filters.material} onChange={e => setFilters(f => ({...f, material: e.target.value}))} className="w-full bg-slate-50 border rounded-2xl px-5 py-3.5 font-bold" />
-            <datalist id="mat-search">
-              {materialList.map(m => <option key={m} value={m} />)}
-            </datalist>
-          </div>
-          <button onClick={fetchCSV} className="bg-indigo-600 text-white rounded-2xl py-4 font-black shadow-lg hover:bg-indigo-700 transition-all flex items-center justify-center gap-3 active:scale-95">
-            <RefreshCcw className="w-6 h-6" /> {t.update}
-          </button>
+          <FilterBar filters={filters} onChange={setFilters} materials={materialList} t={t} />
         </section>
 
+        <AnomaliesPanel anomalies={anomalies} onSelect={setDrillTarget} t={t} />
+
+        <ScorecardPanel
+          rows={scorecard}
+          hasCarrierRules={settings.carrierRules.length > 0}
+          warnThreshold={settings.warnThreshold}
+          onSelect={(group, key) => setDrillTarget({ kind: group, value: key })}
+          t={t}
+        />
+
+        <InsightsPanel data={filteredData} lang={lang} t={t} modelId={settings.aiModel} calendar={settings.shiftCalendar} user={user} onLogin={handleLogin} onLogout={handleLogout} />
+
         <div className="grid grid-cols-1 gap-12">
           {[
-            { id: 'chart-pareto', title: t.pareto, icon: <LayoutGrid className="text-indigo-600" />, type: settings.chartTypes.pareto, data: paretoData.items, keys: ['tons', 'percentage'], colors: ['#6366f1', '#ef4444'], axisX: 'name', footer: [
-              { label: t.statTop10, value: `${paretoData.top10Total}t` },
-              { label: t.statRangeTotal, value: `${rangeSummary.totalTons}t` },
-              { label: t.statRatio, value: `${rangeSummary.totalTons > 0 ? (paretoData.top10Total/rangeSummary.totalTons*100).toFixed(1) : 0}%`, color: 'text-rose-500' },
+            { id: 'chart-pareto', title: t.pareto, icon: <LayoutGrid className="text-indigo-600" />, type: settings.chartTypes.pareto, data: chartData.pareto, keys: [paretoData.metric, 'percentage'], colors: ['#6366f1', '#ef4444'], axisX: 'name', drill: 'material', drillSkip: chartData.pareto.find(p => p.others !== undefined)?.name, abc: true, extra: renderParetoControls(), footer: [
+              { label: fillTemplate(t.statTopN, { n: settings.paretoTopN }), value: `${paretoData.topTotal}${paretoUnit}`, delta: baseline ? pctDelta(paretoData.topTotal, baseline.pareto.topTotal) : undefined },
+              { label: t.statRangeTotal, value: `${paretoData.total}${paretoUnit}`, delta: baseline ? pctDelta(paretoData.total, baseline.pareto.total) : undefined },
+              { label: t.statRatio, value: `${paretoData.total > 0 ? (paretoData.topTotal/paretoData.total*100).toFixed(1) : 0}%`, color: 'text-rose-500' },
+              { label: t.paretoClasses, value: `${paretoData.classCounts.A} / ${paretoData.classCounts.B} / ${paretoData.classCounts.C}`, formula: t.paretoClassFormula },
               { label: t.statFetchDays, value: rangeSummary.days }
             ]},
-            { id: 'chart-tonnage', title: t.tonnage, icon: <TrendingUp className="text-indigo-600" />, type: settings.chartTypes.tonnage, data: timelineData, keys: ['tons'], colors: ['#8b5cf6'], axisX: 'date', footer: [
-              { label: t.statRangeTotal, value: `${rangeSummary.totalTons}t` },
-              { label: t.statAvgDayWeight, value: `${rangeSummary.avgTonsPerDay}t` },
-              { label: t.statTotalEntryUnits, value: rangeSummary.totalCounts },
-              { label: t.effTotal, value: `${rangeSummary.avgTotalWorkTimePerDay}m`, color: 'text-amber-600' },
-              { label: t.statFetchDays, value: rangeSummary.days }
+            { id: 'chart-tonnage', title: t.tonnage, icon: <TrendingUp className="text-indigo-600" />, type: settings.chartTypes.tonnage, data: forecast ? forecast.timeline : chartData.timeline, keys: ['tons'], colors: ['#8b5cf6'], axisX: 'date', drill: 'day', series: splitByShift['chart-tonnage'] ? shiftSeries('tons') : undefined, forecast: forecastSeries('tons', '#7c3aed'), extra: <>{renderForecastSelect()}{renderSplitToggle('chart-tonnage')}</>, footer: [
+              { label: t.statRangeTotal, value: `${rangeSummary.totalTons}t`, delta: vsBaseline(s => s.totalTons) },
+              { label: t.statAvgDayWeight, value: `${rangeSummary.avgTonsPerDay}t`, delta: vsBaseline(s => s.avgTonsPerDay) },
+              { label: t.statTotalEntryUnits, value: rangeSummary.totalCounts, delta: vsBaseline(s => s.totalCounts) },
+              { label: t.effTotal, value: `${rangeSummary.avgTotalWorkTimePerDay}m`, color: 'text-amber-600', delta: vsBaseline(s => s.avgTotalWorkTimePerDay) },
+              { label: t.statFetchDays, value: rangeSummary.days },
+              ...forecastFooter('tons')
             ]},
-            { id: 'chart-frequency', title: t.frequency, icon: <LayoutGrid className="text-indigo-600" />, type: settings.chartTypes.frequency, data: timelineData, keys: ['counts'], colors: ['#10b981'], axisX: 'date', footer: [
-              { label: t.statRangeTotal, value: `${rangeSummary.totalTons}t` },
-              { label: t.statAvgDayUnits, value: rangeSummary.avgCountsPerDay },
-              { label: t.statTotalEntryUnits, value: rangeSummary.totalCounts },
-              { label: t.effTotal, value: `${rangeSummary.avgTotalWorkTimePerDay}m`, color: 'text-amber-600' },
-              { label: t.statFetchDays, value: rangeSummary.days }
+            { id: 'chart-frequency', title: t.frequency, icon: <LayoutGrid className="text-indigo-600" />, type: settings.chartTypes.frequency, data: forecast ? forecast.timeline : chartData.timeline, keys: ['counts'], colors: ['#10b981'], axisX: 'date', drill: 'day', series: splitByShift['chart-frequency'] ? shiftSeries('counts') : undefined, forecast: forecastSeries('counts', '#059669'), extra: <>{renderForecastSelect()}{renderSplitToggle('chart-frequency')}</>, footer: [
+              { label: t.statRangeTotal, value: `${rangeSummary.totalTons}t`, delta: vsBaseline(s => s.totalTons) },
+              { label: t.statAvgDayUnits, value: rangeSummary.avgCountsPerDay, delta: vsBaseline(s => s.avgCountsPerDay) },
+              { label: t.statTotalEntryUnits, value: rangeSummary.totalCounts, delta: vsBaseline(s => s.totalCounts) },
+              { label: t.effTotal, value: `${rangeSummary.avgTotalWorkTimePerDay}m`, color: 'text-amber-600', delta: vsBaseline(s => s.avgTotalWorkTimePerDay) },
+              { label: t.statFetchDays, value: rangeSummary.days },
+              ...forecastFooter('counts')
             ]},
-            { id: 'chart-efficiency', title: t.efficiency, icon: <Clock className="text-indigo-600" />, type: settings.chartTypes.efficiency, data: timelineData, keys: [effMode === 'avg' ? 'avgTime' : 'time'], colors: ['#f59e0b'], axisX: 'date', benchmark: effMode === 'avg' ? settings.benchmarkTime : undefined, footer: [
-              { label: t.statRangeTotal, value: `${rangeSummary.totalTons}t` },
-              { label: t.statAvgWorkTime, value: `${rangeSummary.avgEff}m`, color: 'text-amber-700' },
-              { label: t.statTotalEntryUnits, value: rangeSummary.totalCounts },
-              { label: t.effTotal, value: `${rangeSummary.avgTotalWorkTimePerDay}m` },
+            { id: 'chart-efficiency', title: t.efficiency, icon: <Clock className="text-indigo-600" />, type: settings.chartTypes.efficiency, data: settings.chartTypes.efficiency === 'boxplot' ? durationStats : chartData.timeline, keys: [effMode === 'avg' ? 'avgTime' : 'time'], colors: ['#f59e0b'], axisX: 'date', drill: settings.chartTypes.efficiency === 'boxplot' ? 'material' : 'day', benchmark: effMode === 'avg' ? expectedAvgTime : utilizationData.targetMinutes, footer: [
+              { label: t.statRangeTotal, value: `${rangeSummary.totalTons}t`, delta: vsBaseline(s => s.totalTons) },
+              { label: t.statAvgWorkTime, value: `${rangeSummary.avgEff}m`, color: 'text-amber-700', delta: vsBaseline(s => s.avgEff), lowerIsBetter: true },
+              { label: t.statTotalEntryUnits, value: rangeSummary.totalCounts, delta: vsBaseline(s => s.totalCounts) },
+              { label: t.effTotal, value: `${rangeSummary.avgTotalWorkTimePerDay}m`, delta: vsBaseline(s => s.avgTotalWorkTimePerDay) },
+              { label: t.statUtilization, value: `${utilizationData.avgUtilization}%`, color: utilizationData.avgUtilization >= 100 ? 'text-emerald-600' : 'text-rose-500', formula: t.utilizationFormula, delta: baseline ? pctDelta(utilizationData.avgUtilization, baseline.utilization.avgUtilization) : undefined },
+              { label: t.statDaysMet, value: `${utilizationData.daysMet} / ${utilizationData.days.length}`, color: utilizationData.daysMet === utilizationData.days.length ? 'text-emerald-600' : 'text-rose-500', delta: baseline ? pctDelta(utilizationData.daysMet, baseline.utilization.daysMet) : undefined },
               { label: t.statFetchDays, value: rangeSummary.days }
-            ], extra: (
-              <select value={effMode} onChange={e => setEffMode(e.target.value as any)} className="text-xs font-bold border rounded-xl p-2 bg-slate-50 outline-none">
-                <option value="avg">{t.effAvg}</option><option value="total">{t.effTotal}</option>
-              </select>
+            ], below: utilizationData.days.length > 0 && (
+              <div className="flex gap-2 overflow-x-auto custom-scrollbar pb-2 mt-6">
+                {utilizationData.days.map(d => (
+                  <div key={d.date} title={`${d.time}m / ${utilizationData.targetMinutes}m`} onClick={() => setDrillTarget({ kind: 'day', value: d.date })} className={`shrink-0 px-3 py-2 rounded-xl border text-center hover:shadow-md transition-shadow ${d.met ? 'bg-emerald-50 border-emerald-200 text-emerald-700' : 'bg-rose-50 border-rose-200 text-rose-600'}`}>
+                    <div className="text-[9px] font-black text-slate-400">{d.date.slice(5)}</div>
+                    <div className="text-xs font-black">{d.met ? '▲' : '▼'} {d.utilization}%</div>
+                  </div>
+                ))}
+              </div>
+            ), extra: (
+              <>
+                {/* The two modes share one y axis, so only the matching reference line is drawn. */}
+                {settings.chartTypes.efficiency !== 'boxplot' && (
+                  <span className="text-[10px] font-black text-rose-400">
+                    {effMode === 'avg' ? fillTemplate(t.effRefBenchmark, { minutes: expectedAvgTime }) : fillTemplate(t.effRefTarget, { minutes: utilizationData.targetMinutes })}
+                  </span>
+                )}
+                <select value={effMode} onChange={e => setEffMode(e.target.value as any)} className="text-xs font-bold border rounded-xl p-2 bg-slate-50 outline-none">
+                  <option value="avg">{t.effAvg}</option><option value="total">{t.effTotal}</option>
+                </select>
+              </>
             )},
-            { id: 'chart-flow', title: t.flow, icon: <Zap className="text-indigo-600" />, type: settings.chartTypes.flow, data: flowData.hrs, keys: ['count'], colors: ['#ec4899'], axisX: 'hour', footer: [
-              { label: t.statAvgWorkTime, value: `${rangeSummary.avgEff}m`, color: 'text-indigo-700' },
+            { id: 'chart-flow', title: t.flow, icon: <Zap className="text-indigo-600" />, type: settings.chartTypes.flow, data: settings.chartTypes.flow === 'heatmap' ? weekdayHourData : chartData.flow, keys: ['count'], colors: ['#ec4899'], axisX: 'hour', drill: 'hour', series: splitByShift['chart-flow'] ? shiftSeries('count') : undefined, extra: settings.chartTypes.flow !== 'heatmap' && renderSplitToggle('chart-flow'), footer: [
+              { label: t.statAvgWorkTime, value: `${rangeSummary.avgEff}m`, color: 'text-indigo-700', delta: vsBaseline(s => s.avgEff), lowerIsBetter: true },
               { label: t.statTimeDist, value: [flowData.amStr, flowData.pmStr] },
-              { label: t.statTotalEntryUnits, value: rangeSummary.totalCounts },
-              { label: t.effTotal, value: `${rangeSummary.avgTotalWorkTimePerDay}m` },
+              { label: t.statTotalEntryUnits, value: rangeSummary.totalCounts, delta: vsBaseline(s => s.totalCounts) },
+              { label: t.effTotal, value: `${rangeSummary.avgTotalWorkTimePerDay}m`, delta: vsBaseline(s => s.avgTotalWorkTimePerDay) },
               { label: t.statFetchDays, value: rangeSummary.days }
-            ]}
+            ]},
+            { id: 'chart-inventory', title: t.inventory, icon: <Warehouse className="text-indigo-600" />, content: (
+              <InventoryChart data={inventoryData.points} settings={settings} t={t} dataVersion={combinedVersion} onPointClick={date => setDrillTarget({ kind: 'day', value: date, material: inventoryData.material })} />
+            ), footer: [
+              { label: t.statLatestMixer, value: `${inventoryData.latestMixer}t`, color: inventoryData.points.length > 0 && inventoryData.latestMixer < settings.stockThresholds.mixer ? 'text-rose-500' : 'text-sky-600' },
+              { label: t.statLatestWarehouse, value: `${inventoryData.latestWarehouse}t`, color: inventoryData.points.length > 0 && inventoryData.latestWarehouse < settings.stockThresholds.warehouse ? 'text-rose-500' : 'text-teal-600' },
+              { label: t.inboundTons, value: `${inventoryData.inboundTons}t` },
+              { label: t.statLowStockDays, value: inventoryData.lowDays, color: inventoryData.lowDays > 0 ? 'text-rose-500' : 'text-emerald-600' },
+              { label: t.statFetchDays, value: inventoryData.points.length }
+            ], extra: stockMaterials.length > 0 && (
+              <select value={inventoryData.material} onChange={e => setInventoryMaterial(e.target.value)} className="text-xs font-bold border rounded-xl p-2 bg-slate-50 outline-none">
+                {stockMaterials.map(m => <option key={m} value={m}>{m}</option>)}
+              </select>
+            )}
           ].map((chart) => (
             <div 
               key={chart.id} 
               id={chart.id}
-              className="bg-white p-10 rounded-[3rem] border shadow-sm flex flex-col hover:shadow-xl transition-all duration-500 cursor-pointer select-none group/card"
+              className="bg-white p-10 rounded-[3rem] border shadow-sm flex flex-col scroll-mt-24 hover:shadow-xl transition-all duration-500 cursor-pointer select-none group/card"
               onDoubleClick={() => copyToClipboard(chart.id)}
             >
               <div className="flex justify-between items-center mb-8">
                 <h3 className="text-xl font-black text-slate-800 flex items-center gap-3">{chart.icon} {chart.title}</h3>
                 <div className="flex items-center gap-4">
                   {chart.extra}
+                  <button
+                    onClick={e => { e.stopPropagation(); copyViewLink(chart.id); }}
+                    onDoubleClick={e => e.stopPropagation()}
+                    title={t.copyChartLink}
+                    className="opacity-0 group-hover/card:opacity-100 transition-opacity bg-slate-100 p-2 rounded-lg hover:bg-indigo-50"
+                  >
+                    <Link className="w-4 h-4 text-slate-400" />
+                  </button>
                   <div className="opacity-0 group-hover/card:opacity-100 transition-opacity bg-slate-100 p-2 rounded-lg" title="Double click to copy">
                     <Copy className="w-4 h-4 text-slate-400" />
                   </div>
                 </div>
               </div>
               <div className="flex-1 w-full" style={{ minHeight: '450px' }}>
-                <DynamicChart 
+                {chart.content || <DynamicChart 
                   type={chart.type} 
                   data={chart.data} 
                   keys={chart.keys} 
                   colors={chart.colors} 
                   axisKeys={{ x: chart.axisX }} 
                   benchmark={chart.benchmark}
+                  series={chart.series}
+                  comparison={chart.id === 'chart-inventory' ? undefined : comparisonSeries}
+                  forecast={chart.type === 'radar' ? undefined : chart.forecast}
+                  highlights={chart.type === 'radar' ? undefined : anomalyHighlights[chart.id]}
+                  abc={chart.abc}
                   settings={settings} 
+                  t={t}
+                  onPointClick={chart.drill ? (label: string, weekday?: number) => { if (label !== chart.drillSkip) setDrillTarget({ kind: chart.drill as DrillTarget['kind'], value: label, weekday }); } : undefined}
                   dataVersion={combinedVersion} 
-                />
+                />}
               </div>
-              <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-5 gap-3 mt-8 pt-8 border-t border-slate-50 bg-slate-50/30 rounded-b-[2rem] px-4 pb-6">
+              {chart.below}
+              <div className={`grid grid-cols-2 sm:grid-cols-4 ${chart.footer.length > 5 ? 'lg:grid-cols-6' : 'lg:grid-cols-5'} gap-3 mt-8 pt-8 border-t border-slate-50 bg-slate-50/30 rounded-b-[2rem] px-4 pb-6`}>
                 {chart.footer.map((stat: any, idx) => (
-                  <StatBox key={idx} label={stat.label} value={stat.value} colorClass={stat.color} formula={stat.formula} />
+                  <StatBox key={idx} label={stat.label} value={stat.value} colorClass={stat.color} formula={stat.formula} delta={stat.delta} lowerIsBetter={stat.lowerIsBetter} />
                 ))}
               </div>
             </div>
@@ -677,6 +1298,7 @@ export const App: React.FC = () => {
             </div>
             <div className="space-y-6 max-h-[60vh] overflow-y-auto pr-2 custom-scrollbar">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="space-y-2 md:col-span-2"><label className="text-xs font-black text-slate-400 uppercase">{t.plantNameLabel}</label><input type="text" value={settings.plantName} placeholder={t.title} onChange={e => setSettings(s => ({...s, plantName: e.target.value}))} className="w-full bg-slate-50 border rounded-xl p-3 font-bold" /></div>
                 <div className="space-y-2"><label className="text-xs font-black text-slate-400 uppercase">自動刷新頻率 (秒)</label><input type="number" value={settings.refreshRate} onChange={e => setSettings(s => ({...s, refreshRate: parseInt(e.target.value)}))} className="w-full bg-slate-50 border rounded-xl p-3 font-bold" /></div>
                 <div className="space-y-2">
                   <div className="flex justify-between items-end">
@@ -691,8 +1313,59 @@ export const App: React.FC = () => {
                 <div className="space-y-2"><label className="text-xs font-black text-slate-400 uppercase">動畫循環間隔 (秒)</label><input type="number" value={settings.animationDuration} onChange={e => setSettings(s => ({...s, animationDuration: parseInt(e.target.value)}))} className="w-full bg-slate-50 border rounded-xl p-3 font-bold" /></div>
                 <div className="space-y-2"><label className="text-xs font-black text-slate-400 uppercase">{t.targetHoursLabel}</label><input type="number" value={settings.targetHours} onChange={e => setSettings(s => ({...s, targetHours: parseFloat(e.target.value)}))} className="w-full bg-slate-50 border rounded-xl p-3 font-bold" /></div>
                 <div className="space-y-2"><label className="text-xs font-black text-slate-400 uppercase">{t.threshold}</label><input type="number" value={settings.warnThreshold} onChange={e => setSettings(s => ({...s, warnThreshold: parseInt(e.target.value)}))} className="w-full bg-slate-50 border rounded-xl p-3 font-bold" /></div>
+                <div className="space-y-2">
+                  <label className="text-xs font-black text-slate-400 uppercase">{t.timeZoneLabel}</label>
+                  <input type="text" list="tz-list" value={settings.timeZone} onChange={e => setSettings(s => ({...s, timeZone: e.target.value}))} className={`w-full bg-slate-50 border rounded-xl p-3 font-bold ${isValidTimeZone(settings.timeZone) ? '' : 'border-rose-400 text-rose-600'}`} />
+                  <datalist id="tz-list">
+                    {Intl.supportedValuesOf('timeZone').map(z => <option key={z} value={z} />)}
+                  </datalist>
+                  <div className={`text-[10px] font-bold mt-1 ${isValidTimeZone(settings.timeZone) ? 'text-indigo-500' : 'text-rose-500'}`}>
+                    {isValidTimeZone(settings.timeZone) ? getTimeZoneLabel(settings.timeZone) : t.invalidTimeZone}
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-xs font-black text-slate-400 uppercase">{t.dateFormatLabel}</label>
+                  <select value={settings.dateFormat} onChange={e => setSettings(s => ({...s, dateFormat: e.target.value as DateFormat}))} className="w-full bg-slate-50 border rounded-xl p-3 font-bold outline-none">
+                    <option value="auto">{t.dateFormatAuto}</option>
+                    {DATE_FORMATS.map(f => <option key={f} value={f}>{t[DATE_FORMAT_LABEL_KEYS[f]]}</option>)}
+                  </select>
+                  {settings.dateFormat === 'auto' && dateFormats && (
+                    <div className="text-[10px] text-indigo-500 font-bold mt-1">{fillTemplate(t.dateFormatDetected, { format: t[DATE_FORMAT_LABEL_KEYS[dateFormats.arrivalTime]] })}</div>
+                  )}
+                </div>
+                <div className="space-y-2"><label className="text-xs font-black text-slate-400 uppercase">{t.lowStockMixer}</label><input type="number" value={settings.stockThresholds.mixer} onChange={e => setSettings(s => ({...s, stockThresholds: {...s.stockThresholds, mixer: parseFloat(e.target.value)}}))} className="w-full bg-slate-50 border rounded-xl p-3 font-bold" /></div>
+                <div className="space-y-2"><label className="text-xs font-black text-slate-400 uppercase">{t.lowStockWarehouse}</label><input type="number" value={settings.stockThresholds.warehouse} onChange={e => setSettings(s => ({...s, stockThresholds: {...s.stockThresholds, warehouse: parseFloat(e.target.value)}}))} className="w-full bg-slate-50 border rounded-xl p-3 font-bold" /></div>
+                <div className="space-y-2">
+                  <label className="text-xs font-black text-slate-400 uppercase">{t.aiModelLabel}</label>
+                  <select value={settings.aiModel} onChange={e => setSettings(s => ({...s, aiModel: e.target.value as InsightModelId}))} className="w-full bg-slate-50 border rounded-xl p-3 font-bold outline-none">
+                    <option value="gemini">{t.aiModelGemini}</option>
+                    <option value="local">{t.aiModelLocal}</option>
+                  </select>
+                </div>
               </div>
 
+              <MaterialBenchmarks
+                benchmarks={settings.materialBenchmarks}
+                medians={materialMedians}
+                materials={materialList}
+                fallback={settings.benchmarkTime}
+                onChange={b => setSettings(s => ({...s, materialBenchmarks: b}))}
+                t={t}
+              />
+
+              <AlertSettings rules={settings.alertRules} onChange={rules => setSettings(s => ({...s, alertRules: rules}))} t={t} />
+
+              <CarrierSettings rules={settings.carrierRules} onChange={rules => setSettings(s => ({...s, carrierRules: rules}))} t={t} />
+
+              <ShiftSettings calendar={settings.shiftCalendar} onChange={cal => setSettings(s => ({...s, shiftCalendar: cal}))} t={t} />
+
+              <DataSourceSettings config={draftSource} onChange={setDraftSource} t={t} />
+              {columnReport && (
+                <button onClick={() => setIsMappingOpen(true)} className="w-full border rounded-xl py-3 text-xs font-black text-indigo-600 hover:bg-indigo-50 transition-all flex items-center justify-center gap-2">
+                  <Columns3 className="w-4 h-4" /> {t.mappingOpen}
+                </button>
+              )}
+
               <div className="pt-4 border-t space-y-4">
                 <h4 className="text-xs font-black text-slate-400 uppercase tracking-widest">圖表預設類型設定</h4>
                 <div className="grid grid-cols-2 gap-4">
@@ -704,12 +1377,7 @@ export const App: React.FC = () => {
                         onChange={e => setSettings(s => ({...s, chartTypes: {...s.chartTypes, [key]: e.target.value as any}}))}
                         className="w-full bg-slate-50 border rounded-xl p-2 text-xs font-bold outline-none"
                       >
-                        <option value="bar">Bar (長條)</option>
-                        <option value="line">Line (折線)</option>
-                        <option value="area">Area (面積)</option>
-                        <option value="stepAfter">Step (階梯)</option>
-                        <option value="radar">Radar (雷達)</option>
-                        <option value="composed">Composed (複合)</option>
+                        {CHART_TYPE_CHOICES[key].map(type => <option key={type} value={type}>{CHART_TYPE_LABELS[type]}</option>)}
                       </select>
                     </div>
                   ))}
@@ -728,6 +1396,77 @@ export const App: React.FC = () => {
         </div>
       )}
 
+      {isDiagnosticsOpen && importReport && (
+        <DiagnosticsDrawer report={importReport} onClose={() => setIsDiagnosticsOpen(false)} t={t} />
+      )}
+
+      {isReportOpen && (
+        <ReportDialog
+          range={{ startDate: filters.startDate, endDate: filters.endDate }}
+          defaultDay={monitorDate}
+          lang={lang}
+          canIncludeInsights={!!user}
+          isGenerating={!!reportJob}
+          failed={reportFailed}
+          onGenerate={generateReport}
+          onClose={() => setIsReportOpen(false)}
+          t={t}
+        />
+      )}
+
+      {reportJob && (
+        <div className="fixed top-0 pointer-events-none" style={{ left: '-10000px' }} aria-hidden>
+          <ReportSheet
+            plantName={settings.plantName || I18N[reportJob.options.lang].title}
+            periodLabel={reportJob.periodLabel}
+            generatedAt={reportJob.generatedAt}
+            summary={reportJob.summary}
+            alerts={reportJob.alerts}
+            insights={reportJob.insights}
+            warnThreshold={settings.warnThreshold}
+            t={I18N[reportJob.options.lang]}
+          />
+          <ReportCharts rows={reportJob.rows} settings={settings} effMode={effMode} t={I18N[reportJob.options.lang]} onReady={() => reportReady.current?.()} />
+        </div>
+      )}
+
+      {isExplorerOpen && (
+        <DataExplorer
+          data={filteredData}
+          timeline={timelineData}
+          pareto={chartData.pareto}
+          flow={flowData.hrs}
+          calendar={settings.shiftCalendar}
+          fileSuffix={`${filters.startDate}_${filters.endDate}`}
+          onClose={() => setIsExplorerOpen(false)}
+          t={t}
+        />
+      )}
+
+      {drillTarget && (
+        <DrillDownPanel
+          title={fillTemplate(t.drillTitle, { point: [drillTarget.weekday !== undefined ? t.weekdayNames.split(',')[drillTarget.weekday] : undefined, drillTarget.kind === 'carrier' && drillTarget.value === UNASSIGNED_CARRIER ? t.carrierUnassigned : drillTarget.value, drillTarget.material].filter(Boolean).join(' · ') })}
+          rows={drillRows}
+          benchmarkTime={settings.benchmarkTime}
+          materialBenchmarks={settings.materialBenchmarks}
+          warnThreshold={settings.warnThreshold}
+          calendar={settings.shiftCalendar}
+          onJumpToDay={jumpToMonitorDay}
+          onClose={() => setDrillTarget(null)}
+          t={t}
+        />
+      )}
+
+      {isMappingOpen && columnReport && (
+        <ColumnMappingWizard
+          resolution={columnReport}
+          mapping={columnMappings[getSourceKey(sourceConfig)] || {}}
+          onSave={handleSaveMapping}
+          onClose={() => setIsMappingOpen(false)}
+          t={t}
+        />
+      )}
+
       {isLoading && (
         <div className="fixed inset-0 z-[110] flex items-center justify-center bg-white/90 backdrop-blur-sm">
           <div className="flex flex-col items-center gap-8">
@@ -0,0 +1,35 @@
+import React, { useEffect, useState } from 'react';
+import { formatCarrierRules, parseCarrierRules } from './carriers.ts';
+import { CarrierRule, TranslationSet } from './types.ts';
+import { fillTemplate } from './utils.ts';
+
+interface CarrierSettingsProps {
+  rules: CarrierRule[];
+  onChange: (rules: CarrierRule[]) => void;
+  t: TranslationSet;
+}
+
+export const CarrierSettings = ({ rules, onChange, t }: CarrierSettingsProps) => {
+  // Edited as free text and parsed on blur, so half-typed lines are not dropped.
+  const [text, setText] = useState(() => formatCarrierRules(rules));
+  useEffect(() => { setText(formatCarrierRules(rules)); }, [rules]);
+
+  return (
+    <div className="pt-4 border-t space-y-4">
+      <div className="flex justify-between items-end">
+        <h4 className="text-xs font-black text-slate-400 uppercase tracking-widest">{t.carrierRulesLabel}</h4>
+        <span className="text-[10px] font-black text-slate-400">{fillTemplate(t.carrierRuleCount, { count: rules.length })}</span>
+      </div>
+      <div className="text-[10px] text-slate-400 font-bold">{t.carrierRulesHint}</div>
+      <textarea
+        value={text}
+        rows={5}
+        spellCheck={false}
+        placeholder={'KA01* = Sharma Transport\nMH12AB1234 = Patel Logistics'}
+        onChange={e => setText(e.target.value)}
+        onBlur={() => onChange(parseCarrierRules(text))}
+        className="w-full bg-slate-50 border rounded-xl p-3 text-xs font-mono outline-none resize-y"
+      />
+    </div>
+  );
+};
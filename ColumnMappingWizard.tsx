@@ -0,0 +1,79 @@
+import React, { useState, useMemo } from 'react';
+import { Columns3, AlertTriangle, Save, RotateCcw } from 'lucide-react';
+import { MAPPABLE_FIELDS, REQUIRED_FIELDS, FIELD_LABEL_KEYS, ColumnResolution, resolveColumns } from './columnMapping.ts';
+import { ColumnMapping, MappableField, TranslationSet } from './types.ts';
+import { fillTemplate } from './utils.ts';
+
+interface ColumnMappingWizardProps {
+  resolution: ColumnResolution;
+  mapping: ColumnMapping;
+  onSave: (mapping: ColumnMapping) => void;
+  onClose: () => void;
+  t: TranslationSet;
+}
+
+export const ColumnMappingWizard = ({ resolution, mapping, onSave, onClose, t }: ColumnMappingWizardProps) => {
+  const [draft, setDraft] = useState<ColumnMapping>(mapping);
+
+  // Re-resolve against the loaded headers so the preview reflects unsaved choices.
+  const preview = useMemo(() => resolveColumns([resolution.headers, resolution.sample], draft), [resolution, draft]);
+
+  const setField = (field: MappableField, header: string) => setDraft(d => ({ ...d, [field]: header }));
+
+  return (
+    <div className="fixed inset-0 z-[105] flex items-center justify-center p-6 bg-slate-900/60 backdrop-blur-sm pointer-events-auto">
+      <div className="bg-white w-full max-w-2xl rounded-3xl p-10 space-y-8 shadow-2xl relative">
+        <div className="flex justify-between items-center border-b pb-4">
+          <h3 className="text-xl font-black flex items-center gap-3"><Columns3 className="text-indigo-600" /> {t.columnMappingTitle}</h3>
+          <button onClick={onClose} className="text-3xl hover:text-rose-500 transition-colors">&times;</button>
+        </div>
+
+        {preview.missing.length > 0 && (
+          <div className="flex items-start gap-3 p-4 rounded-xl bg-rose-50 border border-rose-200 text-rose-700 text-xs font-black">
+            <AlertTriangle className="w-5 h-5 shrink-0" />
+            {fillTemplate(t.mappingMissing, { fields: preview.missing.map(f => t[FIELD_LABEL_KEYS[f]]).join(', ') })}
+          </div>
+        )}
+
+        <div className="space-y-3 max-h-[55vh] overflow-y-auto pr-2 custom-scrollbar">
+          {MAPPABLE_FIELDS.map(field => {
+            const colIdx = preview.idx[field];
+            const isManual = preview.manual.includes(field);
+            const isMissing = preview.missing.includes(field);
+            return (
+              <div key={field} className={`grid grid-cols-1 md:grid-cols-3 gap-3 items-center p-4 rounded-xl border ${isMissing ? 'border-rose-300 bg-rose-50/50' : 'border-slate-100 bg-slate-50/80'}`}>
+                <div className="space-y-1">
+                  <div className="text-sm font-black text-slate-700">{t[FIELD_LABEL_KEYS[field]]}</div>
+                  <div className="flex gap-2 text-[9px] font-black uppercase">
+                    {REQUIRED_FIELDS.includes(field) && <span className="text-rose-500">{t.mappingRequired}</span>}
+                    <span className={isManual ? 'text-amber-600' : 'text-indigo-500'}>{isManual ? t.mappingManual : t.mappingAuto}</span>
+                  </div>
+                </div>
+                <select
+                  value={colIdx >= 0 ? resolution.headers[colIdx] : ''}
+                  onChange={e => setField(field, e.target.value)}
+                  className="w-full bg-white border rounded-xl p-2 text-xs font-bold outline-none"
+                >
+                  <option value="">{t.mappingUnmapped}</option>
+                  {resolution.headers.map((h, i) => <option key={i} value={h}>{h || `#${i + 1}`}</option>)}
+                </select>
+                <div className="text-[11px] font-mono text-slate-500 truncate">
+                  <span className="font-black text-slate-400 mr-2">{t.mappingSample}:</span>{colIdx >= 0 ? (resolution.sample[colIdx] || '--') : '--'}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex gap-4">
+          <button onClick={() => setDraft({})} className="flex-1 border py-4 rounded-xl font-black text-slate-600 hover:bg-slate-50 transition-all flex items-center justify-center gap-3">
+            <RotateCcw className="w-5 h-5" /> {t.mappingReset}
+          </button>
+          <button onClick={() => onSave(draft)} className="flex-1 bg-indigo-600 text-white py-4 rounded-xl font-black shadow-lg hover:bg-indigo-700 active:scale-95 transition-all flex items-center justify-center gap-3">
+            <Save className="w-5 h-5" /> {t.save}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,38 @@
+import React from 'react';
+import { GitCompareArrows } from 'lucide-react';
+import { DateRange } from './comparison.ts';
+import { ComparisonMode, ComparisonState, TranslationSet } from './types.ts';
+
+interface ComparisonPickerProps {
+  comparison: ComparisonState;
+  baseline: DateRange | null;
+  onChange: (comparison: ComparisonState) => void;
+  t: TranslationSet;
+}
+
+export const ComparisonPicker = ({ comparison, baseline, onChange, t }: ComparisonPickerProps) => {
+  const modeLabels: Record<ComparisonMode, string> = {
+    off: t.compareOff,
+    previous: t.comparePrevious,
+    lastMonth: t.compareLastMonth,
+    custom: t.compareCustom
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="text-xs font-black text-slate-500 uppercase tracking-widest flex items-center gap-2"><GitCompareArrows className="w-4 h-4" /> {t.compareLabel}</label>
+      <select value={comparison.mode} onChange={e => onChange({ ...comparison, mode: e.target.value as ComparisonMode })} className="w-full bg-slate-50 border rounded-2xl px-5 py-3.5 font-bold outline-none cursor-pointer">
+        {(Object.keys(modeLabels) as ComparisonMode[]).map(m => <option key={m} value={m}>{modeLabels[m]}</option>)}
+      </select>
+      {comparison.mode === 'custom' && (
+        <div className="flex gap-2">
+          <input type="date" value={comparison.startDate} onChange={e => onChange({ ...comparison, startDate: e.target.value })} className="w-full bg-slate-50 border rounded-xl px-3 py-2 text-xs font-bold cursor-pointer" />
+          <input type="date" value={comparison.endDate} onChange={e => onChange({ ...comparison, endDate: e.target.value })} className="w-full bg-slate-50 border rounded-xl px-3 py-2 text-xs font-bold cursor-pointer" />
+        </div>
+      )}
+      {baseline && (
+        <div className="text-[10px] font-black text-slate-400 font-mono">vs {baseline.startDate} ~ {baseline.endDate}</div>
+      )}
+    </div>
+  );
+};
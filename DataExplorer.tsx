@@ -0,0 +1,184 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, ChevronLeft, ChevronRight, Download, Sheet } from 'lucide-react';
+import { DataTable, downloadCSV, downloadXLSX, toTableRows } from './exportTable.ts';
+import { isCompletedTrip } from './filters.ts';
+import { FlowData, ParetoItem, ShiftCalendar, TimelinePoint, TranslationSet, TruckData } from './types.ts';
+
+interface DataExplorerProps {
+  data: TruckData[];
+  timeline: TimelinePoint[];
+  pareto: ParetoItem[];
+  flow: FlowData['hrs'];
+  calendar: ShiftCalendar;
+  fileSuffix: string;
+  onClose: () => void;
+  t: TranslationSet;
+}
+
+const PAGE_SIZE = 50;
+
+/**
+ * Explorer tables with headers in the active language. Per-shift columns
+ * follow the calendar, labelled with the shift names.
+ */
+export function buildExplorerTables({ data, timeline, pareto, flow, calendar, t }: Omit<DataExplorerProps, 'fileSuffix' | 'onClose'>): DataTable[] {
+  const shiftCols = (prefix: string, label: string) => calendar.shifts.length > 1
+    ? calendar.shifts.map((sh, i) => ({ key: `${prefix}_s${i}`, label: `${label} (${sh.name})`, numeric: true }))
+    : [];
+
+  return [
+    {
+      id: 'trips',
+      title: t.explorerTrips,
+      columns: [
+        { key: 'truckNo', label: t.fieldTruckNo },
+        { key: 'matName', label: t.fieldMaterial },
+        { key: 'arrivalTime', label: t.arrival },
+        { key: 'endTime', label: t.departure },
+        { key: 'totalTime', label: t.fieldTotalTime, numeric: true },
+        { key: 'weight', label: t.fieldWeight, numeric: true },
+        { key: 'mxStock', label: t.fieldMxStock, numeric: true },
+        { key: 'whStock', label: t.fieldWhStock, numeric: true },
+        { key: 'status', label: t.filterStatus }
+      ],
+      rows: toTableRows(data.map(r => ({ ...r, status: isCompletedTrip(r) ? t.statusCompleted : t.statusInProgress })))
+    },
+    {
+      id: 'timeline',
+      title: t.explorerTimeline,
+      columns: [
+        { key: 'date', label: t.colDate },
+        { key: 'tons', label: t.colTons, numeric: true },
+        ...shiftCols('tons', t.colTons),
+        { key: 'counts', label: t.colCounts, numeric: true },
+        ...shiftCols('counts', t.colCounts),
+        { key: 'time', label: t.colWorkTime, numeric: true },
+        { key: 'avgTime', label: t.colAvgTime, numeric: true }
+      ],
+      rows: toTableRows(timeline)
+    },
+    {
+      id: 'pareto',
+      title: t.explorerPareto,
+      columns: [
+        { key: 'name', label: t.fieldMaterial },
+        { key: 'tons', label: t.colTons, numeric: true },
+        { key: 'counts', label: t.colCounts, numeric: true },
+        { key: 'time', label: t.colWorkTime, numeric: true },
+        { key: 'share', label: t.colShare, numeric: true },
+        { key: 'percentage', label: t.colCumulative, numeric: true },
+        { key: 'abc', label: t.colClass }
+      ],
+      rows: toTableRows(pareto)
+    },
+    {
+      id: 'flow',
+      title: t.explorerFlow,
+      columns: [
+        { key: 'hour', label: t.colHour },
+        { key: 'count', label: t.colCounts, numeric: true },
+        ...shiftCols('count', t.colCounts)
+      ],
+      rows: toTableRows(flow)
+    }
+  ];
+}
+
+export const DataExplorer = ({ fileSuffix, onClose, t, ...sources }: DataExplorerProps) => {
+  const tables = useMemo(() => buildExplorerTables({ ...sources, t }), [sources.data, sources.timeline, sources.pareto, sources.flow, sources.calendar, t]);
+  const [tableId, setTableId] = useState(tables[0].id);
+  const [sortKey, setSortKey] = useState<string | null>(null);
+  const [sortAsc, setSortAsc] = useState(true);
+  const [page, setPage] = useState(0);
+
+  const table = tables.find(tb => tb.id === tableId) || tables[0];
+
+  useEffect(() => { setSortKey(null); setPage(0); }, [tableId]);
+
+  // Exports follow the on-screen order, so a sorted view downloads sorted.
+  const sorted = useMemo<DataTable>(() => {
+    if (!sortKey) return table;
+    const numeric = table.columns.find(c => c.key === sortKey)?.numeric;
+    const rows = [...table.rows].sort((a, b) => {
+      const cmp = numeric ? (Number(a[sortKey]) || 0) - (Number(b[sortKey]) || 0) : String(a[sortKey] ?? '').localeCompare(String(b[sortKey] ?? ''));
+      return sortAsc ? cmp : -cmp;
+    });
+    return { ...table, rows };
+  }, [table, sortKey, sortAsc]);
+
+  const pageCount = Math.max(1, Math.ceil(sorted.rows.length / PAGE_SIZE));
+  const safePage = Math.min(page, pageCount - 1);
+  const pageRows = sorted.rows.slice(safePage * PAGE_SIZE, (safePage + 1) * PAGE_SIZE);
+  const fileName = `${table.id}_${fileSuffix}`;
+
+  const toggleSort = (key: string) => {
+    if (key === sortKey) setSortAsc(a => !a);
+    else { setSortKey(key); setSortAsc(true); }
+    setPage(0);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 bg-slate-900/60 backdrop-blur-sm pointer-events-auto" onClick={onClose}>
+      <div className="bg-white w-full max-w-6xl h-[85vh] rounded-3xl p-8 space-y-6 shadow-2xl flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center border-b pb-4">
+          <h3 className="text-xl font-black flex items-center gap-3"><Sheet className="text-indigo-600" /> {t.explorerTitle}</h3>
+          <button onClick={onClose} className="text-3xl hover:text-rose-500 transition-colors">&times;</button>
+        </div>
+
+        <div className="flex flex-wrap justify-between items-center gap-3">
+          <div className="flex gap-2">
+            {tables.map(tb => (
+              <button key={tb.id} onClick={() => setTableId(tb.id)} className={`px-4 py-2 rounded-xl text-xs font-black border transition-all ${tb.id === table.id ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-slate-50 text-slate-500 hover:bg-slate-100'}`}>
+                {tb.title} ({tb.rows.length})
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <button onClick={() => downloadCSV(sorted, fileName)} disabled={sorted.rows.length === 0} className="px-4 py-2 rounded-xl text-xs font-black border bg-slate-50 text-slate-600 hover:bg-slate-100 disabled:opacity-40 flex items-center gap-2">
+              <Download className="w-4 h-4" /> CSV
+            </button>
+            <button onClick={() => downloadXLSX(sorted, fileName)} disabled={sorted.rows.length === 0} className="px-4 py-2 rounded-xl text-xs font-black border bg-emerald-600 text-white border-emerald-600 hover:bg-emerald-700 disabled:opacity-40 flex items-center gap-2">
+              <Download className="w-4 h-4" /> XLSX
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-auto custom-scrollbar pr-2">
+          {pageRows.length === 0 ? (
+            <div className="py-10 text-center text-slate-300 font-bold italic">{t.explorerEmpty}</div>
+          ) : (
+            <table className="w-full text-xs">
+              <thead className="sticky top-0 bg-white">
+                <tr className="text-left text-[10px] uppercase tracking-wider text-slate-400 font-black border-b">
+                  {table.columns.map(c => (
+                    <th key={c.key} className={`py-2 pr-4 whitespace-nowrap ${c.numeric ? 'text-right' : ''}`}>
+                      <button onClick={() => toggleSort(c.key)} className={`inline-flex items-center gap-1 uppercase tracking-wider hover:text-indigo-600 ${sortKey === c.key ? 'text-indigo-600' : ''}`}>
+                        {c.label}
+                        {sortKey === c.key && (sortAsc ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />)}
+                      </button>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {pageRows.map((r, i) => (
+                  <tr key={i} className="border-b border-slate-50 hover:bg-slate-50/80">
+                    {table.columns.map(c => (
+                      <td key={c.key} className={`py-2 pr-4 whitespace-nowrap ${c.numeric ? 'text-right font-mono text-slate-700' : 'font-bold text-slate-700'}`}>{r[c.key] ?? ''}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="flex justify-end items-center gap-3 text-xs font-black text-slate-500">
+          <button onClick={() => setPage(Math.max(0, safePage - 1))} disabled={safePage === 0} className="p-2 rounded-lg border bg-slate-50 hover:bg-slate-100 disabled:opacity-30"><ChevronLeft className="w-4 h-4" /></button>
+          <span className="tabular-nums">{safePage + 1} / {pageCount}</span>
+          <button onClick={() => setPage(Math.min(pageCount - 1, safePage + 1))} disabled={safePage >= pageCount - 1} className="p-2 rounded-lg border bg-slate-50 hover:bg-slate-100 disabled:opacity-30"><ChevronRight className="w-4 h-4" /></button>
+        </div>
+      </div>
+    </div>
+  );
+};
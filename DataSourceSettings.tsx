@@ -0,0 +1,74 @@
+import React, { useState, useRef } from 'react';
+import { Upload, FileText } from 'lucide-react';
+import { CSV_URL } from './constants.ts';
+import { DataSourceConfig, DataSourceKind, TranslationSet } from './types.ts';
+
+interface DataSourceSettingsProps {
+  config: DataSourceConfig;
+  onChange: (config: DataSourceConfig) => void;
+  t: TranslationSet;
+}
+
+export const DataSourceSettings = ({ config, onChange, t }: DataSourceSettingsProps) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const readFile = async (file?: File) => {
+    if (!file) return;
+    const text = await file.text();
+    const format = file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+    onChange({ ...config, kind: 'file', fileName: file.name, fileContent: text, format, uploadedAt: Date.now() });
+  };
+
+  const changeKind = (kind: DataSourceKind) => {
+    // The sheet source keeps pointing at the published sheet unless the user edits it.
+    const url = kind === 'sheet' ? CSV_URL : (kind === 'url' && config.kind !== 'url' ? '' : config.url);
+    onChange({ ...config, kind, url, format: 'auto' });
+  };
+
+  return (
+    <div className="pt-4 border-t space-y-4">
+      <h4 className="text-xs font-black text-slate-400 uppercase tracking-widest">{t.dataSourceLabel}</h4>
+      <select value={config.kind} onChange={e => changeKind(e.target.value as DataSourceKind)} className="w-full bg-slate-50 border rounded-xl p-3 font-bold outline-none">
+        <option value="sheet">{t.sourceSheet}</option>
+        <option value="url">{t.sourceUrl}</option>
+        <option value="file">{t.sourceFile}</option>
+        <option value="fixture">{t.sourceFixture}</option>
+      </select>
+
+      {(config.kind === 'sheet' || config.kind === 'url') && (
+        <div className="space-y-2">
+          <label className="text-[10px] font-black text-slate-500 uppercase">{t.sourceUrlLabel}</label>
+          <input type="url" value={config.url || ''} onChange={e => onChange({ ...config, url: e.target.value })} placeholder="https://" className="w-full bg-slate-50 border rounded-xl p-3 text-xs font-bold outline-none" />
+        </div>
+      )}
+
+      {config.kind === 'url' && (
+        <div className="space-y-2">
+          <label className="text-[10px] font-black text-slate-500 uppercase">{t.sourceFormat}</label>
+          <select value={config.format || 'auto'} onChange={e => onChange({ ...config, format: e.target.value as DataSourceConfig['format'] })} className="w-full bg-slate-50 border rounded-xl p-2 text-xs font-bold outline-none">
+            <option value="auto">{t.formatAuto}</option>
+            <option value="csv">CSV</option>
+            <option value="json">JSON</option>
+          </select>
+        </div>
+      )}
+
+      {config.kind === 'file' && (
+        <div
+          onClick={() => fileInputRef.current?.click()}
+          onDragOver={e => { e.preventDefault(); setIsDragging(true); }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={e => { e.preventDefault(); setIsDragging(false); readFile(e.dataTransfer.files[0]); }}
+          className={`flex flex-col items-center gap-3 p-6 rounded-xl border-2 border-dashed cursor-pointer transition-colors ${isDragging ? 'border-indigo-500 bg-indigo-50' : 'border-slate-200 bg-slate-50 hover:border-indigo-300'}`}
+        >
+          {config.fileName ? <FileText className="w-8 h-8 text-indigo-500" /> : <Upload className="w-8 h-8 text-slate-400" />}
+          <span className="text-xs font-bold text-slate-500 text-center">{config.fileName || t.dropFileHint}</span>
+          <input ref={fileInputRef} type="file" accept=".csv,.json,text/csv,application/json" className="hidden" onChange={e => readFile(e.target.files?.[0])} />
+        </div>
+      )}
+
+      {config.kind === 'fixture' && <p className="text-[10px] text-indigo-500 font-bold">{t.fixtureHint}</p>}
+    </div>
+  );
+};
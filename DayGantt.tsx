@@ -0,0 +1,107 @@
+import React, { useMemo } from 'react';
+import { AreaChart, Area, XAxis, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { ChartGantt } from 'lucide-react';
+import { buildOccupancy, MIN_IDLE_GAP } from './occupancy.ts';
+import { formatClock } from './shifts.ts';
+import { TranslationSet, TruckData } from './types.ts';
+import { fillTemplate } from './utils.ts';
+
+type GanttTruck = TruckData & { rate: number };
+
+interface DayGanttProps {
+  items: GanttTruck[];
+  dayWindow: { start: Date; end: Date } | null;
+  now: Date;
+  warnThreshold: number;
+  warnColor: string;
+  t: TranslationSet;
+}
+
+const LANE_HEIGHT = 28;
+
+export const DayGantt = ({ items, dayWindow, now, warnThreshold, warnColor, t }: DayGanttProps) => {
+  const occupancy = useMemo(() => (dayWindow ? buildOccupancy(items, dayWindow, now) : null), [items, dayWindow, now]);
+  if (!dayWindow || !occupancy) return null;
+
+  const { bars, lanes, length, curve, stats } = occupancy;
+  const startClock = dayWindow.start.getHours() * 60 + dayWindow.start.getMinutes();
+  const clock = (minute: number) => formatClock(startClock + minute);
+  const pct = (minute: number) => `${(minute / length) * 100}%`;
+  const nowMinute = Math.round((now.getTime() - dayWindow.start.getTime()) / 60000);
+  const showNow = nowMinute > 0 && nowMinute < length;
+  const hours = Array.from({ length: Math.floor(length / 60) + 1 }, (_, i) => i * 60);
+
+  const stat = (value: React.ReactNode, label: string) => (
+    <div className="text-center"><div className="text-2xl font-black text-indigo-300">{value}</div><div className="text-[10px] text-slate-500 uppercase font-black tracking-widest">{label}</div></div>
+  );
+
+  return (
+    <section className="bg-slate-900 rounded-[2.5rem] p-10 text-white shadow-2xl space-y-6">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-6">
+        <h3 className="text-xl font-black flex items-center gap-3"><ChartGantt className="text-indigo-400" /> {t.ganttTitle}</h3>
+        <div className="flex gap-10 items-center bg-slate-800/40 px-8 py-4 rounded-3xl border border-slate-700/50">
+          {stat(stats.peak > 0 ? `${stats.peak} @ ${clock(stats.peakAt)}` : '-', t.ganttPeak)}
+          {stat(stats.average, t.ganttAverage)}
+          {stat(lanes, t.ganttBays)}
+          {stat(stats.idleGaps.length > 0 ? `${stats.idleGaps.length} / ${stats.idleMinutes}m` : '0', fillTemplate(t.ganttIdle, { minutes: MIN_IDLE_GAP }))}
+        </div>
+      </div>
+
+      {bars.length === 0 ? (
+        <div className="py-10 text-center text-slate-500 font-black italic border-2 border-dashed border-slate-700 rounded-3xl">{t.ganttEmpty}</div>
+      ) : (
+        <>
+          <div className="h-[120px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={curve} margin={{ top: 10, right: 0, bottom: 0, left: 0 }}>
+                <XAxis dataKey="minute" type="number" domain={[0, length]} hide />
+                <Tooltip
+                  labelFormatter={m => clock(Number(m))}
+                  formatter={(v: number) => [v, t.ganttConcurrency]}
+                  contentStyle={{ background: '#0f172a', border: '1px solid #334155', borderRadius: 12, fontWeight: 700 }}
+                />
+                <Area type="stepAfter" dataKey="count" stroke="#818cf8" fill="#6366f1" fillOpacity={0.35} strokeWidth={2} isAnimationActive={false} />
+                {stats.peak > 0 && <ReferenceLine x={stats.peakAt} stroke="#fbbf24" strokeDasharray="4 4" />}
+                {showNow && <ReferenceLine x={nowMinute} stroke="#f43f5e" />}
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="max-h-[420px] overflow-y-auto custom-scrollbar pr-2">
+            <div className="relative" style={{ height: lanes * LANE_HEIGHT + 24 }}>
+              {hours.map(h => (
+                <div key={h} className="absolute top-0 bottom-0 border-l border-slate-800" style={{ left: pct(h) }}>
+                  {h % 120 === 0 && h < length && <span className="absolute bottom-0 left-1 text-[9px] font-mono text-slate-500">{clock(h)}</span>}
+                </div>
+              ))}
+              {stats.idleGaps.map(g => (
+                <div key={g.start} title={`${clock(g.start)}-${clock(g.end)}`} className="absolute top-0 bottom-6 bg-rose-500/10 border-x border-rose-500/20" style={{ left: pct(g.start), width: pct(g.end - g.start) }} />
+              ))}
+              {bars.map(b => {
+                const isAlert = b.truck.rate < warnThreshold;
+                return (
+                  <div
+                    key={`${b.truck.truckNo}|${b.truck.arrivalTime}`}
+                    title={`${b.truck.truckNo} · ${b.truck.matName}\n${clock(b.start)}-${b.inProgress ? '…' : clock(b.end)} · ${b.truck.rate}%`}
+                    className={`absolute rounded-md text-[10px] font-black px-1.5 truncate leading-[22px] ${b.inProgress ? 'animate-pulse' : ''}`}
+                    style={{
+                      top: b.lane * LANE_HEIGHT,
+                      height: LANE_HEIGHT - 6,
+                      left: pct(b.start),
+                      width: pct(b.end - b.start),
+                      backgroundColor: isAlert ? warnColor : '#10b981',
+                      opacity: b.inProgress ? 0.7 : 1
+                    }}
+                  >
+                    {b.truck.truckNo}
+                  </div>
+                );
+              })}
+              {showNow && <div className="absolute top-0 bottom-6 w-0.5 bg-rose-500" style={{ left: pct(nowMinute) }} />}
+            </div>
+          </div>
+        </>
+      )}
+    </section>
+  );
+};
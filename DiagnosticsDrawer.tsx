@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Stethoscope } from 'lucide-react';
+import { ImportReport, RowStatus, ISSUE_LABEL_KEYS } from './validation.ts';
+import { TranslationSet } from './types.ts';
+
+interface DiagnosticsDrawerProps {
+  report: ImportReport;
+  onClose: () => void;
+  t: TranslationSet;
+}
+
+export const DiagnosticsDrawer = ({ report, onClose, t }: DiagnosticsDrawerProps) => {
+  const [tab, setTab] = useState<Exclude<RowStatus, 'ok'>>(report.errors > 0 || report.warnings === 0 ? 'error' : 'warning');
+  const rows = report.rows.filter(r => r.status === tab);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex justify-end bg-slate-900/60 backdrop-blur-sm pointer-events-auto" onClick={onClose}>
+      <div className="bg-white w-full max-w-2xl h-full p-8 space-y-6 shadow-2xl flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center border-b pb-4">
+          <h3 className="text-xl font-black flex items-center gap-3"><Stethoscope className="text-indigo-600" /> {t.diagnosticsTitle}</h3>
+          <button onClick={onClose} className="text-3xl hover:text-rose-500 transition-colors">&times;</button>
+        </div>
+
+        <div className="grid grid-cols-4 gap-3">
+          {[
+            { label: t.diagnosticsTotal, value: report.total, color: 'text-slate-700' },
+            { label: t.diagnosticsOk, value: report.ok, color: 'text-emerald-600' },
+            { label: t.diagnosticsWarnings, value: report.warnings, color: 'text-amber-600' },
+            { label: t.diagnosticsErrors, value: report.errors, color: 'text-rose-600' }
+          ].map(s => (
+            <div key={s.label} className="bg-slate-50/80 p-4 rounded-xl border border-slate-100 text-center">
+              <div className={`text-2xl font-black ${s.color}`}>{s.value}</div>
+              <div className="text-[10px] uppercase tracking-wider text-slate-500 font-black">{s.label}</div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          {(['error', 'warning'] as const).map(k => (
+            <button key={k} onClick={() => setTab(k)} className={`px-4 py-2 rounded-xl text-xs font-black border transition-all ${tab === k ? (k === 'error' ? 'bg-rose-600 text-white border-rose-600' : 'bg-amber-500 text-white border-amber-500') : 'bg-slate-50 text-slate-500 hover:bg-slate-100'}`}>
+              {k === 'error' ? t.diagnosticsErrors : t.diagnosticsWarnings} ({k === 'error' ? report.errors : report.warnings})
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar pr-2">
+          {rows.length === 0 ? (
+            <div className="py-10 text-center text-slate-300 font-bold italic">{t.diagnosticsEmpty}</div>
+          ) : (
+            <table className="w-full text-xs">
+              <thead className="sticky top-0 bg-white">
+                <tr className="text-left text-[10px] uppercase tracking-wider text-slate-400 font-black border-b">
+                  <th className="py-2 pr-3">{t.diagnosticsRow}</th>
+                  <th className="py-2 pr-3">{t.fieldTruckNo}</th>
+                  <th className="py-2 pr-3">{t.fieldMaterial}</th>
+                  <th className="py-2 pr-3">{t.arrival}</th>
+                  <th className="py-2">{t.diagnosticsReasons}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(r => (
+                  <tr key={r.rowNumber} className="border-b border-slate-50 align-top">
+                    <td className="py-2 pr-3 font-mono font-black text-slate-400">#{r.rowNumber}</td>
+                    <td className="py-2 pr-3 font-bold text-slate-700">{r.row.truckNo}</td>
+                    <td className="py-2 pr-3 font-bold text-slate-700">{r.row.matName}</td>
+                    <td className="py-2 pr-3 font-mono text-slate-500">{r.row.arrivalTime || '--'}</td>
+                    <td className="py-2 space-y-1">
+                      {r.issues.map((iss, i) => (
+                        <div key={i} className={`font-bold ${iss.severity === 'error' ? 'text-rose-600' : 'text-amber-600'}`}>
+                          {t[ISSUE_LABEL_KEYS[iss.code]]}{iss.detail && <span className="font-mono text-slate-400 ml-2">{iss.detail}</span>}
+                        </div>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
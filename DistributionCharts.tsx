@@ -0,0 +1,117 @@
+import React from 'react';
+import { ComposedChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { DashboardSettings, DurationStats, TranslationSet, WeekdayHourRow } from './types.ts';
+import { fillTemplate } from './utils.ts';
+
+// --- Distribution Charts ---
+// Chart types whose data is not one value per x category: the weekday × hour
+// arrival grid and per-material work-time box plots. DynamicChart hands off
+// to these when settings.chartTypes selects them.
+
+interface HeatmapChartProps {
+  data: WeekdayHourRow[];
+  color: string;
+  t: TranslationSet;
+  onPointClick?: (hourLabel: string, weekday: number) => void;
+}
+
+export const HeatmapChart = ({ data, color, t, onPointClick }: HeatmapChartProps) => {
+  const max = Math.max(1, ...data.flatMap(r => r.hours));
+  const weekdays = t.weekdayNames.split(',');
+  const hourTotals = Array.from({ length: 24 }, (_, h) => data.reduce((a, r) => a + r.hours[h], 0));
+
+  return (
+    <div className="w-full h-full flex flex-col justify-center gap-1 overflow-x-auto" style={{ minHeight: '300px' }}>
+      <div className="grid gap-1 min-w-[640px]" style={{ gridTemplateColumns: '48px repeat(24, minmax(0, 1fr)) 48px' }}>
+        <span />
+        {hourTotals.map((_, h) => <span key={h} className="text-[9px] font-black text-slate-400 text-center">{h}</span>)}
+        <span className="text-[9px] font-black text-slate-400 text-center">Σ</span>
+        {data.map(row => (
+          <React.Fragment key={row.weekday}>
+            <span className="text-[10px] font-black text-slate-500 flex items-center">{weekdays[row.weekday]}</span>
+            {row.hours.map((count, h) => (
+              <button
+                key={h}
+                onClick={() => onPointClick?.(`${h}h`, row.weekday)}
+                title={fillTemplate(t.heatmapCell, { day: weekdays[row.weekday], hour: h, count })}
+                className="aspect-square rounded-md border border-slate-100 text-[9px] font-black hover:ring-2 hover:ring-slate-400 transition-all"
+                style={{ backgroundColor: count > 0 ? color : 'transparent', opacity: count > 0 ? 0.15 + 0.85 * (count / max) : 1, color: count / max > 0.5 ? '#fff' : '#475569' }}
+              >
+                {count || ''}
+              </button>
+            ))}
+            <span className="text-[10px] font-black text-slate-500 flex items-center justify-center">{row.total}</span>
+          </React.Fragment>
+        ))}
+        <span className="text-[9px] font-black text-slate-400">Σ</span>
+        {hourTotals.map((n, h) => <span key={h} className="text-[9px] font-black text-slate-400 text-center">{n || ''}</span>)}
+        <span />
+      </div>
+    </div>
+  );
+};
+
+interface BoxPlotChartProps {
+  data: DurationStats[];
+  color: string;
+  settings: DashboardSettings;
+  t: TranslationSet;
+  onPointClick?: (material: string) => void;
+}
+
+// Recharts positions one bar per material; the shape draws the whole box from
+// the plot area's height (`background`) and the fixed y domain [0, domainMax].
+const BoxShape = (props: any) => {
+  const { x, width, background, payload, fill, warnColor, domainMax } = props;
+  const [low, high] = payload.range as [number, number];
+  const toY = (v: number) => background.y + background.height * (1 - v / domainMax);
+  const mid = x + width / 2;
+  const boxX = x + width * 0.2;
+  const boxW = width * 0.6;
+  return (
+    <g>
+      <line x1={mid} x2={mid} y1={toY(high)} y2={toY(low)} stroke="#64748b" strokeWidth={1.5} />
+      <line x1={boxX + boxW * 0.25} x2={boxX + boxW * 0.75} y1={toY(high)} y2={toY(high)} stroke="#64748b" strokeWidth={1.5} />
+      <line x1={boxX + boxW * 0.25} x2={boxX + boxW * 0.75} y1={toY(low)} y2={toY(low)} stroke="#64748b" strokeWidth={1.5} />
+      <rect x={boxX} y={toY(payload.q3)} width={boxW} height={Math.max(1, toY(payload.q1) - toY(payload.q3))} fill={fill} fillOpacity={0.35} stroke={fill} strokeWidth={2} rx={3} />
+      <line x1={boxX} x2={boxX + boxW} y1={toY(payload.median)} y2={toY(payload.median)} stroke={fill} strokeWidth={3} />
+      <line x1={x} x2={x + width} y1={toY(payload.benchmark)} y2={toY(payload.benchmark)} stroke="#ef4444" strokeWidth={1.5} strokeDasharray="4 3" />
+      {payload.outliers.map((v: number, i: number) => (
+        <circle key={i} cx={mid} cy={toY(v)} r={3} fill="#fff" stroke={warnColor} strokeWidth={1.5} />
+      ))}
+    </g>
+  );
+};
+
+const BoxTooltip = ({ active, payload, t }: any) => {
+  if (!active || !payload?.length) return null;
+  const s: DurationStats = payload[0].payload;
+  return (
+    <div className="bg-white border rounded-xl shadow-lg px-4 py-3 text-[11px] font-bold text-slate-600 space-y-0.5">
+      <div className="font-black text-slate-800">{s.name} <span className="text-slate-400">n={s.count}</span></div>
+      <div>{fillTemplate(t.boxplotSummary, { min: s.range[0], q1: s.q1, median: s.median, q3: s.q3, max: s.range[1] })}</div>
+      <div>{t.boxplotMean}: {s.mean}m · {t.benchmark}: {s.benchmark}m</div>
+      {s.outliers.length > 0 && <div className="text-rose-500">{fillTemplate(t.boxplotOutliers, { count: s.outliers.length })}</div>}
+    </div>
+  );
+};
+
+export const BoxPlotChart = ({ data, color, settings, t, onPointClick }: BoxPlotChartProps) => {
+  const domainMax = Math.ceil(Math.max(...data.map(s => Math.max(s.range[1], s.benchmark, ...s.outliers))) * 1.1);
+  return (
+    <ResponsiveContainer width="100%" height="100%">
+      <ComposedChart data={data} margin={{ top: 30, right: 30, left: 0, bottom: 40 }} onClick={(e: any) => e?.activeLabel != null && onPointClick?.(String(e.activeLabel))}>
+        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#cbd5e1" />
+        <XAxis dataKey="name" fontSize={9} fontWeight="bold" stroke="#64748b" angle={-45} textAnchor="end" interval={0} height={70} />
+        <YAxis stroke="#64748b" fontSize={10} fontWeight="bold" width={45} domain={[0, domainMax]} allowDataOverflow unit="m" />
+        <Tooltip content={<BoxTooltip t={t} />} cursor={{ fill: '#f1f5f9' }} />
+        <Bar
+          dataKey="range"
+          fill={color}
+          shape={<BoxShape warnColor={settings.warnColor} domainMax={domainMax} />}
+          isAnimationActive={false}
+        />
+      </ComposedChart>
+    </ResponsiveContainer>
+  );
+};
@@ -0,0 +1,130 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, CalendarSearch, Search, Table2 } from 'lucide-react';
+import { getMaterialBenchmark, getTruckRate } from './analytics.ts';
+import { getShiftDate } from './shifts.ts';
+import { smartParseDate } from './utils.ts';
+import { ShiftCalendar, TranslationSet, TruckData } from './types.ts';
+
+interface DrillDownPanelProps {
+  title: string;
+  rows: TruckData[];
+  benchmarkTime: number;
+  materialBenchmarks: Record<string, number>;
+  warnThreshold: number;
+  calendar: ShiftCalendar;
+  onJumpToDay: (date: string) => void;
+  onClose: () => void;
+  t: TranslationSet;
+}
+
+type SortKey = 'truckNo' | 'matName' | 'arrivalTime' | 'endTime' | 'totalTime' | 'weight' | 'rate';
+
+type DrillRow = TruckData & { rate: number; day: string | null; at: number };
+
+export const DrillDownPanel = ({ title, rows, benchmarkTime, materialBenchmarks, warnThreshold, calendar, onJumpToDay, onClose, t }: DrillDownPanelProps) => {
+  const [query, setQuery] = useState('');
+  const [sortKey, setSortKey] = useState<SortKey>('arrivalTime');
+  const [sortAsc, setSortAsc] = useState(true);
+
+  const enriched = useMemo<DrillRow[]>(() => rows.map(r => {
+    const d = smartParseDate(r.arrivalTime);
+    return { ...r, rate: getTruckRate(r.totalTime, getMaterialBenchmark(r.matName, materialBenchmarks, benchmarkTime)), day: d ? getShiftDate(d, calendar) : null, at: d ? d.getTime() : 0 };
+  }), [rows, benchmarkTime, materialBenchmarks, calendar]);
+
+  const visible = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    const matched = q ? enriched.filter(r => `${r.truckNo} ${r.matName} ${r.arrivalTime} ${r.endTime}`.toLowerCase().includes(q)) : enriched;
+    const value = (r: DrillRow) => (sortKey === 'arrivalTime' ? r.at : sortKey === 'endTime' ? (smartParseDate(r.endTime)?.getTime() || 0) : r[sortKey]);
+    return [...matched].sort((a, b) => {
+      const va = value(a), vb = value(b);
+      const cmp = typeof va === 'number' && typeof vb === 'number' ? va - vb : String(va).localeCompare(String(vb));
+      return sortAsc ? cmp : -cmp;
+    });
+  }, [enriched, query, sortKey, sortAsc]);
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) setSortAsc(a => !a);
+    else { setSortKey(key); setSortAsc(true); }
+  };
+
+  const columns: { key: SortKey; label: string }[] = [
+    { key: 'truckNo', label: t.fieldTruckNo },
+    { key: 'matName', label: t.fieldMaterial },
+    { key: 'arrivalTime', label: t.arrival },
+    { key: 'endTime', label: t.departure },
+    { key: 'totalTime', label: t.drillDuration },
+    { key: 'weight', label: t.drillWeight },
+    { key: 'rate', label: t.drillRate }
+  ];
+
+  const days = Array.from(new Set(enriched.map(r => r.day).filter(Boolean))) as string[];
+  const totalTons = enriched.reduce((a, b) => a + b.weight, 0) / 1000;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex justify-end bg-slate-900/60 backdrop-blur-sm pointer-events-auto" onClick={onClose}>
+      <div className="bg-white w-full max-w-4xl h-full p-8 space-y-6 shadow-2xl flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center border-b pb-4">
+          <h3 className="text-xl font-black flex items-center gap-3"><Table2 className="text-indigo-600" /> {title}</h3>
+          <button onClick={onClose} className="text-3xl hover:text-rose-500 transition-colors">&times;</button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex-1 min-w-[200px] relative">
+            <Search className="w-4 h-4 text-slate-400 absolute left-4 top-1/2 -translate-y-1/2" />
+            <input type="text" value={query} onChange={e => setQuery(e.target.value)} placeholder={t.drillSearch} className="w-full bg-slate-50 border rounded-xl pl-10 pr-4 py-2.5 text-sm font-bold outline-none" />
+          </div>
+          <span className="text-xs font-black text-slate-500">
+            {visible.length} / {enriched.length} · {totalTons.toFixed(1)}t
+          </span>
+          {days.length === 1 && (
+            <button onClick={() => onJumpToDay(days[0])} className="bg-indigo-600 text-white rounded-xl px-4 py-2.5 text-xs font-black shadow hover:bg-indigo-700 transition-all flex items-center gap-2">
+              <CalendarSearch className="w-4 h-4" /> {t.drillJumpToDay}
+            </button>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar pr-2">
+          {visible.length === 0 ? (
+            <div className="py-10 text-center text-slate-300 font-bold italic">{t.drillEmpty}</div>
+          ) : (
+            <table className="w-full text-xs">
+              <thead className="sticky top-0 bg-white">
+                <tr className="text-left text-[10px] uppercase tracking-wider text-slate-400 font-black border-b">
+                  {columns.map(c => (
+                    <th key={c.key} className="py-2 pr-3">
+                      <button onClick={() => toggleSort(c.key)} className={`flex items-center gap-1 uppercase tracking-wider hover:text-indigo-600 ${sortKey === c.key ? 'text-indigo-600' : ''}`}>
+                        {c.label}
+                        {sortKey === c.key && (sortAsc ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />)}
+                      </button>
+                    </th>
+                  ))}
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map((r, i) => (
+                  <tr key={i} className="border-b border-slate-50 hover:bg-slate-50/80">
+                    <td className="py-2 pr-3 font-bold text-slate-700">{r.truckNo}</td>
+                    <td className="py-2 pr-3 font-bold text-slate-700">{r.matName}</td>
+                    <td className="py-2 pr-3 font-mono text-slate-500">{r.arrivalTime || '--'}</td>
+                    <td className="py-2 pr-3 font-mono text-slate-500">{r.endTime || '--'}</td>
+                    <td className="py-2 pr-3 font-mono font-bold text-slate-700">{r.totalTime}m</td>
+                    <td className="py-2 pr-3 font-mono text-slate-700">{(r.weight / 1000).toFixed(1)}t</td>
+                    <td className={`py-2 pr-3 font-mono font-black ${r.rate < warnThreshold ? 'text-rose-600' : 'text-emerald-600'}`}>{r.rate}%</td>
+                    <td className="py-2 text-right">
+                      {r.day && (
+                        <button onClick={() => onJumpToDay(r.day!)} title={t.drillJumpToDay} className="p-1.5 rounded-lg text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 transition-colors">
+                          <CalendarSearch className="w-4 h-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { X, Filter } from 'lucide-react';
+import { EMPTY_FILTERS, countActiveFilters, isRangeSet } from './filters.ts';
+import { FilterState, NumberRange, TranslationSet, TripStatus } from './types.ts';
+
+interface FilterBarProps {
+  filters: FilterState;
+  onChange: (filters: FilterState) => void;
+  materials: string[];
+  t: TranslationSet;
+}
+
+const parseBound = (value: string): number | undefined => {
+  const n = parseFloat(value);
+  return isNaN(n) ? undefined : n;
+};
+
+const formatRange = (range: NumberRange, unit: string) => {
+  if (range.min != null && range.max != null) return `${range.min}–${range.max} ${unit}`;
+  if (range.min != null) return `≥ ${range.min} ${unit}`;
+  return `≤ ${range.max} ${unit}`;
+};
+
+// Typing reports insertText/delete* input types. A datalist pick reports
+// insertReplacementText, or no input type at all in some browsers. Only picks
+// commit a chip while typing, so "Coal Fines" can be typed past "Coal".
+const isDatalistPick = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const inputType = (e.nativeEvent as InputEvent).inputType;
+  return !inputType || inputType === 'insertReplacementText';
+};
+
+export const FilterBar = ({ filters, onChange, materials, t }: FilterBarProps) => {
+  const [materialInput, setMaterialInput] = useState('');
+  const update = (patch: Partial<FilterState>) => onChange({ ...filters, ...patch });
+
+  // Only names from the data are accepted, so a pick always matches exactly.
+  const addMaterial = (value: string) => {
+    const match = materials.find(m => m.toLowerCase() === value.trim().toLowerCase());
+    if (!match) return false;
+    if (!filters.materials.includes(match)) update({ materials: [...filters.materials, match] });
+    setMaterialInput('');
+    return true;
+  };
+
+  const statusLabels: Record<TripStatus, string> = { all: t.statusAll, completed: t.statusCompleted, inProgress: t.statusInProgress };
+
+  const chips: { key: string; label: string; onRemove: () => void }[] = [
+    ...filters.materials.map(m => ({ key: `mat-${m}`, label: m, onRemove: () => update({ materials: filters.materials.filter(x => x !== m) }) })),
+    ...(filters.truckNo.trim() ? [{ key: 'truck', label: `${t.fieldTruckNo}: ${filters.truckNo.trim()}`, onRemove: () => update({ truckNo: '' }) }] : []),
+    ...(isRangeSet(filters.weight) ? [{ key: 'weight', label: `${t.filterWeight}: ${formatRange(filters.weight, 't')}`, onRemove: () => update({ weight: {} }) }] : []),
+    ...(isRangeSet(filters.duration) ? [{ key: 'duration', label: `${t.filterDuration}: ${formatRange(filters.duration, 'min')}`, onRemove: () => update({ duration: {} }) }] : []),
+    ...(filters.status !== 'all' ? [{ key: 'status', label: statusLabels[filters.status], onRemove: () => update({ status: 'all' }) }] : [])
+  ];
+
+  const rangeInputs = (key: 'weight' | 'duration') => (
+    <div className="flex gap-2">
+      {(['min', 'max'] as const).map(side => (
+        <input
+          key={side}
+          type="number"
+          min={0}
+          placeholder={side === 'min' ? t.filterMin : t.filterMax}
+          value={filters[key][side] ?? ''}
+          onChange={e => update({ [key]: { ...filters[key], [side]: parseBound(e.target.value) } })}
+          className="w-full bg-slate-50 border rounded-2xl px-4 py-3 font-bold"
+        />
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="space-y-5">
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-6 items-end">
+        <div className="space-y-3">
+          <label className="text-xs font-black text-slate-500 uppercase tracking-widest">{t.fieldMaterial}</label>
+          <input
+            type="text"
+            list="mat-search"
+            placeholder={t.filterMaterialPlaceholder}
+            value={materialInput}
+            onChange={e => { if (!(isDatalistPick(e) && addMaterial(e.target.value))) setMaterialInput(e.target.value); }}
+            onKeyDown={e => { if (e.key === 'Enter') addMaterial(materialInput); }}
+            className="w-full bg-slate-50 border rounded-2xl px-4 py-3 font-bold"
+          />
+          <datalist id="mat-search">
+            {materials.filter(m => !filters.materials.includes(m)).map(m => <option key={m} value={m} />)}
+          </datalist>
+        </div>
+        <div className="space-y-3">
+          <label className="text-xs font-black text-slate-500 uppercase tracking-widest">{t.fieldTruckNo}</label>
+          <input type="text" value={filters.truckNo} onChange={e => update({ truckNo: e.target.value })} className="w-full bg-slate-50 border rounded-2xl px-4 py-3 font-bold" />
+        </div>
+        <div className="space-y-3">
+          <label className="text-xs font-black text-slate-500 uppercase tracking-widest">{t.filterWeight} (t)</label>
+          {rangeInputs('weight')}
+        </div>
+        <div className="space-y-3">
+          <label className="text-xs font-black text-slate-500 uppercase tracking-widest">{t.filterDuration} (min)</label>
+          {rangeInputs('duration')}
+        </div>
+        <div className="space-y-3">
+          <label className="text-xs font-black text-slate-500 uppercase tracking-widest">{t.filterStatus}</label>
+          <select value={filters.status} onChange={e => update({ status: e.target.value as TripStatus })} className="w-full bg-slate-50 border rounded-2xl px-4 py-3 font-bold outline-none">
+            {(Object.keys(statusLabels) as TripStatus[]).map(s => <option key={s} value={s}>{statusLabels[s]}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 min-h-[2rem]">
+        <Filter className="w-4 h-4 text-slate-400" />
+        {chips.length === 0 ? (
+          <span className="text-xs font-bold text-slate-300 italic">{t.noActiveFilters}</span>
+        ) : (
+          <>
+            {chips.map(c => (
+              <span key={c.key} className={`flex items-center gap-1 pl-3 pr-1 py-1 rounded-full text-xs font-black border ${c.key.startsWith('mat-') ? 'bg-indigo-50 text-indigo-700 border-indigo-100' : 'bg-slate-50 text-slate-600 border-slate-200'}`}>
+                {c.label}
+                <button onClick={c.onRemove} className="p-0.5 rounded-full hover:bg-white hover:text-rose-500 transition-colors"><X className="w-3 h-3" /></button>
+              </span>
+            ))}
+            {countActiveFilters(filters) > 1 && (
+              <button onClick={() => onChange({ ...filters, ...EMPTY_FILTERS })} className="text-[10px] text-rose-500 font-black hover:underline ml-2">
+                {t.clearFilters}
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
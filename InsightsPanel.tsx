@@ -0,0 +1,99 @@
+import React, { useState, useEffect } from 'react';
+import { Sparkles, RefreshCcw, LogIn, LogOut, Lock, AlertTriangle } from 'lucide-react';
+import { analyzeLogisticsData, parseInsightBullets } from './geminiService.ts';
+import { buildAnalysisSummary } from './aiSummary.ts';
+import { TruckData, Language, TranslationSet, InsightModelId, ShiftCalendar } from './types.ts';
+
+interface InsightsPanelProps {
+  data: TruckData[];
+  lang: Language;
+  t: TranslationSet;
+  modelId: InsightModelId;
+  calendar: ShiftCalendar;
+  user: string | null;
+  onLogin: (name: string) => void;
+  onLogout: () => void;
+}
+
+export const InsightsPanel = ({ data, lang, t, modelId, calendar, user, onLogin, onLogout }: InsightsPanelProps) => {
+  const [bullets, setBullets] = useState<string[]>([]);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [failed, setFailed] = useState(false);
+  const [nameInput, setNameInput] = useState('');
+
+  // Results are generated in a specific language; drop them when the user switches.
+  useEffect(() => { setBullets([]); setFailed(false); }, [lang, user]);
+
+  const runAnalysis = async () => {
+    setIsAnalyzing(true);
+    setFailed(false);
+    try {
+      const text = await analyzeLogisticsData(buildAnalysisSummary(data, { calendar }), lang, modelId);
+      setBullets(parseInsightBullets(text));
+    } catch (err) {
+      console.error('AI analysis failed:', err);
+      setBullets([]);
+      setFailed(true);
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const submitLogin = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = nameInput.trim();
+    if (!name) return;
+    onLogin(name);
+    setNameInput('');
+  };
+
+  return (
+    <section id="ai-insights" className="bg-white p-10 rounded-[3rem] border shadow-sm space-y-8">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <h3 className="text-xl font-black text-slate-800 flex items-center gap-3"><Sparkles className="text-indigo-600" /> {t.aiInsights}</h3>
+        {user && (
+          <div className="flex items-center gap-4">
+            <span className="text-xs font-bold text-slate-400">{t.signedInAs} <span className="text-slate-700">{user}</span></span>
+            <button onClick={onLogout} className="text-xs font-black text-slate-500 border rounded-xl px-3 py-2 flex items-center gap-2 hover:bg-slate-50 transition-all">
+              <LogOut className="w-4 h-4" /> {t.logoutAction}
+            </button>
+            <button onClick={runAnalysis} disabled={isAnalyzing || data.length === 0} className="bg-indigo-600 text-white rounded-xl px-5 py-2.5 font-black shadow-lg hover:bg-indigo-700 transition-all flex items-center gap-2 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed">
+              <Sparkles className="w-4 h-4" /> {t.askAi}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {!user ? (
+        <form onSubmit={submitLogin} className="flex flex-col items-center gap-5 py-8 border-2 border-dashed border-slate-200 rounded-3xl">
+          <Lock className="w-10 h-10 text-slate-300" />
+          <p className="text-sm font-black text-slate-500">{t.loginRequired}</p>
+          <div className="flex gap-3">
+            <input type="text" value={nameInput} onChange={e => setNameInput(e.target.value)} placeholder={t.userNameLabel} className="bg-slate-50 border rounded-2xl px-5 py-3 font-bold outline-none focus:border-indigo-500" />
+            <button type="submit" disabled={!nameInput.trim()} className="bg-indigo-600 text-white rounded-2xl px-6 py-3 font-black shadow-lg hover:bg-indigo-700 transition-all flex items-center gap-2 active:scale-95 disabled:opacity-50">
+              <LogIn className="w-5 h-5" /> {t.loginAction}
+            </button>
+          </div>
+        </form>
+      ) : isAnalyzing ? (
+        <div className="flex items-center justify-center gap-4 py-10 text-indigo-600 font-black">
+          <RefreshCcw className="w-6 h-6 animate-spin" /> <span className="animate-pulse">{t.analyzing}</span>
+        </div>
+      ) : failed ? (
+        <div className="flex items-center justify-center gap-3 py-10 text-rose-500 font-black border-2 border-dashed border-rose-200 rounded-3xl bg-rose-50/50">
+          <AlertTriangle className="w-5 h-5" /> {t.insightsFailed}
+        </div>
+      ) : bullets.length > 0 ? (
+        <ul className="space-y-3">
+          {bullets.map((b, i) => (
+            <li key={i} className="flex gap-3 bg-slate-50/80 p-4 rounded-xl border border-slate-100 text-sm font-bold text-slate-700 leading-relaxed">
+              <span className="text-indigo-500 font-black">{i + 1}.</span> {b}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="py-10 text-center text-slate-300 font-bold italic">{t.insightsEmpty}</div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,59 @@
+import React from 'react';
+import {
+  ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend,
+  ResponsiveContainer, ReferenceLine
+} from 'recharts';
+import { UNIFIED_ANIM_SPEED } from './constants.ts';
+import { DashboardSettings, InventoryPoint, TranslationSet } from './types.ts';
+
+interface InventoryChartProps {
+  data: InventoryPoint[];
+  settings: DashboardSettings;
+  t: TranslationSet;
+  dataVersion?: number;
+  onPointClick?: (date: string) => void;
+}
+
+const MIXER_COLOR = '#0ea5e9';
+const WAREHOUSE_COLOR = '#14b8a6';
+const INBOUND_COLOR = '#c4b5fd';
+
+export const InventoryChart = React.memo(({ data, settings, t, dataVersion = 0, onPointClick }: InventoryChartProps) => {
+  if (data.length === 0) {
+    return <div className="w-full h-full flex items-center justify-center text-slate-300 font-bold italic">{t.noStockData}</div>;
+  }
+
+  const animationProps = {
+    isAnimationActive: settings.animationEnabled,
+    animationDuration: UNIFIED_ANIM_SPEED,
+    animationBegin: 0
+  };
+
+  // Points under the low-stock level are drawn in the warning colour.
+  const stockDot = (threshold: number, color: string) => (props: any) => {
+    const { cx, cy, value, index } = props;
+    if (cx == null || cy == null) return <g key={index} />;
+    const isLow = value < threshold;
+    return <circle key={index} cx={cx} cy={cy} r={isLow ? 5 : 3} fill={isLow ? settings.warnColor : color} stroke="#fff" strokeWidth={1} />;
+  };
+
+  return (
+    <div className="w-full h-full relative" style={{ minHeight: '300px' }} key={`inventory-${dataVersion}`}>
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={data} margin={{ top: 30, right: 30, left: 0, bottom: 40 }} onClick={(e: any) => e && e.activeLabel != null && onPointClick?.(String(e.activeLabel))}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#cbd5e1" />
+          <XAxis dataKey="date" fontSize={9} fontWeight="bold" stroke="#64748b" angle={-45} textAnchor="end" interval={0} height={70} padding={{ left: 20, right: 20 }} />
+          <YAxis yAxisId="tons" stroke="#64748b" fontSize={10} fontWeight="bold" width={45} domain={[0, 'auto']} />
+          <YAxis yAxisId="stock" orientation="right" stroke={WAREHOUSE_COLOR} fontSize={9} width={45} domain={[0, 'auto']} />
+          <Tooltip contentStyle={{ borderRadius: '12px', fontSize: '11px' }} />
+          <Legend wrapperStyle={{ fontSize: '11px', fontWeight: 900 }} verticalAlign="top" />
+          <Bar yAxisId="tons" dataKey="tons" name={t.inboundTons} fill={INBOUND_COLOR} radius={[4, 4, 0, 0]} barSize={24} {...animationProps} />
+          <Line yAxisId="stock" type="monotone" dataKey="mxStock" name={t.fieldMxStock} stroke={MIXER_COLOR} strokeWidth={3} dot={stockDot(settings.stockThresholds.mixer, MIXER_COLOR)} {...animationProps} />
+          <Line yAxisId="stock" type="monotone" dataKey="whStock" name={t.fieldWhStock} stroke={WAREHOUSE_COLOR} strokeWidth={3} dot={stockDot(settings.stockThresholds.warehouse, WAREHOUSE_COLOR)} {...animationProps} />
+          <ReferenceLine yAxisId="stock" y={settings.stockThresholds.mixer} stroke={MIXER_COLOR} strokeDasharray="5 5" />
+          <ReferenceLine yAxisId="stock" y={settings.stockThresholds.warehouse} stroke={WAREHOUSE_COLOR} strokeDasharray="5 5" />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+});
@@ -0,0 +1,60 @@
+import React from 'react';
+import { Trash2, Sigma } from 'lucide-react';
+import { TranslationSet } from './types.ts';
+import { fillTemplate } from './utils.ts';
+
+interface MaterialBenchmarksProps {
+  benchmarks: Record<string, number>;
+  medians: Record<string, number>;
+  materials: string[];
+  fallback: number;
+  onChange: (benchmarks: Record<string, number>) => void;
+  t: TranslationSet;
+}
+
+export const MaterialBenchmarks = ({ benchmarks, medians, materials, fallback, onChange, t }: MaterialBenchmarksProps) => {
+  // Configured materials stay editable even when they are absent from the loaded data.
+  const rows = Array.from(new Set([...materials, ...Object.keys(benchmarks)])).sort();
+
+  const setBenchmark = (material: string, value: number) => {
+    const next = { ...benchmarks };
+    if (value > 0) next[material] = value;
+    else delete next[material];
+    onChange(next);
+  };
+
+  return (
+    <div className="pt-4 border-t space-y-4">
+      <div className="flex justify-between items-end">
+        <h4 className="text-xs font-black text-slate-400 uppercase tracking-widest">{t.materialBenchmarksLabel}</h4>
+        <div className="flex gap-3">
+          <button onClick={() => onChange({ ...benchmarks, ...medians })} disabled={Object.keys(medians).length === 0} className="text-[9px] text-indigo-600 font-black flex items-center gap-1 hover:underline disabled:opacity-30">
+            <Sigma className="w-2.5 h-2.5" /> {t.deriveFromMedians}
+          </button>
+          <button onClick={() => onChange({})} disabled={Object.keys(benchmarks).length === 0} className="text-[9px] text-slate-400 font-black flex items-center gap-1 hover:text-rose-500 disabled:opacity-30">
+            <Trash2 className="w-2.5 h-2.5" /> {t.clearFilters}
+          </button>
+        </div>
+      </div>
+      <div className="text-[10px] text-slate-400 font-bold">{fillTemplate(t.materialBenchmarkFallback, { minutes: fallback })}</div>
+      <div className="max-h-56 overflow-y-auto custom-scrollbar pr-2 space-y-2">
+        {rows.map(mat => (
+          <div key={mat} className="flex items-center gap-3">
+            <span className="flex-1 text-xs font-bold text-slate-600 truncate" title={mat}>{mat}</span>
+            {medians[mat] !== undefined && (
+              <span className="text-[10px] font-mono text-slate-400">{fillTemplate(t.materialMedian, { minutes: medians[mat] })}</span>
+            )}
+            <input
+              type="number"
+              min={0}
+              value={benchmarks[mat] ?? ''}
+              placeholder={String(fallback)}
+              onChange={e => setBenchmark(mat, parseInt(e.target.value))}
+              className="w-24 bg-slate-50 border rounded-xl p-2 text-xs font-bold outline-none"
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { AlertTriangle, FileText, RefreshCcw } from 'lucide-react';
+import { Language, ReportOptions, TranslationSet } from './types.ts';
+
+interface ReportDialogProps {
+  range: { startDate: string; endDate: string };
+  defaultDay: string;
+  lang: Language;
+  canIncludeInsights: boolean;
+  isGenerating: boolean;
+  failed: boolean;
+  onGenerate: (options: ReportOptions) => void;
+  onClose: () => void;
+  t: TranslationSet;
+}
+
+export const ReportDialog = ({ range, defaultDay, lang, canIncludeInsights, isGenerating, failed, onGenerate, onClose, t }: ReportDialogProps) => {
+  const [options, setOptions] = useState<ReportOptions>({ period: 'range', day: defaultDay, lang, includeInsights: false });
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 bg-slate-900/60 backdrop-blur-sm pointer-events-auto">
+      <div className="bg-white w-full max-w-md rounded-3xl p-10 space-y-6 shadow-2xl">
+        <div className="flex justify-between items-center border-b pb-4">
+          <h3 className="text-xl font-black flex items-center gap-3"><FileText className="text-indigo-600" /> {t.reportTitle}</h3>
+          <button onClick={onClose} disabled={isGenerating} className="text-3xl hover:text-rose-500 transition-colors disabled:opacity-30">&times;</button>
+        </div>
+
+        <div className="space-y-3">
+          <label className="text-xs font-black text-slate-400 uppercase">{t.reportPeriod}</label>
+          <label className="flex items-center gap-3 text-sm font-bold text-slate-700 cursor-pointer">
+            <input type="radio" checked={options.period === 'range'} onChange={() => setOptions(o => ({ ...o, period: 'range' }))} />
+            {t.reportPeriodRange} <span className="font-mono text-xs text-slate-400">{range.startDate} ~ {range.endDate}</span>
+          </label>
+          <label className="flex items-center gap-3 text-sm font-bold text-slate-700 cursor-pointer">
+            <input type="radio" checked={options.period === 'day'} onChange={() => setOptions(o => ({ ...o, period: 'day' }))} />
+            {t.reportPeriodDay}
+            <input type="date" value={options.day} disabled={options.period !== 'day'} onChange={e => setOptions(o => ({ ...o, day: e.target.value }))} className="bg-slate-50 border rounded-xl px-3 py-1.5 text-xs font-bold disabled:opacity-40" />
+          </label>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-xs font-black text-slate-400 uppercase">{t.reportLanguage}</label>
+          <select value={options.lang} onChange={e => setOptions(o => ({ ...o, lang: e.target.value as Language }))} className="w-full bg-slate-50 border rounded-xl p-3 font-bold outline-none">
+            <option value="zh">繁體中文</option>
+            <option value="en">English</option>
+            <option value="hi">हिन्दी</option>
+          </select>
+        </div>
+
+        <label className={`flex items-center gap-3 text-sm font-bold ${canIncludeInsights ? 'text-slate-700 cursor-pointer' : 'text-slate-300'}`} title={canIncludeInsights ? undefined : t.loginRequired}>
+          <input type="checkbox" checked={options.includeInsights && canIncludeInsights} disabled={!canIncludeInsights} onChange={e => setOptions(o => ({ ...o, includeInsights: e.target.checked }))} />
+          {t.reportIncludeInsights}
+        </label>
+
+        {failed && (
+          <div className="flex items-center justify-center gap-3 py-4 text-sm text-rose-500 font-black border-2 border-dashed border-rose-200 rounded-2xl bg-rose-50/50"><AlertTriangle className="w-5 h-5" /> {t.reportFailed}</div>
+        )}
+
+        <button
+          onClick={() => onGenerate({ ...options, includeInsights: options.includeInsights && canIncludeInsights })}
+          disabled={isGenerating || (options.period === 'day' && !options.day)}
+          className="w-full bg-indigo-600 text-white py-4 rounded-2xl font-black shadow-lg hover:bg-indigo-700 transition-all flex items-center justify-center gap-3 disabled:opacity-50"
+        >
+          {isGenerating ? <RefreshCcw className="w-5 h-5 animate-spin" /> : <FileText className="w-5 h-5" />}
+          {isGenerating ? t.reportGenerating : t.reportGenerate}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React from 'react';
+import { AlertTriangle, BarChart3, Sparkles } from 'lucide-react';
+import { RangeSummary, TranslationSet, TruckData } from './types.ts';
+
+interface ReportSheetProps {
+  plantName: string;
+  periodLabel: string;
+  generatedAt: string;
+  summary: RangeSummary;
+  alerts: (TruckData & { rate: number })[];
+  insights: string[] | null;
+  warnThreshold: number;
+  t: TranslationSet;
+}
+
+// Longer lists would shrink below legibility once scaled onto one A4 page.
+const MAX_ALERT_ROWS = 40;
+
+/**
+ * First page of the PDF report: header, period totals, the under-benchmark
+ * trucks and, when requested, the AI insights. Rendered off-screen while the
+ * report is captured.
+ */
+export const ReportSheet = ({ plantName, periodLabel, generatedAt, summary, alerts, insights, warnThreshold, t }: ReportSheetProps) => (
+  <div id="report-sheet" className="bg-white p-10 space-y-8 font-sans" style={{ width: '1100px' }}>
+    <div className="flex justify-between items-end border-b-4 border-indigo-600 pb-6">
+      <div className="space-y-1">
+        <div className="flex items-center gap-3 text-3xl font-black text-slate-800"><BarChart3 className="text-indigo-600 w-8 h-8" /> {plantName}</div>
+        <div className="text-lg font-black text-indigo-600">{t.reportTitle} · {periodLabel}</div>
+      </div>
+      <div className="text-right text-xs font-bold text-slate-500">
+        <div className="uppercase tracking-widest text-[10px] font-black text-slate-400">{t.reportGeneratedAt}</div>
+        <div className="font-mono">{generatedAt}</div>
+      </div>
+    </div>
+
+    <div className="grid grid-cols-5 gap-4">
+      {[
+        { label: t.statRangeTotal, value: `${summary.totalTons}t` },
+        { label: t.statTotalEntryUnits, value: summary.totalCounts },
+        { label: t.statAvgWorkTime, value: `${summary.avgEff}m` },
+        { label: t.reportAlertCount, value: alerts.length, color: alerts.length > 0 ? 'text-rose-600' : 'text-emerald-600' },
+        { label: t.statFetchDays, value: summary.days }
+      ].map(s => (
+        <div key={s.label} className="bg-slate-50 p-4 rounded-xl border border-slate-100 text-center">
+          <div className={`text-2xl font-black ${s.color || 'text-indigo-600'}`}>{s.value}</div>
+          <div className="text-[10px] uppercase tracking-wider text-slate-500 font-black">{s.label}</div>
+        </div>
+      ))}
+    </div>
+
+    {insights && insights.length > 0 && (
+      <div className="space-y-3">
+        <h4 className="text-sm font-black text-slate-700 flex items-center gap-2"><Sparkles className="w-4 h-4 text-indigo-600" /> {t.aiInsights}</h4>
+        <ul className="space-y-2">
+          {insights.map((b, i) => <li key={i} className="text-sm text-slate-700 font-medium bg-indigo-50/60 rounded-xl px-4 py-2">{b}</li>)}
+        </ul>
+      </div>
+    )}
+
+    <div className="space-y-3">
+      <h4 className="text-sm font-black text-slate-700 flex items-center gap-2">
+        <AlertTriangle className="w-4 h-4 text-rose-500" /> {t.reportAlerts} (&lt; {warnThreshold}%)
+      </h4>
+      {alerts.length === 0 ? (
+        <div className="text-sm font-bold text-emerald-600 italic">{t.reportNoAlerts}</div>
+      ) : (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-[10px] uppercase tracking-wider text-slate-400 font-black border-b">
+              <th className="py-2 pr-3">{t.fieldTruckNo}</th>
+              <th className="py-2 pr-3">{t.fieldMaterial}</th>
+              <th className="py-2 pr-3">{t.arrival}</th>
+              <th className="py-2 pr-3">{t.departure}</th>
+              <th className="py-2 pr-3 text-right">{t.drillDuration}</th>
+              <th className="py-2 text-right">{t.drillRate}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {alerts.slice(0, MAX_ALERT_ROWS).map((r, i) => (
+              <tr key={i} className="border-b border-slate-50">
+                <td className="py-1.5 pr-3 font-bold text-slate-700">{r.truckNo}</td>
+                <td className="py-1.5 pr-3 font-bold text-slate-700">{r.matName}</td>
+                <td className="py-1.5 pr-3 font-mono text-slate-500">{r.arrivalTime}</td>
+                <td className="py-1.5 pr-3 font-mono text-slate-500">{r.endTime || '--'}</td>
+                <td className="py-1.5 pr-3 font-mono text-right text-slate-700">{r.totalTime}m</td>
+                <td className="py-1.5 font-mono font-black text-right text-rose-600">{r.rate}%</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {alerts.length > MAX_ALERT_ROWS && (
+        <div className="text-xs font-bold text-slate-400">+{alerts.length - MAX_ALERT_ROWS} {t.reportMoreAlerts}</div>
+      )}
+    </div>
+  </div>
+);
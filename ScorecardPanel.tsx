@@ -0,0 +1,130 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, Search, Trophy } from 'lucide-react';
+import { UNASSIGNED_CARRIER } from './carriers.ts';
+import { ScorecardGroup, ScorecardRow } from './scorecard.ts';
+import { TranslationSet } from './types.ts';
+
+interface ScorecardPanelProps {
+  rows: Record<ScorecardGroup, ScorecardRow[]>;
+  hasCarrierRules: boolean;
+  warnThreshold: number;
+  onSelect: (group: ScorecardGroup, key: string) => void;
+  t: TranslationSet;
+}
+
+type SortKey = Exclude<keyof ScorecardRow, 'trend'>;
+
+const Sparkline = ({ values }: { values: number[] }) => {
+  if (values.length < 2) return null;
+  const max = Math.max(1, ...values);
+  const points = values.map((v, i) => `${(i / (values.length - 1)) * 100},${28 - (v / max) * 26}`).join(' ');
+  return (
+    <svg viewBox="0 0 100 30" preserveAspectRatio="none" className="w-28 h-7">
+      <polyline points={points} fill="none" stroke="#6366f1" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+};
+
+export const ScorecardPanel = ({ rows, hasCarrierRules, warnThreshold, onSelect, t }: ScorecardPanelProps) => {
+  const [group, setGroup] = useState<ScorecardGroup>('truck');
+  const [query, setQuery] = useState('');
+  const [sortKey, setSortKey] = useState<SortKey>('visits');
+  const [sortAsc, setSortAsc] = useState(false);
+
+  const label = (key: string) => (group === 'carrier' && key === UNASSIGNED_CARRIER ? t.carrierUnassigned : key);
+
+  const visible = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    const matched = q ? rows[group].filter(r => label(r.key).toLowerCase().includes(q)) : rows[group];
+    return [...matched].sort((a, b) => {
+      const va = a[sortKey], vb = b[sortKey];
+      const cmp = typeof va === 'number' && typeof vb === 'number' ? va - vb : String(va).localeCompare(String(vb));
+      return sortAsc ? cmp : -cmp;
+    });
+  }, [rows, group, query, sortKey, sortAsc]);
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) setSortAsc(a => !a);
+    else { setSortKey(key); setSortAsc(key === 'key'); }
+  };
+
+  const columns: { key: SortKey; label: string }[] = [
+    { key: 'key', label: group === 'truck' ? t.fieldTruckNo : t.scorecardCarrier },
+    ...(group === 'carrier' ? [{ key: 'trucks' as SortKey, label: t.scorecardTrucks }] : []),
+    { key: 'visits', label: t.scorecardVisits },
+    { key: 'tons', label: t.scorecardTons },
+    { key: 'medianTime', label: t.scorecardMedianTime },
+    { key: 'avgTime', label: t.scorecardAvgTime },
+    { key: 'avgRate', label: t.drillRate },
+    { key: 'alertShare', label: t.scorecardAlertShare }
+  ];
+
+  return (
+    <section id="scorecard" className="bg-white p-10 rounded-[3rem] border shadow-sm space-y-6">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <h3 className="text-xl font-black text-slate-800 flex items-center gap-3"><Trophy className="text-indigo-600" /> {t.scorecardTitle}</h3>
+        <div className="flex items-center gap-3">
+          {(['truck', 'carrier'] as ScorecardGroup[]).map(g => (
+            <button
+              key={g}
+              onClick={() => setGroup(g)}
+              disabled={g === 'carrier' && !hasCarrierRules}
+              title={g === 'carrier' && !hasCarrierRules ? t.scorecardNoCarrierRules : undefined}
+              className={`px-4 py-2 rounded-xl text-xs font-black border transition-all disabled:opacity-40 ${group === g ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-slate-50 text-slate-500 hover:bg-slate-100'}`}
+            >
+              {g === 'truck' ? t.scorecardByTruck : t.scorecardByCarrier}
+            </button>
+          ))}
+          <div className="relative">
+            <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input value={query} onChange={e => setQuery(e.target.value)} placeholder={t.drillSearch} className="bg-slate-50 border rounded-xl pl-9 pr-3 py-2 text-xs font-bold outline-none w-48" />
+          </div>
+        </div>
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="py-8 text-center text-slate-300 font-bold italic">{t.drillEmpty}</div>
+      ) : (
+        <div className="max-h-[480px] overflow-y-auto custom-scrollbar pr-2">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-white">
+              <tr className="text-[10px] font-black text-slate-400 uppercase text-left">
+                <th className="py-2 pr-2 w-10">#</th>
+                {columns.map(c => (
+                  <th key={c.key} onClick={() => toggleSort(c.key)} className="py-2 pr-4 cursor-pointer hover:text-indigo-600 select-none whitespace-nowrap">
+                    <span className="inline-flex items-center gap-1">
+                      {c.label}
+                      {sortKey === c.key && (sortAsc ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />)}
+                    </span>
+                  </th>
+                ))}
+                <th className="py-2">{t.scorecardTrend}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map((r, i) => (
+                <tr key={r.key} onClick={() => onSelect(group, r.key)} className="border-t border-slate-50 hover:bg-indigo-50/40 cursor-pointer transition-colors">
+                  <td className="py-2.5 pr-2 text-[10px] font-black text-slate-300">{i + 1}</td>
+                  <td className="py-2.5 pr-4 font-black text-slate-700">{label(r.key)}</td>
+                  {group === 'carrier' && <td className="py-2.5 pr-4 font-mono text-slate-500">{r.trucks}</td>}
+                  <td className="py-2.5 pr-4 font-mono font-bold text-slate-700">{r.visits}</td>
+                  <td className="py-2.5 pr-4 font-mono text-slate-500">{r.tons}t</td>
+                  <td className="py-2.5 pr-4 font-mono text-slate-500">{r.medianTime}m</td>
+                  <td className="py-2.5 pr-4 font-mono text-slate-500">{r.avgTime}m</td>
+                  <td className={`py-2.5 pr-4 font-mono font-black ${r.avgRate < warnThreshold ? 'text-rose-500' : 'text-emerald-600'}`}>{r.avgRate}%</td>
+                  <td className="py-2.5 pr-4">
+                    <div className="flex items-center gap-2">
+                      <div className="h-1.5 w-16 bg-slate-100 rounded-full overflow-hidden"><div className="h-full bg-rose-400" style={{ width: `${r.alertShare}%` }} /></div>
+                      <span className="font-mono text-[11px] text-slate-500">{r.alertShare}%</span>
+                    </div>
+                  </td>
+                  <td className="py-2.5"><Sparkline values={r.trend} /></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,50 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { SHIFT_COLORS } from './shifts.ts';
+import { ShiftCalendar, TranslationSet } from './types.ts';
+
+interface ShiftSettingsProps {
+  calendar: ShiftCalendar;
+  onChange: (calendar: ShiftCalendar) => void;
+  t: TranslationSet;
+}
+
+export const ShiftSettings = ({ calendar, onChange, t }: ShiftSettingsProps) => {
+  const updateShift = (index: number, patch: Partial<ShiftCalendar['shifts'][number]>) => {
+    onChange({ ...calendar, shifts: calendar.shifts.map((s, i) => (i === index ? { ...s, ...patch } : s)) });
+  };
+
+  const addShift = () => {
+    const name = String.fromCharCode(65 + calendar.shifts.length);
+    onChange({ ...calendar, shifts: [...calendar.shifts, { name, start: '15:00' }] });
+  };
+
+  return (
+    <div className="pt-4 border-t space-y-4">
+      <h4 className="text-xs font-black text-slate-400 uppercase tracking-widest">{t.shiftCalendarLabel}</h4>
+      <div className="space-y-2">
+        {calendar.shifts.map((shift, i) => (
+          <div key={i} className="flex items-center gap-3">
+            <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: SHIFT_COLORS[i % SHIFT_COLORS.length] }} />
+            <input type="text" value={shift.name} placeholder={t.shiftName} onChange={e => updateShift(i, { name: e.target.value })} className="flex-1 bg-slate-50 border rounded-xl p-2 text-xs font-bold outline-none" />
+            <input type="time" value={shift.start} title={t.shiftStart} onChange={e => updateShift(i, { start: e.target.value })} className="bg-slate-50 border rounded-xl p-2 text-xs font-bold outline-none" />
+            <button
+              onClick={() => onChange({ ...calendar, shifts: calendar.shifts.filter((_, j) => j !== i) })}
+              disabled={calendar.shifts.length <= 1}
+              className="p-2 text-slate-400 hover:text-rose-500 disabled:opacity-30 disabled:hover:text-slate-400 transition-colors"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+      <button onClick={addShift} className="text-[10px] text-indigo-600 font-black flex items-center gap-1 hover:underline">
+        <Plus className="w-3 h-3" /> {t.addShift}
+      </button>
+      <div className="space-y-1">
+        <label className="text-[10px] font-black text-slate-500 uppercase">{t.dayBoundaryLabel}</label>
+        <input type="time" value={calendar.dayBoundary || ''} onChange={e => onChange({ ...calendar, dayBoundary: e.target.value || undefined })} className="w-full bg-slate-50 border rounded-xl p-2 text-xs font-bold outline-none" />
+      </div>
+    </div>
+  );
+};
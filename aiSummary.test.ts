@@ -0,0 +1,122 @@
+import { describe, expect, it, vi } from 'vitest';
+import { buildAnalysisSummary, estimateTokens } from './aiSummary.ts';
+import { analyzeLogisticsData, buildInsightPrompt, INSIGHT_MODELS } from './geminiService.ts';
+import { TruckData } from './types.ts';
+
+const truck = (truckNo: string, matName: string, arrivalTime: string, totalTime: number, weight: number): TruckData => ({
+  truckNo, matName, arrivalTime, endTime: '', totalTime, weight, mxStock: 0, whStock: 0
+});
+
+// 06:30 falls before the default 07:00 day boundary, so it counts toward 03-03.
+const FIXTURE: TruckData[] = [
+  truck('T1', 'Coal', '2025-03-03 08:00', 60, 20000),
+  truck('T2', 'Sand', '2025-03-03 09:30', 30, 10000),
+  truck('T3', 'Coal', '2025-03-04 06:30', 45, 15000),
+  truck('T4', 'Coal', '2025-03-04 10:00', 300, 25000)
+];
+
+const flowWith = (counts: Record<number, number>) =>
+  Array.from({ length: 24 }, (_, h) => ({ hour: `${h}h`, count: counts[h] || 0, count_s0: counts[h] || 0 }));
+
+// Thirty days of five trucks each, one very slow truck per day.
+const largeFixture = (): TruckData[] => Array.from({ length: 30 }, (_, d) => {
+  const date = `2025-04-${String(d + 1).padStart(2, '0')}`;
+  return [
+    ...[0, 1, 2, 3].map(i => truck(`K${d}-${i}`, i % 2 ? 'Sand' : 'Coal', `${date} ${String(8 + i).padStart(2, '0')}:00`, 40 + i, 20000)),
+    truck(`S${d}`, 'Gravel', `${date} 14:00`, 400 + d, 18000)
+  ];
+}).flat();
+
+describe('buildAnalysisSummary', () => {
+  it('builds the exact payload for a fixed fixture', () => {
+    expect(buildAnalysisSummary(FIXTURE)).toEqual({
+      dayBoundary: '07:00',
+      shifts: [{ name: 'A', start: '07:00', end: '07:00' }],
+      rangeSummary: {
+        totalTons: 70,
+        totalCounts: 4,
+        totalTime: 435,
+        avgTonsPerDay: 35,
+        avgCountsPerDay: 2,
+        avgTotalWorkTimePerDay: 218,
+        avgEff: 109,
+        days: 2
+      },
+      timeline: [
+        { date: '2025-03-03', tons: 45, counts: 3, time: 135, avgTime: 45, counts_s0: 3, tons_s0: 45 },
+        { date: '2025-03-04', tons: 25, counts: 1, time: 300, avgTime: 300, counts_s0: 1, tons_s0: 25 }
+      ],
+      pareto: [
+        { name: 'Coal', tons: 60, counts: 3, time: 405, share: 85.7, percentage: 86, abc: 'A' },
+        { name: 'Sand', tons: 10, counts: 1, time: 30, share: 14.3, percentage: 100, abc: 'B' }
+      ],
+      flow: flowWith({ 6: 1, 8: 1, 9: 1, 10: 1 }),
+      outliers: {
+        threshold: 238,
+        items: [{ truckNo: 'T4', matName: 'Coal', arrivalTime: '2025-03-04 10:00', totalTime: 300, tons: 25 }]
+      },
+      omitted: { timelineDays: 0, outliers: 0 }
+    });
+  });
+
+  it('caps outliers at maxOutliers and counts the rest as omitted', () => {
+    const summary = buildAnalysisSummary(largeFixture(), { maxOutliers: 10, tokenBudget: 100000 });
+    expect(summary.outliers.items).toHaveLength(10);
+    expect(summary.outliers.items[0].truckNo).toBe('S29');
+    expect(summary.omitted).toEqual({ timelineDays: 0, outliers: 20 });
+  });
+
+  it('trims outliers before timeline days to fit the budget', () => {
+    const full = buildAnalysisSummary(largeFixture(), { tokenBudget: 100000 });
+    const budget = estimateTokens(full) - 200;
+    const summary = buildAnalysisSummary(largeFixture(), { tokenBudget: budget });
+
+    expect(estimateTokens(summary)).toBeLessThanOrEqual(budget);
+    expect(summary.timeline).toHaveLength(30);
+    expect(summary.outliers.items.length).toBeLessThan(15);
+    expect(summary.omitted.outliers).toBe(30 - summary.outliers.items.length);
+  });
+
+  it('drops the oldest days once outliers reach their floor, and stays within budget', () => {
+    const full = buildAnalysisSummary(largeFixture(), { tokenBudget: 100000 });
+    const budget = estimateTokens({ ...full, timeline: full.timeline.slice(15), outliers: { ...full.outliers, items: full.outliers.items.slice(0, 3) } });
+    const summary = buildAnalysisSummary(largeFixture(), { tokenBudget: budget });
+
+    expect(estimateTokens(summary)).toBeLessThanOrEqual(budget);
+    expect(summary.outliers.items).toHaveLength(3);
+    expect(summary.timeline.length).toBeLessThan(30);
+    expect(summary.timeline[summary.timeline.length - 1].date).toBe('2025-04-30');
+    expect(summary.omitted.timelineDays).toBe(30 - summary.timeline.length);
+    // Totals still describe the whole range.
+    expect(summary.rangeSummary.days).toBe(30);
+  });
+
+  it('goes below the floors rather than exceed the budget', () => {
+    const full = buildAnalysisSummary(largeFixture(), { tokenBudget: 100000 });
+    const fixed = estimateTokens({ ...full, timeline: [], outliers: { ...full.outliers, items: [] } });
+    const budget = fixed + 60;
+    const summary = buildAnalysisSummary(largeFixture(), { tokenBudget: budget });
+
+    expect(estimateTokens(summary)).toBeLessThanOrEqual(budget);
+    expect(summary.outliers.items.length).toBeLessThan(3);
+    expect(summary.timeline.length).toBeLessThan(7);
+  });
+});
+
+describe('analyzeLogisticsData', () => {
+  it('sends the summary payload unchanged to the model', async () => {
+    const summary = buildAnalysisSummary(FIXTURE);
+    const model = vi.spyOn(INSIGHT_MODELS, 'gemini').mockResolvedValue('- ok');
+
+    await expect(analyzeLogisticsData(summary, 'en', 'gemini')).resolves.toBe('- ok');
+    expect(model).toHaveBeenCalledWith({ prompt: buildInsightPrompt(summary, 'en'), summary, language: 'en' });
+    expect(buildInsightPrompt(summary, 'en')).toContain(JSON.stringify(summary));
+    model.mockRestore();
+  });
+
+  it('lets model failures reach the caller', async () => {
+    const model = vi.spyOn(INSIGHT_MODELS, 'gemini').mockRejectedValue(new Error('offline'));
+    await expect(analyzeLogisticsData(buildAnalysisSummary(FIXTURE), 'en', 'gemini')).rejects.toThrow('offline');
+    model.mockRestore();
+  });
+});
@@ -0,0 +1,121 @@
+import { TruckData, TimelinePoint, RangeSummary, ParetoItem, FlowData, ShiftCalendar } from './types.ts';
+import { DEFAULT_SHIFT_CALENDAR } from './constants.ts';
+import { getDayBoundary, getShiftHours, formatClock } from './shifts.ts';
+import { buildTimelineData, buildRangeSummary, buildParetoData, buildFlowData } from './analytics.ts';
+import { quantile } from './utils.ts';
+
+// --- AI Analysis Payload ---
+// The model sees the same aggregates as the chart cards instead of a raw row sample.
+
+export const DEFAULT_TOKEN_BUDGET = 3000;
+const DEFAULT_MAX_OUTLIERS = 15;
+const MIN_OUTLIERS = 3;
+const MIN_TIMELINE_DAYS = 7;
+
+export interface OutlierTruck {
+  truckNo: string;
+  matName: string;
+  arrivalTime: string;
+  totalTime: number;
+  tons: number;
+}
+
+export interface AnalysisSummary {
+  // Shift day rollover (HH:mm) and the shifts behind the *_s0, *_s1, ... keys
+  dayBoundary: string;
+  shifts: { name: string; start: string; end: string }[];
+  rangeSummary: RangeSummary;
+  timeline: TimelinePoint[];
+  pareto: ParetoItem[];
+  flow: FlowData['hrs'];
+  outliers: {
+    // Tukey upper fence (Q3 + 1.5 × IQR) on totalTime, in minutes
+    threshold: number;
+    items: OutlierTruck[];
+  };
+  // How much was cut to fit the token budget
+  omitted: {
+    timelineDays: number;
+    outliers: number;
+  };
+}
+
+export interface SummaryOptions {
+  calendar?: ShiftCalendar;
+  tokenBudget?: number;
+  maxOutliers?: number;
+}
+
+/**
+ * Rough token estimate for a JSON payload (~4 characters per token).
+ */
+export function estimateTokens(value: unknown): number {
+  return Math.ceil(JSON.stringify(value).length / 4);
+}
+
+/**
+ * Trucks whose totalTime sits above the Tukey upper fence, slowest first.
+ */
+export function findDurationOutliers(data: TruckData[]): { threshold: number; items: OutlierTruck[] } {
+  const times = data.map(r => r.totalTime).filter(v => v > 0).sort((a, b) => a - b);
+  if (times.length === 0) return { threshold: 0, items: [] };
+  const q1 = quantile(times, 0.25);
+  const q3 = quantile(times, 0.75);
+  const threshold = Math.round(q3 + 1.5 * (q3 - q1));
+  const items = data
+    .filter(r => r.totalTime > threshold)
+    .sort((a, b) => b.totalTime - a.totalTime || a.arrivalTime.localeCompare(b.arrivalTime))
+    .map(r => ({
+      truckNo: r.truckNo,
+      matName: r.matName,
+      arrivalTime: r.arrivalTime,
+      totalTime: r.totalTime,
+      tons: parseFloat((r.weight / 1000).toFixed(1))
+    }));
+  return { threshold, items };
+}
+
+/**
+ * Builds the payload sent to the insight model. Outliers are trimmed first,
+ * then the oldest timeline days, each down to a floor; if that is still too
+ * big both go entirely. Only the fixed sections (range summary, shifts,
+ * Pareto, flow) can leave a payload over a budget smaller than themselves.
+ */
+export function buildAnalysisSummary(data: TruckData[], options: SummaryOptions = {}): AnalysisSummary {
+  const tokenBudget = options.tokenBudget ?? DEFAULT_TOKEN_BUDGET;
+  const maxOutliers = options.maxOutliers ?? DEFAULT_MAX_OUTLIERS;
+  const calendar = options.calendar ?? DEFAULT_SHIFT_CALENDAR;
+
+  const timeline = buildTimelineData(data, calendar);
+  const outliers = findDurationOutliers(data);
+  const summary: AnalysisSummary = {
+    dayBoundary: formatClock(getDayBoundary(calendar)),
+    shifts: calendar.shifts.map((s, i) => ({ name: s.name, ...getShiftHours(calendar, i) })),
+    rangeSummary: buildRangeSummary(timeline),
+    timeline,
+    pareto: buildParetoData(data).items,
+    flow: buildFlowData(data, calendar).hrs,
+    outliers: { threshold: outliers.threshold, items: outliers.items.slice(0, maxOutliers) },
+    omitted: { timelineDays: 0, outliers: Math.max(0, outliers.items.length - maxOutliers) }
+  };
+
+  const dropOutlier = () => {
+    summary.outliers.items = summary.outliers.items.slice(0, -1);
+    summary.omitted.outliers++;
+  };
+  const dropOldestDay = () => {
+    summary.timeline = summary.timeline.slice(1);
+    summary.omitted.timelineDays++;
+  };
+
+  while (estimateTokens(summary) > tokenBudget) {
+    const outlierCount = summary.outliers.items.length;
+    const dayCount = summary.timeline.length;
+    if (outlierCount > MIN_OUTLIERS) dropOutlier();
+    else if (dayCount > MIN_TIMELINE_DAYS) dropOldestDay();
+    else if (outlierCount > 0) dropOutlier();
+    else if (dayCount > 0) dropOldestDay();
+    else break; // only the fixed sections are left
+  }
+  return summary;
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { countUnseen, evaluateAlerts, toAlertEvents, AlertContext, MonitorSnapshot } from './alerts.ts';
+import { DEFAULT_SETTINGS } from './constants.ts';
+import { AlertEvent, TruckData } from './types.ts';
+
+// Benchmark 60 minutes: 75 minutes is an 80% rate, 120 minutes is 50%.
+const truck = (truckNo: string, totalTime: number, endTime = '2025-03-04 09:00', arrivalTime = '2025-03-04 08:00'): TruckData => ({
+  truckNo, matName: 'Coal', arrivalTime, endTime, totalTime, weight: 20000, mxStock: 0, whStock: 0
+});
+
+const ctx = (overrides: Partial<AlertContext> = {}): AlertContext => ({
+  now: new Date(2025, 2, 4, 10, 0),
+  rules: DEFAULT_SETTINGS.alertRules,
+  threshold: 70,
+  benchmarkTime: 60,
+  materialBenchmarks: {},
+  ...overrides
+});
+
+const EMPTY: MonitorSnapshot = { lowRate: new Set(), overdue: new Set(), avgRate: null };
+
+describe('evaluateAlerts', () => {
+  it('stays quiet on the first snapshot', () => {
+    const { snapshot, alerts } = evaluateAlerts(null, [truck('SLOW', 120)], ctx());
+    expect(alerts).toEqual([]);
+    expect([...snapshot.lowRate]).toEqual(['SLOW|2025-03-04 08:00']);
+    expect(snapshot.avgRate).toBe(50);
+  });
+
+  it('raises a truck that drops below the threshold, not one at it', () => {
+    const rows = [truck('SLOW', 120), truck('EDGE', 86), truck('OK', 75)];
+    const { alerts } = evaluateAlerts(EMPTY, rows, ctx());
+    expect(alerts.filter(a => a.kind === 'lowRate')).toEqual([{ kind: 'lowRate', value: 50, limit: 70, truckNo: 'SLOW', material: 'Coal' }]);
+  });
+
+  it('reports a truck that stays slow only once', () => {
+    const first = evaluateAlerts(EMPTY, [truck('SLOW', 120)], ctx());
+    const second = evaluateAlerts(first.snapshot, [truck('SLOW', 120), truck('NEW', 150)], ctx());
+    expect(second.alerts.filter(a => a.kind === 'lowRate').map(a => a.truckNo)).toEqual(['NEW']);
+  });
+
+  it('raises an in-progress truck once it passes the overdue limit', () => {
+    const rows = [truck('OPEN', 0, '')];
+    expect(evaluateAlerts(EMPTY, rows, ctx({ now: new Date(2025, 2, 4, 10, 0) })).alerts).toEqual([]);
+    const late = evaluateAlerts(EMPTY, rows, ctx({ now: new Date(2025, 2, 4, 10, 1) }));
+    expect(late.alerts).toEqual([{ kind: 'overdue', value: 121, limit: 120, truckNo: 'OPEN', material: 'Coal' }]);
+    expect(evaluateAlerts(late.snapshot, rows, ctx({ now: new Date(2025, 2, 4, 10, 30) })).alerts).toEqual([]);
+  });
+
+  it('raises the day average only when it crosses the threshold', () => {
+    const good = evaluateAlerts(EMPTY, [truck('A', 60)], ctx());
+    const bad = evaluateAlerts(good.snapshot, [truck('A', 60), truck('B', 300)], ctx({ rules: { ...DEFAULT_SETTINGS.alertRules, lowRate: false } }));
+    expect(bad.alerts).toEqual([{ kind: 'avgRate', value: 60, limit: 70 }]);
+    expect(evaluateAlerts(bad.snapshot, [truck('A', 60), truck('B', 300)], ctx()).alerts.filter(a => a.kind === 'avgRate')).toEqual([]);
+  });
+
+  it('drops alerts for disabled rules but keeps tracking them', () => {
+    const { snapshot, alerts } = evaluateAlerts(EMPTY, [truck('SLOW', 120)], ctx({ rules: { ...DEFAULT_SETTINGS.alertRules, enabled: false } }));
+    expect(alerts).toEqual([]);
+    expect(snapshot.lowRate.size).toBe(1);
+  });
+});
+
+describe('toAlertEvents', () => {
+  const drafts = [{ kind: 'lowRate' as const, value: 50, limit: 70, truckNo: 'SLOW' }, { kind: 'avgRate' as const, value: 60, limit: 70 }];
+
+  it('stamps each draft with the refresh time', () => {
+    expect(toAlertEvents(drafts, 1000, 0)).toEqual([
+      { ...drafts[0], id: '1000-0', at: 1000, silenced: false },
+      { ...drafts[1], id: '1000-1', at: 1000, silenced: false }
+    ]);
+  });
+
+  it('marks alerts raised while snoozed as silenced', () => {
+    expect(toAlertEvents(drafts, 1000, 1001).every(e => e.silenced)).toBe(true);
+    expect(toAlertEvents(drafts, 1000, 1000).some(e => e.silenced)).toBe(false);
+  });
+});
+
+describe('countUnseen', () => {
+  const event = (at: number): AlertEvent => ({ id: String(at), kind: 'lowRate', at, value: 50, limit: 70, silenced: false });
+
+  it('counts events newer than the last one seen', () => {
+    expect(countUnseen([event(30), event(20), event(10)], 20)).toBe(1);
+    expect(countUnseen([event(30), event(20), event(10)], 0)).toBe(3);
+  });
+
+  it('keeps counting once the history is capped', () => {
+    const capped = Array.from({ length: 200 }, (_, i) => event(1000 - i));
+    const next = [event(2000), ...capped].slice(0, 200);
+    expect(countUnseen(next, 1000)).toBe(1);
+  });
+
+  it('counts new events after the history was cleared', () => {
+    expect(countUnseen([], 500)).toBe(0);
+    expect(countUnseen([event(600)], 500)).toBe(1);
+  });
+});
@@ -0,0 +1,114 @@
+import { AlertEvent, AlertKind, AlertRules, TruckData } from './types.ts';
+import { getMaterialBenchmark, getTruckRate } from './analytics.ts';
+import { isCompletedTrip } from './filters.ts';
+import { truckKey } from './rowDiff.ts';
+import { smartParseDate } from './utils.ts';
+
+// --- Live Alerts ---
+// Each refresh is reduced to a snapshot of the current shift day. Alerts fire
+// on transitions between consecutive snapshots, so a truck that stays slow is
+// reported once and the first load after opening the page stays quiet.
+
+export const ALERT_HISTORY_LIMIT = 200;
+export const SNOOZE_OPTIONS = [15, 60, 240]; // minutes
+
+export interface MonitorSnapshot {
+  lowRate: Set<string>;   // truck keys below the threshold
+  overdue: Set<string>;   // truck keys past the overdue limit
+  avgRate: number | null; // null while the day has no trucks
+}
+
+export interface AlertContext {
+  now: Date;              // plant wall clock, same convention as parsed CSV times
+  rules: AlertRules;
+  threshold: number;
+  benchmarkTime: number;
+  materialBenchmarks: Record<string, number>;
+}
+
+export type AlertDraft = Omit<AlertEvent, 'id' | 'at' | 'silenced'>;
+
+/**
+ * Snapshot of `rows` (the trucks of the current shift day) plus the alerts
+ * raised since `prev`. Without a previous snapshot nothing is raised.
+ */
+export function evaluateAlerts(prev: MonitorSnapshot | null, rows: TruckData[], ctx: AlertContext): { snapshot: MonitorSnapshot; alerts: AlertDraft[] } {
+  const snapshot: MonitorSnapshot = { lowRate: new Set(), overdue: new Set(), avgRate: null };
+  const alerts: AlertDraft[] = [];
+  let rateSum = 0;
+
+  rows.forEach(r => {
+    const key = truckKey(r);
+    const benchmark = getMaterialBenchmark(r.matName, ctx.materialBenchmarks, ctx.benchmarkTime);
+    const rate = getTruckRate(r.totalTime, benchmark);
+    rateSum += rate;
+
+    if (rate < ctx.threshold) {
+      snapshot.lowRate.add(key);
+      if (prev && !prev.lowRate.has(key)) alerts.push({ kind: 'lowRate', value: rate, limit: ctx.threshold, truckNo: r.truckNo, material: r.matName });
+    }
+
+    const arrival = smartParseDate(r.arrivalTime);
+    const limit = Math.round(benchmark * ctx.rules.overdueFactor);
+    if (!isCompletedTrip(r) && arrival) {
+      const elapsed = Math.floor((ctx.now.getTime() - arrival.getTime()) / 60000);
+      if (elapsed > limit) {
+        snapshot.overdue.add(key);
+        if (prev && !prev.overdue.has(key)) alerts.push({ kind: 'overdue', value: elapsed, limit, truckNo: r.truckNo, material: r.matName });
+      }
+    }
+  });
+
+  if (rows.length > 0) {
+    snapshot.avgRate = Math.round(rateSum / rows.length);
+    const wasAbove = prev && (prev.avgRate === null || prev.avgRate >= ctx.threshold);
+    if (wasAbove && snapshot.avgRate < ctx.threshold) alerts.push({ kind: 'avgRate', value: snapshot.avgRate, limit: ctx.threshold });
+  }
+
+  const enabled: Record<AlertKind, boolean> = { lowRate: ctx.rules.lowRate, overdue: ctx.rules.overdue, avgRate: ctx.rules.avgRate };
+  return { snapshot, alerts: ctx.rules.enabled ? alerts.filter(a => enabled[a.kind]) : [] };
+}
+
+/**
+ * Stamps the drafts of one refresh as history events. Alerts raised while
+ * snoozed are still logged, only marked silenced.
+ */
+export function toAlertEvents(drafts: AlertDraft[], at: number, snoozedUntil: number): AlertEvent[] {
+  const silenced = snoozedUntil > at;
+  return drafts.map((a, i) => ({ ...a, id: `${at}-${i}`, at, silenced }));
+}
+
+/**
+ * Events newer than the newest one the user has seen. Counting by time rather
+ * than by length keeps working once the history is capped or cleared.
+ */
+export function countUnseen(history: AlertEvent[], seenAt: number): number {
+  return history.filter(a => a.at > seenAt).length;
+}
+
+/**
+ * Short two-tone chime through Web Audio, so no sound asset has to ship.
+ * Browsers keep the context suspended until the page has had a user gesture.
+ */
+export function playAlertTone(): void {
+  const AudioCtx = window.AudioContext || (window as Window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  if (!AudioCtx) return;
+  const ctx = new AudioCtx();
+  [880, 660].forEach((freq, i) => {
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    const start = ctx.currentTime + i * 0.25;
+    osc.frequency.value = freq;
+    gain.gain.setValueAtTime(0.2, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + 0.22);
+    osc.connect(gain).connect(ctx.destination);
+    osc.start(start);
+    osc.stop(start + 0.22);
+  });
+  setTimeout(() => ctx.close(), 1000);
+}
+
+export function showAlertNotification(title: string, body: string): void {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+  new Notification(title, { body, tag: 'logistics-alert' });
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { buildParetoData, selectDrillRows } from './analytics.ts';
+import { TruckData } from './types.ts';
+
+const truck = (truckNo: string, arrivalTime: string, matName = 'Coal', weight = 20000): TruckData => ({
+  truckNo, matName, arrivalTime, endTime: '', totalTime: 30, weight, mxStock: 0, whStock: 0
+});
+
+describe('selectDrillRows', () => {
+  // 2025-03-03 is a Monday.
+  const rows = [
+    truck('MON8', '2025-03-03 08:10'),
+    truck('TUE8', '2025-03-04 08:40', 'Sand'),
+    truck('TUE9', '2025-03-04 09:05'),
+    truck('NEXT-MON8', '2025-03-10 08:00')
+  ];
+  const ids = (target: Parameters<typeof selectDrillRows>[1]) => selectDrillRows(rows, target).map(r => r.truckNo);
+
+  it('matches an hour across all weekdays', () => {
+    expect(ids({ kind: 'hour', value: '8h' })).toEqual(['MON8', 'TUE8', 'NEXT-MON8']);
+  });
+
+  it('narrows a heatmap cell to its weekday, counting from Monday', () => {
+    expect(ids({ kind: 'hour', value: '8h', weekday: 0 })).toEqual(['MON8', 'NEXT-MON8']);
+    expect(ids({ kind: 'hour', value: '8h', weekday: 1 })).toEqual(['TUE8']);
+    expect(ids({ kind: 'hour', value: '8h', weekday: 6 })).toEqual([]);
+  });
+
+  it('narrows a day to one material', () => {
+    expect(ids({ kind: 'day', value: '2025-03-04' })).toEqual(['TUE8', 'TUE9']);
+    expect(ids({ kind: 'day', value: '2025-03-04', material: 'Sand' })).toEqual(['TUE8']);
+  });
+});
+
+describe('buildParetoData', () => {
+  // 50 / 30 / 10 / 6 / 4 tons: A, A, B, B, C by the cumulative share before each.
+  const rows = [['Coal', 50], ['Sand', 30], ['Gravel', 10], ['Lime', 6], ['Slag', 4]]
+    .map(([mat, tons], i) => truck(`T${i}`, '2025-03-03 08:00', mat as string, (tons as number) * 1000));
+
+  it('classes every material when all fit in the top N', () => {
+    const pareto = buildParetoData(rows, 'tons', 10);
+    expect(pareto.items.map(p => [p.name, p.abc, p.percentage])).toEqual([
+      ['Coal', 'A', 50], ['Sand', 'A', 80], ['Gravel', 'B', 90], ['Lime', 'B', 96], ['Slag', 'C', 100]
+    ]);
+    expect(pareto.classCounts).toEqual({ A: 2, B: 2, C: 1 });
+  });
+
+  it('leaves the Others bucket unclassed', () => {
+    const pareto = buildParetoData(rows, 'tons', 2);
+    const others = pareto.items[pareto.items.length - 1];
+    expect(others).toEqual({ name: '', tons: 20, counts: 3, time: 90, share: 20, percentage: 100, others: 3 });
+    expect(others.abc).toBeUndefined();
+    expect(pareto.topTotal).toBe(80);
+    expect(pareto.total).toBe(100);
+  });
+
+  it('counts the classes of materials folded into Others', () => {
+    expect(buildParetoData(rows, 'tons', 2).classCounts).toEqual({ A: 2, B: 2, C: 1 });
+    expect(buildParetoData(rows, 'tons', 1).classCounts).toEqual({ A: 2, B: 2, C: 1 });
+  });
+});
@@ -0,0 +1,281 @@
+import { TruckData, TimelinePoint, RangeSummary, ParetoData, ParetoItem, ParetoMetric, ParetoClass, FlowData, InventoryPoint, UtilizationData, ShiftCalendar, DrillTarget, WeekdayHourRow, DurationStats, CarrierRule } from './types.ts';
+import { DEFAULT_SHIFT_CALENDAR } from './constants.ts';
+import { getShiftDate, getShiftIndex } from './shifts.ts';
+import { resolveCarrier } from './carriers.ts';
+import { smartParseDate, quantile } from './utils.ts';
+
+// --- Dashboard Aggregations ---
+// Pure builders behind the chart cards, shared with the AI summary payload.
+
+/**
+ * Buckets rows by shift date and totals tons, truck counts and work time per day,
+ * with counts and tons also split per shift.
+ */
+export function buildTimelineData(data: TruckData[], calendar: ShiftCalendar = DEFAULT_SHIFT_CALENDAR): TimelinePoint[] {
+  const map: Record<string, any> = {};
+  data.forEach(r => {
+    const d = smartParseDate(r.arrivalTime);
+    if (d) {
+      const k = getShiftDate(d, calendar);
+      if (!map[k]) {
+        map[k] = { date: k, tons: 0, counts: 0, time: 0 };
+        calendar.shifts.forEach((_, i) => { map[k][`counts_s${i}`] = 0; map[k][`tons_s${i}`] = 0; });
+      }
+      const s = getShiftIndex(d, calendar);
+      map[k].tons += r.weight / 1000;
+      map[k].counts++;
+      map[k].time += r.totalTime;
+      map[k][`tons_s${s}`] += r.weight / 1000;
+      map[k][`counts_s${s}`]++;
+    }
+  });
+  return Object.values(map).map((v: any) => {
+    calendar.shifts.forEach((_, i) => { v[`tons_s${i}`] = parseFloat(v[`tons_s${i}`].toFixed(1)); });
+    return { ...v, tons: parseFloat(v.tons.toFixed(1)), avgTime: Math.round(v.time / v.counts) };
+  }).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function buildRangeSummary(timelineData: TimelinePoint[]): RangeSummary {
+  const totalTons = timelineData.reduce((a, b) => a + b.tons, 0);
+  const totalCounts = timelineData.reduce((a, b) => a + b.counts, 0);
+  const totalTime = timelineData.reduce((a, b) => a + b.time, 0);
+  const days = timelineData.length || 1;
+  const avgTotalWorkTimePerDay = totalTime / days;
+  
+  return {
+    totalTons: parseFloat(totalTons.toFixed(1)),
+    totalCounts,
+    totalTime,
+    avgTonsPerDay: parseFloat((totalTons / days).toFixed(1)),
+    avgCountsPerDay: parseFloat((totalCounts / days).toFixed(1)),
+    avgTotalWorkTimePerDay: Math.round(avgTotalWorkTimePerDay),
+    avgEff: totalCounts > 0 ? Math.round(totalTime / totalCounts) : 0,
+    days
+  };
+}
+
+// Cumulative-share cut-offs of the ABC classes: A up to 80%, B up to 95%.
+export const PARETO_CLASS_LIMITS = { A: 80, B: 95 };
+
+/**
+ * Materials ranked by the chosen metric. Bars past `topN` fold into one
+ * "Others" bar, and shares are taken against the range total so the 80% line
+ * means what it says. A material's class follows the cumulative share before
+ * it, so the largest one is always A. Every material is classed and counted,
+ * including those folded into "Others"; the bucket itself mixes classes and has none.
+ */
+export function buildParetoData(data: TruckData[], metric: ParetoMetric = 'tons', topN = 10): ParetoData {
+  const stats: Record<string, { tons: number; counts: number; time: number }> = {};
+  data.forEach(r => {
+    const s = stats[r.matName] = stats[r.matName] || { tons: 0, counts: 0, time: 0 };
+    s.tons += r.weight / 1000;
+    s.counts++;
+    s.time += r.totalTime;
+  });
+  const sorted = Object.entries(stats).sort((a, b) => b[1][metric] - a[1][metric]);
+  const total = sorted.reduce((a, [, s]) => a + s[metric], 0);
+  const share = (v: number) => (total > 0 ? (v / total) * 100 : 0);
+
+  const classCounts: ParetoData['classCounts'] = { A: 0, B: 0, C: 0 };
+  let acc = 0;
+  const ranked = sorted.map(([name, s]) => {
+    const before = share(acc);
+    const abc: ParetoClass = before < PARETO_CLASS_LIMITS.A ? 'A' : before < PARETO_CLASS_LIMITS.B ? 'B' : 'C';
+    classCounts[abc]++;
+    acc += s[metric];
+    return { name, ...s, abc, cumulative: share(acc) };
+  });
+
+  const toItem = (r: Omit<typeof ranked[number], 'abc'> & { abc?: ParetoClass }, others?: number): ParetoItem => ({
+    name: r.name,
+    tons: parseFloat(r.tons.toFixed(1)),
+    counts: r.counts,
+    time: Math.round(r.time),
+    share: parseFloat(share(r[metric]).toFixed(1)),
+    percentage: Math.round(r.cumulative),
+    ...(r.abc ? { abc: r.abc } : {}),
+    ...(others !== undefined ? { others } : {})
+  });
+
+  const top = ranked.slice(0, topN);
+  const items = top.map(r => toItem(r));
+  const rest = ranked.slice(topN);
+  if (rest.length > 0) {
+    const sum = (k: 'tons' | 'counts' | 'time') => rest.reduce((a, r) => a + r[k], 0);
+    items.push(toItem({ name: '', tons: sum('tons'), counts: sum('counts'), time: sum('time'), cumulative: 100 }, rest.length));
+  }
+  const topTotal = top.reduce((a, r) => a + r[metric], 0);
+  return { items, metric, total: parseFloat(total.toFixed(1)), topTotal: parseFloat(topTotal.toFixed(1)), classCounts };
+}
+
+export function buildFlowData(data: TruckData[], calendar: ShiftCalendar = DEFAULT_SHIFT_CALENDAR): FlowData {
+  const hrs = Array.from({length:24}, (_,i) => {
+    const h: FlowData['hrs'][number] = { hour: `${i}h`, count: 0 };
+    calendar.shifts.forEach((_, s) => { h[`count_s${s}`] = 0; });
+    return h;
+  });
+  data.forEach(r => {
+    const d = smartParseDate(r.arrivalTime);
+    if (d) {
+      hrs[d.getHours()].count++;
+      hrs[d.getHours()][`count_s${getShiftIndex(d, calendar)}`]++;
+    }
+  });
+  const amActive = hrs.slice(0, 12).filter(h => h.count > 0).map(h => parseInt(h.hour));
+  const pmActive = hrs.slice(12, 24).filter(h => h.count > 0).map(h => parseInt(h.hour));
+  const amStr = amActive.length > 0 ? `AM: ${Math.min(...amActive)}h~${Math.max(...amActive)}h` : "AM: --";
+  const pmStr = pmActive.length > 0 ? `PM: ${Math.min(...pmActive)}h~${Math.max(...pmActive)}h` : "PM: --";
+  return { hrs, amStr, pmStr };
+}
+
+/**
+ * Arrivals per weekday and clock hour over the whole range, Monday first.
+ */
+export function buildWeekdayHourData(data: TruckData[]): WeekdayHourRow[] {
+  const rows: WeekdayHourRow[] = Array.from({ length: 7 }, (_, weekday) => ({ weekday, hours: new Array(24).fill(0), total: 0 }));
+  data.forEach(r => {
+    const d = smartParseDate(r.arrivalTime);
+    if (!d) return;
+    const row = rows[(d.getDay() + 6) % 7];
+    row.hours[d.getHours()]++;
+    row.total++;
+  });
+  return rows;
+}
+
+/**
+ * Five-number summary (Tukey whiskers) of work time per material, most spread out first.
+ * In-progress trucks (zero time) are left out.
+ */
+export function buildDurationStats(data: TruckData[], benchmarks: Record<string, number>, fallback: number): DurationStats[] {
+  const times: Record<string, number[]> = {};
+  data.forEach(r => {
+    if (r.totalTime > 0) (times[r.matName] = times[r.matName] || []).push(r.totalTime);
+  });
+  return Object.entries(times).map(([name, list]) => {
+    const sorted = list.sort((a, b) => a - b);
+    const q1 = quantile(sorted, 0.25), median = quantile(sorted, 0.5), q3 = quantile(sorted, 0.75);
+    const fence = 1.5 * (q3 - q1);
+    const inside = sorted.filter(v => v >= q1 - fence && v <= q3 + fence);
+    const round = (v: number) => parseFloat(v.toFixed(1));
+    return {
+      name,
+      count: sorted.length,
+      range: [inside[0], inside[inside.length - 1]] as [number, number],
+      q1: round(q1),
+      median: round(median),
+      q3: round(q3),
+      mean: round(sorted.reduce((a, b) => a + b, 0) / sorted.length),
+      outliers: sorted.filter(v => v < q1 - fence || v > q3 + fence),
+      benchmark: getMaterialBenchmark(name, benchmarks, fallback)
+    };
+  }).sort((a, b) => (b.q3 - b.q1) - (a.q3 - a.q1));
+}
+
+/**
+ * Materials that carry any stock readings, in name order.
+ */
+export function getStockMaterials(data: TruckData[]): string[] {
+  return Array.from(new Set(data.filter(r => r.mxStock || r.whStock).map(r => r.matName))).sort();
+}
+
+/**
+ * Per shift day inbound tons for one material, with the last mixer and
+ * warehouse stock readings taken that day.
+ */
+export function buildInventoryData(data: TruckData[], material: string, calendar: ShiftCalendar = DEFAULT_SHIFT_CALENDAR): InventoryPoint[] {
+  const map: Record<string, InventoryPoint & { at: number }> = {};
+  data.forEach(r => {
+    if (r.matName !== material) return;
+    const d = smartParseDate(r.arrivalTime);
+    if (!d) return;
+    const k = getShiftDate(d, calendar);
+    if (!map[k]) map[k] = { date: k, tons: 0, mxStock: 0, whStock: 0, at: -Infinity };
+    map[k].tons += r.weight / 1000;
+    if (d.getTime() >= map[k].at) {
+      map[k].at = d.getTime();
+      map[k].mxStock = r.mxStock;
+      map[k].whStock = r.whStock;
+    }
+  });
+  return Object.values(map)
+    .map(({ at, ...v }) => ({ ...v, tons: parseFloat(v.tons.toFixed(1)) }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Daily utilisation against the target: summed work time per shift day
+ * divided by targetHours × 60, as a percentage.
+ */
+export function buildUtilizationData(timelineData: TimelinePoint[], targetHours: number): UtilizationData {
+  const targetMinutes = targetHours * 60;
+  const days = timelineData.map(p => {
+    const utilization = targetMinutes > 0 ? Math.round((p.time / targetMinutes) * 100) : 0;
+    return { date: p.date, time: p.time, utilization, met: utilization >= 100 };
+  });
+  const totalTime = timelineData.reduce((a, b) => a + b.time, 0);
+  return {
+    days,
+    targetMinutes,
+    avgUtilization: targetMinutes > 0 && days.length > 0 ? Math.round((totalTime / (targetMinutes * days.length)) * 100) : 0,
+    daysMet: days.filter(d => d.met).length
+  };
+}
+
+/**
+ * Benchmark minutes for a material: its own entry when set, else the global value.
+ */
+export function getMaterialBenchmark(material: string, benchmarks: Record<string, number>, fallback: number): number {
+  const own = benchmarks[material];
+  return own > 0 ? own : fallback;
+}
+
+/**
+ * Median work time per material, rounded to whole minutes, as suggested
+ * benchmarks. Materials with fewer than `minSamples` finished trucks are skipped.
+ */
+export function deriveMaterialBenchmarks(data: TruckData[], minSamples = 5): Record<string, number> {
+  const times: Record<string, number[]> = {};
+  data.forEach(r => {
+    if (r.totalTime > 0) (times[r.matName] = times[r.matName] || []).push(r.totalTime);
+  });
+  const out: Record<string, number> = {};
+  Object.entries(times).forEach(([mat, list]) => {
+    if (list.length >= minSamples) out[mat] = Math.round(quantile(list.sort((a, b) => a - b), 0.5));
+  });
+  return out;
+}
+
+/**
+ * Truck-weighted mean benchmark: the average work time the mix of materials
+ * in `data` should take. Equals the global value when no per-material entry applies.
+ */
+export function getExpectedAvgTime(data: TruckData[], benchmarks: Record<string, number>, fallback: number): number {
+  if (data.length === 0) return fallback;
+  const total = data.reduce((a, r) => a + getMaterialBenchmark(r.matName, benchmarks, fallback), 0);
+  return Math.round(total / data.length);
+}
+
+/**
+ * Unloading rate against the benchmark in percent, capped at 100.
+ * Trips without a recorded duration count as on target.
+ */
+export function getTruckRate(totalTime: number, benchmarkTime: number): number {
+  return totalTime > 0 ? Math.min(100, Math.round((benchmarkTime / totalTime) * 100)) : 100;
+}
+
+/**
+ * The rows behind one chart point, matched the same way the builders bucket them.
+ */
+export function selectDrillRows(data: TruckData[], target: DrillTarget, calendar: ShiftCalendar = DEFAULT_SHIFT_CALENDAR, carrierRules: CarrierRule[] = []): TruckData[] {
+  if (target.kind === 'material') return data.filter(r => r.matName === target.value);
+  if (target.kind === 'truck') return data.filter(r => r.truckNo === target.value);
+  if (target.kind === 'carrier') return data.filter(r => resolveCarrier(r.truckNo, carrierRules) === target.value);
+  return data.filter(r => {
+    if (target.material && r.matName !== target.material) return false;
+    const d = smartParseDate(r.arrivalTime);
+    if (!d) return false;
+    if (target.kind === 'day') return getShiftDate(d, calendar) === target.value;
+    return `${d.getHours()}h` === target.value && (target.weekday === undefined || (d.getDay() + 6) % 7 === target.weekday);
+  });
+}
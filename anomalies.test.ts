@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { findDayAnomalies, findTruckAnomalies } from './anomalies.ts';
+import { anomalyDrillTarget } from './AnomaliesPanel.tsx';
+import { TimelinePoint, TruckData } from './types.ts';
+
+const truck = (truckNo: string, totalTime: number, weight = 20000, arrivalTime = '2025-03-03 09:00'): TruckData => ({
+  truckNo, matName: 'Coal', arrivalTime, endTime: '', totalTime, weight, mxStock: 0, whStock: 0
+});
+
+const day = (date: string, counts: number): TimelinePoint => ({ date, tons: counts * 20, counts, time: 0, avgTime: 0 });
+
+describe('findTruckAnomalies', () => {
+  it('flags a slow truck in a varied group by robust z', () => {
+    const rows = [50, 55, 60, 58, 62, 57, 300].map((m, i) => truck(`T${i}`, m));
+    const found = findTruckAnomalies(rows).filter(a => a.kind === 'duration');
+    expect(found).toHaveLength(1);
+    expect(found[0]).toMatchObject({ direction: 'high', value: 300, median: 58, date: '2025-03-03', hour: 9, material: 'Coal' });
+    expect(found[0].truck?.truckNo).toBe('T6');
+  });
+
+  it('still flags an extreme value when most of the group is identical', () => {
+    const rows = [...Array.from({ length: 10 }, (_, i) => truck(`T${i}`, 60)), truck('SLOW', 600)];
+    const found = findTruckAnomalies(rows).filter(a => a.kind === 'duration');
+    expect(found).toHaveLength(1);
+    expect(found[0].truck?.truckNo).toBe('SLOW');
+    expect(found[0].median).toBe(60);
+    expect(found[0].score).toBeGreaterThan(3.5);
+  });
+
+  it('flags nothing when every value is the same', () => {
+    expect(findTruckAnomalies(Array.from({ length: 8 }, (_, i) => truck(`T${i}`, 60)))).toEqual([]);
+  });
+
+  it('skips groups smaller than five', () => {
+    expect(findTruckAnomalies([60, 60, 60, 900].map((m, i) => truck(`T${i}`, m)))).toEqual([]);
+  });
+});
+
+describe('findDayAnomalies', () => {
+  it('flags a quiet day among identical days', () => {
+    const timeline = [...['01', '02', '03', '04', '05', '06'].map(d => day(`2025-03-${d}`, 40)), day('2025-03-07', 2)];
+    const found = findDayAnomalies(timeline).filter(a => a.kind === 'dayCounts');
+    expect(found).toHaveLength(1);
+    expect(found[0]).toMatchObject({ direction: 'low', date: '2025-03-07', value: 2, median: 40 });
+  });
+});
+
+describe('anomalyDrillTarget', () => {
+  it('drills a truck anomaly to the truck and a day anomaly to the day', () => {
+    const rows = [...Array.from({ length: 10 }, (_, i) => truck(`T${i}`, 60)), truck('SLOW', 600)];
+    expect(anomalyDrillTarget(findTruckAnomalies(rows)[0])).toEqual({ kind: 'truck', value: 'SLOW' });
+    expect(anomalyDrillTarget({ kind: 'dayTons', direction: 'high', score: 5, value: 900, median: 400, date: '2025-03-07' })).toEqual({ kind: 'day', value: '2025-03-07' });
+  });
+});
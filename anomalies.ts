@@ -0,0 +1,122 @@
+import { TruckData, TimelinePoint, ShiftCalendar } from './types.ts';
+import { DEFAULT_SHIFT_CALENDAR } from './constants.ts';
+import { getShiftDate } from './shifts.ts';
+import { smartParseDate, quantile } from './utils.ts';
+
+// --- Anomaly Detection ---
+// Robust z-scores (Iglewicz & Hoaglin): z = 0.6745 · (x − median) / MAD.
+// Median and MAD ignore the outliers they are looking for, unlike mean and
+// standard deviation. Trucks are scored within their material, days against
+// the other days in the range. When more than half a group shares one value
+// the MAD is zero, so the mean absolute deviation stands in (z = (x − median) /
+// (1.2533 · MeanAD)) and a single extreme value is still flagged.
+
+export const ANOMALY_Z_THRESHOLD = 3.5;
+// Smaller groups give a MAD too unstable to judge by.
+const MIN_GROUP_SIZE = 5;
+const MAD_SCALE = 0.6745;
+const MEAN_AD_SCALE = 1.253314;
+
+export type AnomalyKind = 'duration' | 'weight' | 'dayCounts' | 'dayTons';
+
+export interface Anomaly {
+  kind: AnomalyKind;
+  direction: 'high' | 'low';
+  score: number;  // robust z, one decimal
+  value: number;
+  median: number;
+  date: string;   // shift date
+  hour?: number;  // arrival hour, for truck anomalies
+  material?: string;
+  truck?: TruckData;
+}
+
+interface RobustStats {
+  median: number;
+  scale: number; // one robust standard deviation
+}
+
+function robustStats(values: number[]): RobustStats | null {
+  if (values.length < MIN_GROUP_SIZE) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const median = quantile(sorted, 0.5);
+  const deviations = sorted.map(v => Math.abs(v - median)).sort((a, b) => a - b);
+  const mad = quantile(deviations, 0.5);
+  if (mad > 0) return { median, scale: mad / MAD_SCALE };
+  const meanAd = deviations.reduce((a, b) => a + b, 0) / deviations.length;
+  return meanAd > 0 ? { median, scale: MEAN_AD_SCALE * meanAd } : null;
+}
+
+function robustZ(value: number, stats: RobustStats): number {
+  return (value - stats.median) / stats.scale;
+}
+
+function scoreGroup<T>(items: T[], valueOf: (item: T) => number, build: (item: T, z: number, median: number) => Anomaly | null): Anomaly[] {
+  const stats = robustStats(items.map(valueOf));
+  if (!stats) return [];
+  const out: Anomaly[] = [];
+  items.forEach(item => {
+    const z = robustZ(valueOf(item), stats);
+    if (Math.abs(z) < ANOMALY_Z_THRESHOLD) return;
+    const a = build(item, parseFloat(z.toFixed(1)), stats.median);
+    if (a) out.push(a);
+  });
+  return out;
+}
+
+/**
+ * Trucks with an unusual duration or weight for their material.
+ * Zero durations (in progress) and zero weights are left to validation.
+ */
+export function findTruckAnomalies(data: TruckData[], calendar: ShiftCalendar = DEFAULT_SHIFT_CALENDAR): Anomaly[] {
+  const byMaterial: Record<string, { row: TruckData; date: Date }[]> = {};
+  data.forEach(row => {
+    const date = smartParseDate(row.arrivalTime);
+    if (!date) return;
+    (byMaterial[row.matName] = byMaterial[row.matName] || []).push({ row, date });
+  });
+
+  const out: Anomaly[] = [];
+  Object.entries(byMaterial).forEach(([material, items]) => {
+    (['duration', 'weight'] as const).forEach(kind => {
+      const field = kind === 'duration' ? 'totalTime' : 'weight';
+      out.push(...scoreGroup(items.filter(i => i.row[field] > 0), i => i.row[field], (i, score, median) => ({
+        kind,
+        direction: score > 0 ? 'high' : 'low',
+        score,
+        value: i.row[field],
+        median,
+        date: getShiftDate(i.date, calendar),
+        hour: i.date.getHours(),
+        material,
+        truck: i.row
+      })));
+    });
+  });
+  return out;
+}
+
+/**
+ * Days whose truck count or tonnage stands out from the rest of the range.
+ */
+export function findDayAnomalies(timeline: TimelinePoint[]): Anomaly[] {
+  return (['dayCounts', 'dayTons'] as const).flatMap(kind => {
+    const field = kind === 'dayCounts' ? 'counts' : 'tons';
+    return scoreGroup(timeline, p => p[field], (p, score, median) => ({
+      kind,
+      direction: score > 0 ? 'high' : 'low',
+      score,
+      value: p[field],
+      median: parseFloat(median.toFixed(1)),
+      date: p.date
+    }));
+  });
+}
+
+/**
+ * All anomalies, most extreme first.
+ */
+export function detectAnomalies(data: TruckData[], timeline: TimelinePoint[], calendar: ShiftCalendar = DEFAULT_SHIFT_CALENDAR): Anomaly[] {
+  return [...findTruckAnomalies(data, calendar), ...findDayAnomalies(timeline)]
+    .sort((a, b) => Math.abs(b.score) - Math.abs(a.score));
+}
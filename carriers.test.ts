@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { resolveCarrier, UNASSIGNED_CARRIER } from './carriers.ts';
+import { CarrierRule } from './types.ts';
+
+const RULES: CarrierRule[] = [
+  { pattern: 'KA*', carrier: 'Karnataka Haulage' },
+  { pattern: 'KA01*', carrier: 'City Logistics' },
+  { pattern: 'KA01AB1234', carrier: 'Own Fleet' }
+];
+
+describe('resolveCarrier', () => {
+  it('prefers an exact plate over any prefix', () => {
+    expect(resolveCarrier('KA01AB1234', RULES)).toBe('Own Fleet');
+    expect(resolveCarrier('KA01AB1234', [...RULES].reverse())).toBe('Own Fleet');
+  });
+
+  it('picks the longest matching prefix, whatever the rule order', () => {
+    expect(resolveCarrier('KA01CD5678', RULES)).toBe('City Logistics');
+    expect(resolveCarrier('KA01CD5678', [...RULES].reverse())).toBe('City Logistics');
+    expect(resolveCarrier('KA02EF9012', RULES)).toBe('Karnataka Haulage');
+  });
+
+  it('ignores case and surrounding spaces on both sides', () => {
+    const rules: CarrierRule[] = [{ pattern: ' ka01* ', carrier: 'City Logistics' }, { pattern: 'mh12xy0001 ', carrier: 'Own Fleet' }];
+    expect(resolveCarrier('  ka01cd5678 ', rules)).toBe('City Logistics');
+    expect(resolveCarrier(' MH12XY0001', rules)).toBe('Own Fleet');
+  });
+
+  it('does not treat an exact rule as a prefix', () => {
+    expect(resolveCarrier('KA01AB12345', [{ pattern: 'KA01AB1234', carrier: 'Own Fleet' }])).toBe(UNASSIGNED_CARRIER);
+  });
+
+  it('leaves trucks without a matching rule unassigned', () => {
+    expect(resolveCarrier('MH12XY0001', RULES)).toBe(UNASSIGNED_CARRIER);
+    expect(resolveCarrier('KA01AB1234', [])).toBe(UNASSIGNED_CARRIER);
+  });
+});
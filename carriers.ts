@@ -0,0 +1,43 @@
+import { CarrierRule } from './types.ts';
+
+// --- Carrier Rules ---
+// The source has no carrier column, so carriers come from rules on the truck
+// number kept in settings: exact plates or prefixes such as "KA01*".
+
+// Carrier of trucks that match no rule; the panel shows a translated label.
+export const UNASSIGNED_CARRIER = '';
+
+/**
+ * Carrier of a truck: an exact rule wins, then the longest matching prefix rule.
+ */
+export function resolveCarrier(truckNo: string, rules: CarrierRule[]): string {
+  const plate = truckNo.trim().toUpperCase();
+  let best: CarrierRule | null = null;
+  for (const rule of rules) {
+    const pattern = rule.pattern.trim().toUpperCase();
+    if (!pattern.endsWith('*')) {
+      if (pattern === plate) return rule.carrier;
+      continue;
+    }
+    const prefix = pattern.slice(0, -1);
+    if (plate.startsWith(prefix) && (!best || prefix.length > best.pattern.trim().length - 1)) best = rule;
+  }
+  return best ? best.carrier : UNASSIGNED_CARRIER;
+}
+
+/**
+ * One "pattern = carrier" rule per line; lines without "=" are skipped.
+ */
+export function parseCarrierRules(text: string): CarrierRule[] {
+  return text.split('\n').flatMap(line => {
+    const at = line.indexOf('=');
+    if (at < 0) return [];
+    const pattern = line.slice(0, at).trim();
+    const carrier = line.slice(at + 1).trim();
+    return pattern && carrier ? [{ pattern, carrier }] : [];
+  });
+}
+
+export function formatCarrierRules(rules: CarrierRule[]): string {
+  return rules.map(r => `${r.pattern} = ${r.carrier}`).join('\n');
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { getLoadKey, getSourceKey } from './columnMapping.ts';
+import { DataSourceConfig } from './types.ts';
+
+const upload = (uploadedAt?: number): DataSourceConfig => ({ kind: 'file', fileName: 'trucks.csv', fileContent: 'a,b', format: 'csv', uploadedAt });
+
+describe('source keys', () => {
+  it('keys mappings by file name, so a re-upload keeps its pinned columns', () => {
+    expect(getSourceKey(upload(1000))).toBe('file:trucks.csv');
+    expect(getSourceKey(upload(2000))).toBe(getSourceKey(upload(1000)));
+  });
+
+  it('treats a new upload with the same name as a new load', () => {
+    expect(getLoadKey(upload(1000))).toBe('file:trucks.csv@1000');
+    expect(getLoadKey(upload(2000))).not.toBe(getLoadKey(upload(1000)));
+    expect(getLoadKey(upload())).toBe('file:trucks.csv@0');
+  });
+
+  it('keys remote sources by URL for both', () => {
+    const sheet: DataSourceConfig = { kind: 'sheet', url: 'https://example.com/pub?output=csv' };
+    expect(getSourceKey(sheet)).toBe('sheet:https://example.com/pub?output=csv');
+    expect(getLoadKey(sheet)).toBe(getSourceKey(sheet));
+    expect(getLoadKey({ kind: 'fixture' })).toBe('fixture');
+  });
+});
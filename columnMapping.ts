@@ -0,0 +1,127 @@
+import { TruckData, DataSourceConfig, ColumnMapping, MappableField, TranslationSet, DateFormat } from './types.ts';
+import { findColIdx, parseNumberSafe } from './utils.ts';
+import { detectDateFormat, formatDateTime, parseDateTime, ResolvedDateFormat } from './dateFormats.ts';
+
+// --- Column Mapping ---
+// Headers are matched by keyword unless the user pinned a header for the field.
+// Mappings store header names, not indexes, so reordered sheets keep working.
+
+export const MAPPABLE_FIELDS: MappableField[] = ['truckNo', 'matName', 'arrivalTime', 'endTime', 'totalTime', 'weight', 'mxStock', 'whStock'];
+
+export const REQUIRED_FIELDS: MappableField[] = ['truckNo', 'matName', 'arrivalTime', 'totalTime', 'weight'];
+
+export const FIELD_KEYWORDS: Record<MappableField, string[]> = {
+  truckNo: ["車號", "車牌", "Truck"],
+  matName: ["原材料", "品名", "Material", "matName"],
+  arrivalTime: ["進場", "Arrival"],
+  endTime: ["結束", "作業完成", "End"],
+  totalTime: ["作業總時間", "總時間", "Duration", "Total Time", "totalTime"],
+  weight: ["重量", "Weight", "(t)"],
+  mxStock: ["攪拌", "Mixer", "MX Stock", "mxStock"],
+  whStock: ["倉庫", "Warehouse", "WH Stock", "whStock"]
+};
+
+export const FIELD_LABEL_KEYS: Record<MappableField, keyof TranslationSet> = {
+  truckNo: 'fieldTruckNo',
+  matName: 'fieldMaterial',
+  arrivalTime: 'arrival',
+  endTime: 'departure',
+  totalTime: 'fieldTotalTime',
+  weight: 'fieldWeight',
+  mxStock: 'fieldMxStock',
+  whStock: 'fieldWhStock'
+};
+
+export interface ColumnResolution {
+  headers: string[];
+  sample: string[];
+  idx: Record<MappableField, number>;
+  manual: MappableField[];
+  missing: MappableField[];
+}
+
+/**
+ * Identifies a source for per-source mapping storage.
+ */
+export function getSourceKey(config: DataSourceConfig): string {
+  if (config.kind === 'file') return `file:${config.fileName || ''}`;
+  if (config.kind === 'fixture') return 'fixture';
+  return `${config.kind}:${config.url || ''}`;
+}
+
+/**
+ * Identifies the data behind a source, for deciding between a full reload and
+ * a background merge. Unlike the mapping key, a new upload of a file with the
+ * same name is a new load, so no rows of the old file survive it.
+ */
+export function getLoadKey(config: DataSourceConfig): string {
+  const key = getSourceKey(config);
+  return config.kind === 'file' ? `${key}@${config.uploadedAt ?? 0}` : key;
+}
+
+/**
+ * Resolves each field to a column index. A pinned header wins when it still
+ * exists in the table, an empty pin forces the field unmapped, and anything
+ * else falls back to the keyword lists.
+ */
+export function resolveColumns(table: string[][], mapping: ColumnMapping = {}): ColumnResolution {
+  const headers = (table[0] || []).map(h => h.trim());
+  const idx = {} as Record<MappableField, number>;
+  const manual: MappableField[] = [];
+  MAPPABLE_FIELDS.forEach(field => {
+    const pin = mapping[field];
+    if (pin === '') {
+      manual.push(field);
+      idx[field] = -1;
+      return;
+    }
+    const pinned = pin ? headers.indexOf(pin) : -1;
+    if (pinned >= 0) manual.push(field);
+    idx[field] = pinned >= 0 ? pinned : findColIdx(headers, FIELD_KEYWORDS[field]);
+  });
+  return {
+    headers,
+    sample: table[1] || [],
+    idx,
+    manual,
+    missing: REQUIRED_FIELDS.filter(f => idx[f] < 0)
+  };
+}
+
+export interface DateColumnFormats {
+  arrivalTime: ResolvedDateFormat;
+  endTime: ResolvedDateFormat;
+}
+
+/**
+ * Date format per time column: the one pinned in settings, else detected from
+ * the rows. The end column is sparse while trucks are in progress, so an
+ * undecided end column follows the arrival column.
+ */
+export function resolveDateFormats(rows: string[][], idx: Record<MappableField, number>, format: DateFormat): DateColumnFormats {
+  if (format !== 'auto') return { arrivalTime: format, endTime: format };
+  const arrivalTime = detectDateFormat(rows.map(c => c[idx.arrivalTime]));
+  return { arrivalTime, endTime: detectDateFormat(rows.map(c => c[idx.endTime]), arrivalTime) };
+}
+
+/**
+ * Maps raw rows onto TruckData. Times are rewritten to YYYY-MM-DD HH:MM[:SS];
+ * values that do not parse are kept as-is for validation to report.
+ */
+export function mapRowsToTrucks(rows: string[][], idx: Record<MappableField, number>, dates: DateColumnFormats = { arrivalTime: 'dmy', endTime: 'dmy' }, toWallClock?: (instant: Date) => Date): TruckData[] {
+  const normalise = (value: string | undefined, format: ResolvedDateFormat) => {
+    const d = value ? parseDateTime(value, format, toWallClock) : null;
+    return d ? formatDateTime(d) : value || "";
+  };
+  return rows.map(c => ({
+    truckNo: c[idx.truckNo] || "N/A",
+    matName: c[idx.matName] || "N/A",
+    arrivalTime: normalise(c[idx.arrivalTime], dates.arrivalTime),
+    endTime: normalise(c[idx.endTime], dates.endTime),
+    // Fix: Remove commas to ensure large numbers (e.g., 1,894) are parsed correctly
+    totalTime: parseNumberSafe(c[idx.totalTime]),
+    weight: parseNumberSafe(c[idx.weight]),
+    mxStock: parseNumberSafe(c[idx.mxStock]),
+    whStock: parseNumberSafe(c[idx.whStock])
+  })).filter(x => !!x.matName);
+}
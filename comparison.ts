@@ -0,0 +1,86 @@
+import { ComparisonState } from './types.ts';
+import { formatDateToISO } from './utils.ts';
+
+// --- Period Comparison ---
+// A baseline period is aggregated with the same builders as the selected range.
+// Its values are overlaid on the current points as prev_<key> fields, matched
+// by day offset for timelines and by category for Pareto and flow.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DateRange {
+  startDate: string;
+  endDate: string;
+}
+
+function parseDay(dateStr: string): Date | null {
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dateStr || '');
+  return m ? new Date(parseInt(m[1]), parseInt(m[2]) - 1, parseInt(m[3])) : null;
+}
+
+/**
+ * Whole days from `from` to `to`; DST-safe because both are local midnights.
+ */
+export function dayOffset(from: string, to: string): number {
+  const a = parseDay(from);
+  const b = parseDay(to);
+  return a && b ? Math.round((b.getTime() - a.getTime()) / DAY_MS) : 0;
+}
+
+function addDays(dateStr: string, days: number): string {
+  const d = parseDay(dateStr)!;
+  d.setDate(d.getDate() + days);
+  return formatDateToISO(d);
+}
+
+// Same day one month earlier, clamped to the month's length (03-31 → 02-28).
+function minusOneMonth(dateStr: string): string {
+  const d = parseDay(dateStr)!;
+  const lastDay = new Date(d.getFullYear(), d.getMonth(), 0).getDate();
+  return formatDateToISO(new Date(d.getFullYear(), d.getMonth() - 1, Math.min(d.getDate(), lastDay)));
+}
+
+export function getBaselineRange(range: DateRange, comparison: ComparisonState): DateRange | null {
+  if (!parseDay(range.startDate) || !parseDay(range.endDate)) return null;
+  switch (comparison.mode) {
+    case 'previous': {
+      const length = dayOffset(range.startDate, range.endDate) + 1;
+      return { startDate: addDays(range.startDate, -length), endDate: addDays(range.startDate, -1) };
+    }
+    case 'lastMonth':
+      return { startDate: minusOneMonth(range.startDate), endDate: minusOneMonth(range.endDate) };
+    case 'custom':
+      return parseDay(comparison.startDate) && parseDay(comparison.endDate) ? { startDate: comparison.startDate, endDate: comparison.endDate } : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Copies `fields` from the baseline point with the same match key onto each
+ * current point as prev_<field>. Unmatched points get no prev_ values.
+ */
+export function overlayBaseline<T extends object>(
+  current: T[],
+  baseline: T[],
+  currentKey: (p: T) => string,
+  baselineKey: (p: T) => string,
+  fields: string[]
+): (T & Record<string, number | string>)[] {
+  const byKey = new Map(baseline.map(p => [baselineKey(p), p as Record<string, any>]));
+  return current.map(p => {
+    const match = byKey.get(currentKey(p));
+    const prev: Record<string, number> = {};
+    if (match) fields.forEach(f => { if (typeof match[f] === 'number') prev[`prev_${f}`] = match[f]; });
+    return { ...p, ...prev } as T & Record<string, number | string>;
+  });
+}
+
+/**
+ * Change against the baseline in percent, one decimal. Null when the baseline
+ * is zero, since any change from nothing has no meaningful percentage.
+ */
+export function pctDelta(current: number, baseline: number): number | null {
+  if (!baseline) return null;
+  return parseFloat((((current - baseline) / baseline) * 100).toFixed(1));
+}
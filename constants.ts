@@ -1,14 +1,72 @@
-import { Language, TranslationSet } from './types.ts';
+import { Language, TranslationSet, DashboardSettings, ShiftCalendar, ChartTypeOption } from './types.ts';
 
 export const CSV_URL = "https://docs.google.com/spreadsheets/d/e/2PACX-1vQjY5PdR1CTA2gcvbeIPSFYflT2WHKWxELGliEG8c-fcCm9KlpTBlTbUIMDTCH1SieAITuY02SS65ic/pub?gid=0&single=true&output=csv";
 
+export const UNIFIED_ANIM_SPEED = 1200;
+
+export const DEFAULT_TIME_ZONE = 'Asia/Kolkata';
+
+export const DEFAULT_SHIFT_CALENDAR: ShiftCalendar = {
+  shifts: [{ name: 'A', start: '07:00' }]
+};
+
+const BASE_CHART_TYPES: ChartTypeOption[] = ['bar', 'line', 'area', 'stepAfter', 'radar', 'composed'];
+
+// Chart types offered per card; heatmap and boxplot only where their data exists.
+export const CHART_TYPE_CHOICES: Record<keyof DashboardSettings['chartTypes'], ChartTypeOption[]> = {
+  pareto: BASE_CHART_TYPES,
+  tonnage: BASE_CHART_TYPES,
+  frequency: BASE_CHART_TYPES,
+  efficiency: [...BASE_CHART_TYPES, 'boxplot'],
+  flow: [...BASE_CHART_TYPES, 'heatmap']
+};
+
+export const DEFAULT_SETTINGS: DashboardSettings = {
+  plantName: '',
+  refreshRate: 600,
+  benchmarkTime: 60,
+  materialBenchmarks: {},
+  warnThreshold: 95,
+  warnColor: '#ef4444',
+  animationEnabled: false,
+  animationDuration: 30,
+  targetHours: 10,
+  aiModel: 'gemini',
+  timeZone: DEFAULT_TIME_ZONE,
+  dateFormat: 'auto',
+  shiftCalendar: DEFAULT_SHIFT_CALENDAR,
+  stockThresholds: {
+    mixer: 50,
+    warehouse: 200
+  },
+  alertRules: {
+    enabled: true,
+    notify: false,
+    sound: true,
+    lowRate: true,
+    overdue: true,
+    overdueFactor: 2,
+    avgRate: true
+  },
+  carrierRules: [],
+  paretoMetric: 'tons',
+  paretoTopN: 10,
+  chartTypes: {
+    pareto: 'composed',
+    tonnage: 'area',
+    frequency: 'bar',
+    efficiency: 'stepAfter',
+    flow: 'radar'
+  }
+};
+
 export const I18N: Record<Language, TranslationSet> = {
   zh: {
     title: "原管貨櫃管理報表 v7.5",
-    liveStatus: "🚚 貨櫃動態管理 (07:00-07:00)",
+    liveStatus: "🚚 貨櫃動態管理",
     totalUnits: "累計車次",
     avgRate: "平均達成率",
-    pareto: "📊 柏拉圖分析 (原材料種類 TOP 10)",
+    pareto: "📊 柏拉圖分析 (原材料種類)",
     frequency: "📦 每日車次頻率趨勢",
     tonnage: "⚖️ 每日入廠噸數分析",
     efficiency: "⏱️ 作業時間分析",
@@ -29,7 +87,6 @@ export const I18N: Record<Language, TranslationSet> = {
     effTotal: "當日作業時間加總",
     selectDate: "選擇日期",
     analysisTitle: "分析資料如下",
-    statTop10: "TOP 10 總重",
     statRangeTotal: "區間總重",
     statRatio: "佔比 (%)",
     statAvgDayWeight: "日均重量",
@@ -40,7 +97,7 @@ export const I18N: Record<Language, TranslationSet> = {
     statAvgWorkTime: "每車平均工時",
     statTimeDist: "平均作業時間分佈",
     statOperationRate: "稼動率 (%)",
-    operationRateFormula: "計算式: (基準工時 / 實際作業時間) * 100",
+    operationRateFormula: "計算式: (物料基準工時，未設定則用全域基準 / 實際作業時間) * 100",
     chartAnimation: "看板動態動畫設定",
     animationStatus: "動畫狀態",
     animationDurationLabel: "動畫循環間隔 (S)",
@@ -49,14 +106,236 @@ export const I18N: Record<Language, TranslationSet> = {
     loginRequired: "請先登入帳號以使用 AI 智慧洞察功能",
     loginAction: "登入帳號",
     logoutAction: "登出",
-    statFetchDays: "資料抓取天數"
+    statFetchDays: "資料抓取天數",
+    aiModelLabel: "🤖 AI 分析模型",
+    aiModelGemini: "Gemini (雲端)",
+    aiModelLocal: "本機離線模型",
+    userNameLabel: "使用者名稱",
+    signedInAs: "已登入",
+    insightsEmpty: "點擊「分析數據趨勢」以產生目前篩選區間的洞察",
+    insightVolume: "區間內共 {count} 車次、{tons} 噸，橫跨 {days} 個班別日",
+    insightBottleneck: "瓶頸原料：{mat} 平均作業 {avg} 分鐘，高於整體平均 {overall} 分鐘",
+    insightPeak: "進場尖峰時段為 {hour}:00，共 {peak} 車次",
+    insightAction: "建議於 {hour}:00 前預先調度卸貨區，並優先處理 {mat}",
+    insightNoData: "目前篩選區間沒有可分析的資料",
+    dataSourceLabel: "🔌 資料來源",
+    sourceSheet: "Google 試算表 (已發佈 CSV)",
+    sourceUrl: "自訂 CSV / JSON 網址",
+    sourceFile: "上傳本機檔案",
+    sourceFixture: "範例測試資料",
+    sourceUrlLabel: "資料網址",
+    sourceFormat: "資料格式",
+    formatAuto: "自動偵測",
+    dropFileHint: "拖放 CSV / JSON 檔案至此，或點擊選擇",
+    fixtureHint: "使用內建的 14 天範例資料，適合測試與展示",
+    columnMappingTitle: "🧩 欄位對應設定",
+    mappingOpen: "設定欄位對應",
+    mappingAuto: "自動偵測",
+    mappingManual: "手動指定",
+    mappingUnmapped: "— 未對應 —",
+    mappingRequired: "必填",
+    mappingSample: "範例值",
+    mappingReset: "重設為自動偵測",
+    mappingMissing: "⚠️ 無法辨識必要欄位，資料未載入：{fields}",
+    fieldTruckNo: "車號",
+    fieldMaterial: "原材料",
+    fieldTotalTime: "作業總時間 (分)",
+    fieldWeight: "重量 (kg)",
+    diagnosticsTitle: "🩺 匯入診斷報告",
+    diagnosticsTotal: "總筆數",
+    diagnosticsOk: "正常",
+    diagnosticsWarnings: "警告",
+    diagnosticsErrors: "已排除",
+    diagnosticsEmpty: "所有資料列皆通過檢查",
+    diagnosticsRow: "列",
+    diagnosticsReasons: "原因",
+    issueBadArrival: "進場時間無法解析",
+    issueBadEnd: "結束時間無法解析",
+    issueEndBeforeArrival: "結束時間早於進場時間",
+    issueNegativeWeight: "重量為負數",
+    issueZeroWeight: "重量為零",
+    issueDurationMismatch: "作業總時間與 結束−進場 不符",
+    issueDuplicate: "車號與進場時間重複",
+    issueMissingTruck: "缺少車號",
+    inventory: "🏭 原料庫存追蹤 (攪拌機 / 倉庫)",
+    fieldMxStock: "攪拌機庫存 (t)",
+    fieldWhStock: "倉庫庫存 (t)",
+    inboundTons: "入廠噸數",
+    lowStockMixer: "📉 攪拌機低庫存門檻 (t)",
+    lowStockWarehouse: "📉 倉庫低庫存門檻 (t)",
+    statLatestMixer: "最新攪拌機庫存",
+    statLatestWarehouse: "最新倉庫庫存",
+    statLowStockDays: "低庫存天數",
+    noStockData: "資料來源未包含庫存欄位",
+    statUtilization: "目標達成率 (%)",
+    utilizationFormula: "計算式: 當日作業時間加總 / (目標時數 × 60) × 100",
+    statDaysMet: "達標天數",
+    targetProgress: "今日目標進度",
+    allShifts: "全部班別",
+    splitByShift: "依班別拆分",
+    shiftCalendarLabel: "🗓️ 班別設定",
+    shiftName: "班別名稱",
+    shiftStart: "開始時間",
+    addShift: "新增班別",
+    dayBoundaryLabel: "換日時間 (留空則使用最早班別)",
+    timeZoneLabel: "🌐 工廠時區 (IANA)",
+    invalidTimeZone: "無效的時區，暫時使用預設值",
+    filterMaterialPlaceholder: "選擇或輸入以加入...",
+    filterWeight: "重量",
+    filterDuration: "作業時間",
+    filterStatus: "狀態",
+    filterMin: "最小",
+    filterMax: "最大",
+    statusAll: "全部",
+    statusCompleted: "已完成",
+    statusInProgress: "作業中",
+    noActiveFilters: "未套用篩選條件",
+    clearFilters: "清除全部",
+    shareView: "複製目前檢視的連結",
+    copyChartLink: "複製此圖表的連結",
+    linkCopied: "連結已複製到剪貼簿！",
+    drillTitle: "{point} — 車輛明細",
+    drillSearch: "搜尋車號、原材料或時間...",
+    drillDuration: "作業時間",
+    drillWeight: "重量",
+    drillRate: "達成率",
+    drillJumpToDay: "在即時監控中查看當日",
+    drillEmpty: "沒有符合的車輛紀錄",
+    explorerTitle: "數據瀏覽與匯出",
+    explorerTrips: "車次明細",
+    explorerTimeline: "每日彙總",
+    explorerPareto: "原材料排行",
+    explorerFlow: "每小時車流",
+    explorerEmpty: "所選範圍沒有資料",
+    colDate: "日期",
+    colTons: "噸數",
+    colCounts: "車次",
+    colWorkTime: "作業總時間 (分)",
+    colAvgTime: "平均作業時間 (分)",
+    colCumulative: "累計佔比 (%)",
+    colHour: "時段",
+    reportTitle: "班次報表",
+    reportFilePrefix: "班次報表",
+    reportPeriod: "報表期間",
+    reportPeriodRange: "目前篩選區間",
+    reportPeriodDay: "單一班次日",
+    reportLanguage: "報表語言",
+    reportIncludeInsights: "包含 AI 智慧洞察",
+    reportGenerate: "產生 PDF",
+    reportGenerating: "產生中...",
+    reportGeneratedAt: "產生時間",
+    reportAlerts: "低於達成率門檻的車輛",
+    reportAlertCount: "警示車次",
+    reportNoAlerts: "所有車輛皆達到門檻",
+    reportMoreAlerts: "筆警示未列出",
+    plantNameLabel: "🏭 工廠名稱 (報表標題)",
+    compareLabel: "期間比較",
+    compareOff: "不比較",
+    comparePrevious: "前一期間",
+    compareLastMonth: "上月同期",
+    compareCustom: "自訂基準期間",
+    compareBaseline: "基準",
+    forecastOff: "不預測",
+    forecastDays: "預測 {days} 天",
+    forecastSeries: "未來 {days} 天預測",
+    forecastBand: "95% 信賴區間",
+    statForecastTotal: "未來 {days} 天預測",
+    statForecastError: "回測誤差 (MAPE)",
+    forecastFormula: "Holt-Winters 週季節模型；以 {folds} 次滾動回測（每次 {days} 天）計算平均絕對百分比誤差",
+    anomaliesTitle: "異常偵測",
+    anomaliesEmpty: "此範圍內未偵測到異常",
+    anomalyMethod: "中位數/MAD 穩健 z 值 ≥ {z}",
+    anomalyHigh: "偏高",
+    anomalyLow: "偏低",
+    anomalyKindDuration: "作業時間",
+    anomalyKindWeight: "重量",
+    anomalyKindDayCounts: "每日車次",
+    anomalyKindDayTons: "每日噸數",
+    anomalyReasonDuration: "{truck}（{material}）作業 {value} 分，該原材料中位數 {median} 分",
+    anomalyReasonWeight: "{truck}（{material}）載重 {value}t，該原材料中位數 {median}t",
+    anomalyReasonDayCounts: "{date} 共 {value} 車次，每日中位數 {median}",
+    anomalyReasonDayTons: "{date} 共 {value}t，每日中位數 {median}t",
+    materialBenchmarksLabel: "物料基準工時 (分鐘)",
+    deriveFromMedians: "以歷史中位數帶入",
+    materialBenchmarkFallback: "留空的物料沿用全域基準 {minutes} 分鐘",
+    materialMedian: "中位數 {minutes}m",
+    alertsTitle: "即時警報",
+    alertsEmpty: "尚無警報紀錄",
+    alertSnooze: "暫停提醒",
+    alertResume: "恢復 (至 {time})",
+    alertLowRate: "{truck} ({material}) 達成率 {value}% 低於 {limit}%",
+    alertOverdue: "{truck} ({material}) 作業中已 {value} 分鐘，超過 {limit} 分鐘",
+    alertAvgRate: "本日平均達成率 {value}% 跌破 {limit}%",
+    alertRulesLabel: "警報規則",
+    alertEnabled: "啟用",
+    alertNotify: "瀏覽器通知",
+    alertSound: "提示音",
+    alertNotifyBlocked: "瀏覽器已封鎖通知，請於網站設定中允許",
+    alertRuleLowRate: "新出現低於門檻的車輛",
+    alertRuleOverdue: "作業中超過",
+    alertOverdueFactor: "× 基準工時",
+    alertRuleAvgRate: "本日平均達成率跌破門檻",
+    lastUpdated: "最後更新 {time}",
+    refreshFailed: "更新失敗，顯示 {time} 的資料",
+    badgeNew: "新進場",
+    badgeCompleted: "剛完成",
+    dateFormatLabel: "日期格式",
+    dateFormatAuto: "自動偵測",
+    dateFormatYmd: "年/月/日 (YYYY-MM-DD)",
+    dateFormatDmy: "日/月/年 (DD/MM/YYYY)",
+    dateFormatMdy: "月/日/年 (MM/DD/YYYY)",
+    dateFormatSerial: "試算表序號 (Excel/Sheets)",
+    dateFormatDetected: "偵測結果: {format}",
+    ganttTitle: "場內作業時間軸",
+    ganttPeak: "尖峰同時在場",
+    ganttAverage: "平均在場",
+    ganttBays: "所需卸貨位",
+    ganttIdle: "閒置 ≥{minutes}m (段/分)",
+    ganttConcurrency: "在場車輛",
+    ganttEmpty: "所選日期無進場紀錄",
+    weekdayNames: "週一,週二,週三,週四,週五,週六,週日",
+    heatmapCell: "{day} {hour}時: {count} 車次",
+    boxplotSummary: "最小 {min} · Q1 {q1} · 中位數 {median} · Q3 {q3} · 最大 {max} (分)",
+    boxplotMean: "平均",
+    boxplotOutliers: "{count} 筆離群值",
+    scorecardTitle: "車輛與承運商評分卡",
+    scorecardByTruck: "按車輛",
+    scorecardByCarrier: "按承運商",
+    scorecardNoCarrierRules: "請先在設定中配置承運商規則",
+    scorecardCarrier: "承運商",
+    scorecardTrucks: "車輛數",
+    scorecardVisits: "車次",
+    scorecardTons: "噸位",
+    scorecardMedianTime: "中位時長",
+    scorecardAvgTime: "平均時長",
+    scorecardAlertShare: "預警佔比",
+    scorecardTrend: "每日車次",
+    carrierUnassigned: "未分配",
+    carrierRulesLabel: "承運商規則",
+    carrierRuleCount: "{count} 條規則",
+    carrierRulesHint: "每行一條：車牌 = 承運商。以 * 結尾表示前綴匹配，精確車牌優先，其次最長前綴。",
+    statTopN: "TOP {n} 合計",
+    paretoOthers: "其他 ({count})",
+    paretoByTons: "按重量",
+    paretoByCounts: "按車次",
+    paretoByTime: "按作業時長",
+    paretoTopN: "前 {n} 名",
+    paretoClasses: "A / B / C 類",
+    paretoClassFormula: "依累計佔比分類：佔比達 80% 前為 A 類，80–95% 為 B 類，其餘為 C 類。併入「其他」的物料仍按各自類別計入。",
+    colShare: "佔比 (%)",
+    colClass: "ABC 類別",
+    insightsFailed: "無法產生 AI 洞察，請檢查網路連線或 API 金鑰。",
+    sourceNotPersisted: "檔案過大，無法存入瀏覽器。本次仍會顯示此檔案，但重新載入後將恢復先前的資料來源。",
+    effRefBenchmark: "虛線：預期平均工時 {minutes}m (物料基準)",
+    effRefTarget: "虛線：每日目標 {minutes}m",
+    reportFailed: "無法產生 PDF 報表，請稍後再試。"
   },
   en: {
     title: "Logistics Dashboard v7.5",
-    liveStatus: "🚚 Live Status Management (07:00-07:00)",
+    liveStatus: "🚚 Live Status Management",
     totalUnits: "Total Units",
     avgRate: "Avg Rate",
-    pareto: "📊 Pareto Analysis (Material Type TOP 10)",
+    pareto: "📊 Pareto Analysis (Material Types)",
     frequency: "📦 Frequency Trends",
     tonnage: "⚖️ Daily Tonnage Analysis",
     efficiency: "⏱️ Work Time Analysis",
@@ -77,7 +356,6 @@ export const I18N: Record<Language, TranslationSet> = {
     effTotal: "Daily Total Work Time",
     selectDate: "Select Date",
     analysisTitle: "Analysis Data Summary",
-    statTop10: "TOP 10 Weight",
     statRangeTotal: "Range Total",
     statRatio: "Ratio (%)",
     statAvgDayWeight: "Avg Day Weight",
@@ -88,7 +366,7 @@ export const I18N: Record<Language, TranslationSet> = {
     statAvgWorkTime: "Avg Time per Truck",
     statTimeDist: "Time Distribution",
     statOperationRate: "Operation Rate (%)",
-    operationRateFormula: "Formula: (Base / Actual) * 100",
+    operationRateFormula: "Formula: (Material base, else global base / Actual) * 100",
     chartAnimation: "Dashboard Dynamic Settings",
     animationStatus: "Animation Status",
     animationDurationLabel: "Animation Interval (S)",
@@ -97,14 +375,236 @@ export const I18N: Record<Language, TranslationSet> = {
     loginRequired: "Please log in",
     loginAction: "Sign In",
     logoutAction: "Sign Out",
-    statFetchDays: "Fetch Days"
+    statFetchDays: "Fetch Days",
+    aiModelLabel: "🤖 AI Analysis Model",
+    aiModelGemini: "Gemini (Cloud)",
+    aiModelLocal: "Local Offline Model",
+    userNameLabel: "User Name",
+    signedInAs: "Signed in as",
+    insightsEmpty: "Click \"Analyze Trends\" to generate insights for the current filter range",
+    insightVolume: "{count} trucks and {tons}t handled across {days} shift days",
+    insightBottleneck: "Bottleneck material: {mat} averages {avg}m per truck vs. {overall}m overall",
+    insightPeak: "Arrivals peak at {hour}:00 with {peak} trucks",
+    insightAction: "Pre-allocate unloading bays before {hour}:00 and prioritise {mat}",
+    insightNoData: "No data available to analyse in the current range",
+    dataSourceLabel: "🔌 Data Source",
+    sourceSheet: "Google Sheet (published CSV)",
+    sourceUrl: "Custom CSV / JSON URL",
+    sourceFile: "Upload Local File",
+    sourceFixture: "Sample Fixture Data",
+    sourceUrlLabel: "Source URL",
+    sourceFormat: "Format",
+    formatAuto: "Auto-detect",
+    dropFileHint: "Drop a CSV / JSON file here, or click to browse",
+    fixtureHint: "Uses 14 days of built-in sample data for testing and demos",
+    columnMappingTitle: "🧩 Column Mapping",
+    mappingOpen: "Map Columns",
+    mappingAuto: "Auto",
+    mappingManual: "Manual",
+    mappingUnmapped: "— Not mapped —",
+    mappingRequired: "Required",
+    mappingSample: "Sample",
+    mappingReset: "Reset to Auto-detect",
+    mappingMissing: "⚠️ Required columns could not be resolved, data was not loaded: {fields}",
+    fieldTruckNo: "Truck No.",
+    fieldMaterial: "Material",
+    fieldTotalTime: "Total Time (m)",
+    fieldWeight: "Weight (kg)",
+    diagnosticsTitle: "🩺 Import Diagnostics",
+    diagnosticsTotal: "Total Rows",
+    diagnosticsOk: "OK",
+    diagnosticsWarnings: "Warnings",
+    diagnosticsErrors: "Rejected",
+    diagnosticsEmpty: "All rows passed validation",
+    diagnosticsRow: "Row",
+    diagnosticsReasons: "Reasons",
+    issueBadArrival: "Unparseable arrival time",
+    issueBadEnd: "Unparseable end time",
+    issueEndBeforeArrival: "End time is before arrival",
+    issueNegativeWeight: "Negative weight",
+    issueZeroWeight: "Zero weight",
+    issueDurationMismatch: "Total time disagrees with end − arrival",
+    issueDuplicate: "Duplicate truck + arrival",
+    issueMissingTruck: "Missing truck number",
+    inventory: "🏭 Inventory Tracking (Mixer / Warehouse)",
+    fieldMxStock: "Mixer Stock (t)",
+    fieldWhStock: "Warehouse Stock (t)",
+    inboundTons: "Inbound Tons",
+    lowStockMixer: "📉 Mixer Low-Stock Level (t)",
+    lowStockWarehouse: "📉 Warehouse Low-Stock Level (t)",
+    statLatestMixer: "Latest Mixer Stock",
+    statLatestWarehouse: "Latest Warehouse Stock",
+    statLowStockDays: "Low-Stock Days",
+    noStockData: "The data source has no stock columns",
+    statUtilization: "Target Utilisation (%)",
+    utilizationFormula: "Formula: Daily total work time / (Target hours × 60) × 100",
+    statDaysMet: "Days on Target",
+    targetProgress: "Today's Target Progress",
+    allShifts: "All Shifts",
+    splitByShift: "Split by Shift",
+    shiftCalendarLabel: "🗓️ Shift Calendar",
+    shiftName: "Shift Name",
+    shiftStart: "Start Time",
+    addShift: "Add Shift",
+    dayBoundaryLabel: "Day Boundary (blank = earliest shift)",
+    timeZoneLabel: "🌐 Plant Time Zone (IANA)",
+    invalidTimeZone: "Invalid time zone, using the default for now",
+    filterMaterialPlaceholder: "Pick or type to add...",
+    filterWeight: "Weight",
+    filterDuration: "Duration",
+    filterStatus: "Status",
+    filterMin: "Min",
+    filterMax: "Max",
+    statusAll: "All",
+    statusCompleted: "Completed",
+    statusInProgress: "In progress",
+    noActiveFilters: "No filters applied",
+    clearFilters: "Clear all",
+    shareView: "Copy a link to this view",
+    copyChartLink: "Copy a link to this chart",
+    linkCopied: "Link copied to clipboard!",
+    drillTitle: "{point} — Truck details",
+    drillSearch: "Search truck, material or time...",
+    drillDuration: "Duration",
+    drillWeight: "Weight",
+    drillRate: "Rate",
+    drillJumpToDay: "Open this day in the live monitor",
+    drillEmpty: "No matching truck records",
+    explorerTitle: "Data Explorer & Export",
+    explorerTrips: "Trips",
+    explorerTimeline: "Daily totals",
+    explorerPareto: "Material ranking",
+    explorerFlow: "Hourly flow",
+    explorerEmpty: "No rows for the selected range",
+    colDate: "Date",
+    colTons: "Tons",
+    colCounts: "Trucks",
+    colWorkTime: "Work time (m)",
+    colAvgTime: "Avg time (m)",
+    colCumulative: "Cumulative (%)",
+    colHour: "Hour",
+    reportTitle: "Shift Report",
+    reportFilePrefix: "shift_report",
+    reportPeriod: "Report period",
+    reportPeriodRange: "Current filter range",
+    reportPeriodDay: "Single shift day",
+    reportLanguage: "Report language",
+    reportIncludeInsights: "Include AI insights",
+    reportGenerate: "Generate PDF",
+    reportGenerating: "Generating...",
+    reportGeneratedAt: "Generated",
+    reportAlerts: "Trucks under the rate threshold",
+    reportAlertCount: "Alerts",
+    reportNoAlerts: "Every truck met the threshold",
+    reportMoreAlerts: "more alerts not listed",
+    plantNameLabel: "🏭 Plant Name (report header)",
+    compareLabel: "Compare",
+    compareOff: "No comparison",
+    comparePrevious: "Previous period",
+    compareLastMonth: "Same period last month",
+    compareCustom: "Custom baseline",
+    compareBaseline: "Baseline",
+    forecastOff: "No forecast",
+    forecastDays: "Forecast {days}d",
+    forecastSeries: "Forecast (next {days}d)",
+    forecastBand: "95% band",
+    statForecastTotal: "Next {days}d forecast",
+    statForecastError: "Backtest error (MAPE)",
+    forecastFormula: "Holt-Winters with a weekly season; mean absolute % error over {folds} rolling backtests of {days} days each",
+    anomaliesTitle: "Anomalies",
+    anomaliesEmpty: "No anomalies in this range",
+    anomalyMethod: "Robust z-score (median/MAD) ≥ {z}",
+    anomalyHigh: "High",
+    anomalyLow: "Low",
+    anomalyKindDuration: "Duration",
+    anomalyKindWeight: "Weight",
+    anomalyKindDayCounts: "Daily trucks",
+    anomalyKindDayTons: "Daily tons",
+    anomalyReasonDuration: "{truck} ({material}) took {value}m; median for this material is {median}m",
+    anomalyReasonWeight: "{truck} ({material}) carried {value}t; median for this material is {median}t",
+    anomalyReasonDayCounts: "{value} trucks on {date}; daily median is {median}",
+    anomalyReasonDayTons: "{value}t on {date}; daily median is {median}t",
+    materialBenchmarksLabel: "Per-material benchmark (min)",
+    deriveFromMedians: "Derive from medians",
+    materialBenchmarkFallback: "Blank materials use the global benchmark of {minutes} min",
+    materialMedian: "median {minutes}m",
+    alertsTitle: "Live Alerts",
+    alertsEmpty: "No alerts yet",
+    alertSnooze: "Snooze",
+    alertResume: "Resume (until {time})",
+    alertLowRate: "{truck} ({material}) rate {value}% is below {limit}%",
+    alertOverdue: "{truck} ({material}) in progress for {value} min, over {limit} min",
+    alertAvgRate: "Day average rate dropped to {value}%, below {limit}%",
+    alertRulesLabel: "Alert Rules",
+    alertEnabled: "Enabled",
+    alertNotify: "Browser notifications",
+    alertSound: "Sound",
+    alertNotifyBlocked: "Notifications are blocked by the browser; allow them in site settings",
+    alertRuleLowRate: "New truck below threshold",
+    alertRuleOverdue: "In progress longer than",
+    alertOverdueFactor: "× benchmark",
+    alertRuleAvgRate: "Day average rate drops below threshold",
+    lastUpdated: "Last updated {time}",
+    refreshFailed: "Refresh failed, showing data from {time}",
+    badgeNew: "New",
+    badgeCompleted: "Done",
+    dateFormatLabel: "Date format",
+    dateFormatAuto: "Auto-detect",
+    dateFormatYmd: "Year first (YYYY-MM-DD)",
+    dateFormatDmy: "Day first (DD/MM/YYYY)",
+    dateFormatMdy: "Month first (MM/DD/YYYY)",
+    dateFormatSerial: "Spreadsheet serial (Excel/Sheets)",
+    dateFormatDetected: "Detected: {format}",
+    ganttTitle: "Yard Timeline",
+    ganttPeak: "Peak on site",
+    ganttAverage: "Avg on site",
+    ganttBays: "Bays needed",
+    ganttIdle: "Idle ≥{minutes}m (gaps/min)",
+    ganttConcurrency: "Trucks on site",
+    ganttEmpty: "No trucks on the selected day",
+    weekdayNames: "Mon,Tue,Wed,Thu,Fri,Sat,Sun",
+    heatmapCell: "{day} {hour}h: {count} trucks",
+    boxplotSummary: "min {min} · Q1 {q1} · median {median} · Q3 {q3} · max {max} (min)",
+    boxplotMean: "Mean",
+    boxplotOutliers: "{count} outliers",
+    scorecardTitle: "Truck & Carrier Scorecard",
+    scorecardByTruck: "By truck",
+    scorecardByCarrier: "By carrier",
+    scorecardNoCarrierRules: "Add carrier rules in settings first",
+    scorecardCarrier: "Carrier",
+    scorecardTrucks: "Trucks",
+    scorecardVisits: "Visits",
+    scorecardTons: "Tons",
+    scorecardMedianTime: "Median time",
+    scorecardAvgTime: "Avg time",
+    scorecardAlertShare: "Alert share",
+    scorecardTrend: "Daily visits",
+    carrierUnassigned: "Unassigned",
+    carrierRulesLabel: "Carrier Rules",
+    carrierRuleCount: "{count} rules",
+    carrierRulesHint: "One per line: plate = carrier. End with * to match a prefix; exact plates win, then the longest prefix.",
+    statTopN: "TOP {n} Total",
+    paretoOthers: "Others ({count})",
+    paretoByTons: "By tonnage",
+    paretoByCounts: "By truck count",
+    paretoByTime: "By handling time",
+    paretoTopN: "Top {n}",
+    paretoClasses: "A / B / C classes",
+    paretoClassFormula: "Classed by cumulative share: A until 80% of the total, B from 80% to 95%, C for the rest. Materials folded into Others still count toward their own class.",
+    colShare: "Share (%)",
+    colClass: "ABC class",
+    insightsFailed: "Failed to generate AI insights. Please check your connection or API key.",
+    sourceNotPersisted: "The file is too large to keep in browser storage. It is shown for this session only; after a reload the previous data source is used again.",
+    effRefBenchmark: "Dashed line: expected average {minutes}m (material benchmarks)",
+    effRefTarget: "Dashed line: daily target {minutes}m",
+    reportFailed: "Failed to generate the PDF report. Please try again."
   },
   hi: {
     title: "रसद डैशबोर्ड v7.5",
-    liveStatus: "🚚 लाइव स्थिति प्रबंधन (07:00-07:00)",
+    liveStatus: "🚚 लाइव स्थिति प्रबंधन",
     totalUnits: "कुल इकाइयां",
     avgRate: "औसत दर",
-    pareto: "📊 पारेतो विश्लेषण (सामग्री प्रकार TOP 10)",
+    pareto: "📊 पारेतो विश्लेषण (सामग्री प्रकार)",
     frequency: "📦 आवृत्ति रुझान",
     tonnage: "⚖️ दैनिक वजन विश्लेषण",
     efficiency: "⏱️ कार्य समय विश्लेषण",
@@ -125,7 +625,6 @@ export const I18N: Record<Language, TranslationSet> = {
     effTotal: "दैनिक कार्य समय",
     selectDate: "तारीख चुनें",
     analysisTitle: "विश्लेषण डेटा",
-    statTop10: "शीर्ष 10 वजन",
     statRangeTotal: "कुल वजन",
     statRatio: "अनुपात (%)",
     statAvgDayWeight: "औसत वजन/दिन",
@@ -136,7 +635,7 @@ export const I18N: Record<Language, TranslationSet> = {
     statAvgWorkTime: "प्रति ट्रक औसत समय",
     statTimeDist: "समय वितरण",
     statOperationRate: "परिचालन दर (%)",
-    operationRateFormula: "सूत्र: (बेस / वास्तविक) * 100",
+    operationRateFormula: "सूत्र: (सामग्री बेस, अन्यथा वैश्विक बेस / वास्तविक) * 100",
     chartAnimation: "एनीमेशन सेटिंग्स",
     animationStatus: "स्थिति",
     animationDurationLabel: "अंतराल (S)",
@@ -145,6 +644,228 @@ export const I18N: Record<Language, TranslationSet> = {
     loginRequired: "लॉग इन करें",
     loginAction: "लॉग इन करें",
     logoutAction: "साइन आउट",
-    statFetchDays: "फ़ेच दिन"
+    statFetchDays: "फ़ेच दिन",
+    aiModelLabel: "🤖 AI विश्लेषण मॉडल",
+    aiModelGemini: "Gemini (क्लाउड)",
+    aiModelLocal: "स्थानीय ऑफ़लाइन मॉडल",
+    userNameLabel: "उपयोगकर्ता नाम",
+    signedInAs: "लॉग इन",
+    insightsEmpty: "वर्तमान सीमा के लिए अंतर्दृष्टि बनाने हेतु \"रुझानों का विश्लेषण करें\" दबाएं",
+    insightVolume: "{days} शिफ्ट दिनों में {count} ट्रक और {tons}t संभाले गए",
+    insightBottleneck: "बाधा सामग्री: {mat} का औसत {avg}m प्रति ट्रक, कुल औसत {overall}m",
+    insightPeak: "आगमन का चरम समय {hour}:00, {peak} ट्रक",
+    insightAction: "{hour}:00 से पहले अनलोडिंग बे आवंटित करें और {mat} को प्राथमिकता दें",
+    insightNoData: "वर्तमान सीमा में विश्लेषण हेतु कोई डेटा नहीं",
+    dataSourceLabel: "🔌 डेटा स्रोत",
+    sourceSheet: "Google शीट (प्रकाशित CSV)",
+    sourceUrl: "कस्टम CSV / JSON URL",
+    sourceFile: "स्थानीय फ़ाइल अपलोड करें",
+    sourceFixture: "नमूना परीक्षण डेटा",
+    sourceUrlLabel: "स्रोत URL",
+    sourceFormat: "प्रारूप",
+    formatAuto: "स्वतः पहचान",
+    dropFileHint: "CSV / JSON फ़ाइल यहां छोड़ें, या चुनने के लिए क्लिक करें",
+    fixtureHint: "परीक्षण और डेमो के लिए 14 दिनों का अंतर्निहित नमूना डेटा",
+    columnMappingTitle: "🧩 कॉलम मैपिंग",
+    mappingOpen: "कॉलम मैप करें",
+    mappingAuto: "स्वतः",
+    mappingManual: "मैनुअल",
+    mappingUnmapped: "— मैप नहीं —",
+    mappingRequired: "आवश्यक",
+    mappingSample: "नमूना",
+    mappingReset: "स्वतः पहचान पर रीसेट करें",
+    mappingMissing: "⚠️ आवश्यक कॉलम नहीं मिले, डेटा लोड नहीं हुआ: {fields}",
+    fieldTruckNo: "ट्रक नंबर",
+    fieldMaterial: "सामग्री",
+    fieldTotalTime: "कुल समय (मिनट)",
+    fieldWeight: "वजन (kg)",
+    diagnosticsTitle: "🩺 आयात निदान",
+    diagnosticsTotal: "कुल पंक्तियां",
+    diagnosticsOk: "ठीक",
+    diagnosticsWarnings: "चेतावनियां",
+    diagnosticsErrors: "अस्वीकृत",
+    diagnosticsEmpty: "सभी पंक्तियां सत्यापन में सफल",
+    diagnosticsRow: "पंक्ति",
+    diagnosticsReasons: "कारण",
+    issueBadArrival: "आगमन समय पढ़ा नहीं जा सका",
+    issueBadEnd: "समाप्ति समय पढ़ा नहीं जा सका",
+    issueEndBeforeArrival: "समाप्ति समय आगमन से पहले है",
+    issueNegativeWeight: "ऋणात्मक वजन",
+    issueZeroWeight: "शून्य वजन",
+    issueDurationMismatch: "कुल समय समाप्ति − आगमन से मेल नहीं खाता",
+    issueDuplicate: "डुप्लिकेट ट्रक + आगमन",
+    issueMissingTruck: "ट्रक नंबर अनुपस्थित",
+    inventory: "🏭 इन्वेंटरी ट्रैकिंग (मिक्सर / गोदाम)",
+    fieldMxStock: "मिक्सर स्टॉक (t)",
+    fieldWhStock: "गोदाम स्टॉक (t)",
+    inboundTons: "आवक टन",
+    lowStockMixer: "📉 मिक्सर न्यून स्टॉक स्तर (t)",
+    lowStockWarehouse: "📉 गोदाम न्यून स्टॉक स्तर (t)",
+    statLatestMixer: "नवीनतम मिक्सर स्टॉक",
+    statLatestWarehouse: "नवीनतम गोदाम स्टॉक",
+    statLowStockDays: "न्यून स्टॉक दिन",
+    noStockData: "डेटा स्रोत में स्टॉक कॉलम नहीं हैं",
+    statUtilization: "लक्ष्य उपयोग (%)",
+    utilizationFormula: "सूत्र: दैनिक कुल कार्य समय / (लक्ष्य घंटे × 60) × 100",
+    statDaysMet: "लक्ष्य पूर्ण दिन",
+    targetProgress: "आज की लक्ष्य प्रगति",
+    allShifts: "सभी शिफ्ट",
+    splitByShift: "शिफ्ट अनुसार विभाजित",
+    shiftCalendarLabel: "🗓️ शिफ्ट कैलेंडर",
+    shiftName: "शिफ्ट नाम",
+    shiftStart: "आरंभ समय",
+    addShift: "शिफ्ट जोड़ें",
+    dayBoundaryLabel: "दिन सीमा (खाली = सबसे पहली शिफ्ट)",
+    timeZoneLabel: "🌐 संयंत्र समय क्षेत्र (IANA)",
+    invalidTimeZone: "अमान्य समय क्षेत्र, अभी डिफ़ॉल्ट उपयोग हो रहा है",
+    filterMaterialPlaceholder: "जोड़ने के लिए चुनें या लिखें...",
+    filterWeight: "वज़न",
+    filterDuration: "अवधि",
+    filterStatus: "स्थिति",
+    filterMin: "न्यूनतम",
+    filterMax: "अधिकतम",
+    statusAll: "सभी",
+    statusCompleted: "पूर्ण",
+    statusInProgress: "प्रगति में",
+    noActiveFilters: "कोई फ़िल्टर लागू नहीं",
+    clearFilters: "सभी हटाएँ",
+    shareView: "इस दृश्य का लिंक कॉपी करें",
+    copyChartLink: "इस चार्ट का लिंक कॉपी करें",
+    linkCopied: "लिंक क्लिपबोर्ड पर कॉपी हो गया!",
+    drillTitle: "{point} — ट्रक विवरण",
+    drillSearch: "ट्रक, सामग्री या समय खोजें...",
+    drillDuration: "अवधि",
+    drillWeight: "वज़न",
+    drillRate: "दर",
+    drillJumpToDay: "लाइव मॉनिटर में यह दिन खोलें",
+    drillEmpty: "कोई मेल खाता ट्रक रिकॉर्ड नहीं",
+    explorerTitle: "डेटा एक्सप्लोरर और निर्यात",
+    explorerTrips: "ट्रिप्स",
+    explorerTimeline: "दैनिक योग",
+    explorerPareto: "सामग्री रैंकिंग",
+    explorerFlow: "प्रति घंटा प्रवाह",
+    explorerEmpty: "चयनित सीमा में कोई पंक्ति नहीं",
+    colDate: "तारीख",
+    colTons: "टन",
+    colCounts: "ट्रक",
+    colWorkTime: "कार्य समय (मि)",
+    colAvgTime: "औसत समय (मि)",
+    colCumulative: "संचयी (%)",
+    colHour: "घंटा",
+    reportTitle: "शिफ्ट रिपोर्ट",
+    reportFilePrefix: "shift_report",
+    reportPeriod: "रिपोर्ट अवधि",
+    reportPeriodRange: "वर्तमान फ़िल्टर अवधि",
+    reportPeriodDay: "एक शिफ्ट दिवस",
+    reportLanguage: "रिपोर्ट भाषा",
+    reportIncludeInsights: "AI अंतर्दृष्टि शामिल करें",
+    reportGenerate: "PDF बनाएँ",
+    reportGenerating: "बन रहा है...",
+    reportGeneratedAt: "बनाया गया",
+    reportAlerts: "दर सीमा से नीचे के ट्रक",
+    reportAlertCount: "अलर्ट",
+    reportNoAlerts: "सभी ट्रक सीमा पर खरे उतरे",
+    reportMoreAlerts: "और अलर्ट सूचीबद्ध नहीं",
+    plantNameLabel: "🏭 संयंत्र का नाम (रिपोर्ट शीर्षक)",
+    compareLabel: "तुलना करें",
+    compareOff: "तुलना नहीं",
+    comparePrevious: "पिछली अवधि",
+    compareLastMonth: "पिछले महीने की समान अवधि",
+    compareCustom: "कस्टम आधार अवधि",
+    compareBaseline: "आधार",
+    forecastOff: "पूर्वानुमान नहीं",
+    forecastDays: "{days} दिन पूर्वानुमान",
+    forecastSeries: "पूर्वानुमान (अगले {days} दिन)",
+    forecastBand: "95% सीमा",
+    statForecastTotal: "अगले {days} दिन का अनुमान",
+    statForecastError: "बैकटेस्ट त्रुटि (MAPE)",
+    forecastFormula: "साप्ताहिक मौसम के साथ Holt-Winters; {days} दिनों के {folds} रोलिंग बैकटेस्ट पर औसत निरपेक्ष % त्रुटि",
+    anomaliesTitle: "विसंगतियाँ",
+    anomaliesEmpty: "इस अवधि में कोई विसंगति नहीं",
+    anomalyMethod: "मज़बूत z-स्कोर (माध्यिका/MAD) ≥ {z}",
+    anomalyHigh: "अधिक",
+    anomalyLow: "कम",
+    anomalyKindDuration: "अवधि",
+    anomalyKindWeight: "वज़न",
+    anomalyKindDayCounts: "दैनिक ट्रक",
+    anomalyKindDayTons: "दैनिक टन",
+    anomalyReasonDuration: "{truck} ({material}) ने {value} मि लिए; इस सामग्री की माध्यिका {median} मि है",
+    anomalyReasonWeight: "{truck} ({material}) ने {value}t ढोया; इस सामग्री की माध्यिका {median}t है",
+    anomalyReasonDayCounts: "{date} को {value} ट्रक; दैनिक माध्यिका {median} है",
+    anomalyReasonDayTons: "{date} को {value}t; दैनिक माध्यिका {median}t है",
+    materialBenchmarksLabel: "सामग्री अनुसार बेंचमार्क (मिनट)",
+    deriveFromMedians: "माध्यिका से भरें",
+    materialBenchmarkFallback: "खाली सामग्री वैश्विक बेंचमार्क {minutes} मिनट का उपयोग करती है",
+    materialMedian: "माध्यिका {minutes}m",
+    alertsTitle: "लाइव अलर्ट",
+    alertsEmpty: "अभी तक कोई अलर्ट नहीं",
+    alertSnooze: "स्नूज़",
+    alertResume: "फिर शुरू करें ({time} तक)",
+    alertLowRate: "{truck} ({material}) दर {value}% है, {limit}% से कम",
+    alertOverdue: "{truck} ({material}) {value} मिनट से प्रगति में, {limit} मिनट से अधिक",
+    alertAvgRate: "दिन की औसत दर {value}% पर गिरी, {limit}% से कम",
+    alertRulesLabel: "अलर्ट नियम",
+    alertEnabled: "सक्षम",
+    alertNotify: "ब्राउज़र सूचनाएँ",
+    alertSound: "ध्वनि",
+    alertNotifyBlocked: "ब्राउज़र ने सूचनाएँ रोकी हैं; साइट सेटिंग्स में अनुमति दें",
+    alertRuleLowRate: "सीमा से नीचे नया ट्रक",
+    alertRuleOverdue: "प्रगति में इससे अधिक",
+    alertOverdueFactor: "× बेंचमार्क",
+    alertRuleAvgRate: "दिन की औसत दर सीमा से नीचे",
+    lastUpdated: "अंतिम अपडेट {time}",
+    refreshFailed: "रीफ़्रेश विफल, {time} का डेटा दिखाया जा रहा है",
+    badgeNew: "नया",
+    badgeCompleted: "पूर्ण",
+    dateFormatLabel: "तारीख प्रारूप",
+    dateFormatAuto: "स्वतः पहचान",
+    dateFormatYmd: "वर्ष पहले (YYYY-MM-DD)",
+    dateFormatDmy: "दिन पहले (DD/MM/YYYY)",
+    dateFormatMdy: "महीना पहले (MM/DD/YYYY)",
+    dateFormatSerial: "स्प्रेडशीट सीरियल (Excel/Sheets)",
+    dateFormatDetected: "पहचाना गया: {format}",
+    ganttTitle: "यार्ड टाइमलाइन",
+    ganttPeak: "अधिकतम एक साथ",
+    ganttAverage: "औसत उपस्थित",
+    ganttBays: "आवश्यक बे",
+    ganttIdle: "निष्क्रिय ≥{minutes}m (अंतराल/मिनट)",
+    ganttConcurrency: "साइट पर ट्रक",
+    ganttEmpty: "चयनित दिन कोई ट्रक नहीं",
+    weekdayNames: "सोम,मंगल,बुध,गुरु,शुक्र,शनि,रवि",
+    heatmapCell: "{day} {hour}h: {count} ट्रक",
+    boxplotSummary: "न्यूनतम {min} · Q1 {q1} · माध्यिका {median} · Q3 {q3} · अधिकतम {max} (मिनट)",
+    boxplotMean: "औसत",
+    boxplotOutliers: "{count} असामान्य मान",
+    scorecardTitle: "ट्रक और ट्रांसपोर्टर स्कोरकार्ड",
+    scorecardByTruck: "ट्रक के अनुसार",
+    scorecardByCarrier: "ट्रांसपोर्टर के अनुसार",
+    scorecardNoCarrierRules: "पहले सेटिंग्स में ट्रांसपोर्टर नियम जोड़ें",
+    scorecardCarrier: "ट्रांसपोर्टर",
+    scorecardTrucks: "ट्रक",
+    scorecardVisits: "फेरे",
+    scorecardTons: "टन",
+    scorecardMedianTime: "माध्यिका समय",
+    scorecardAvgTime: "औसत समय",
+    scorecardAlertShare: "अलर्ट हिस्सा",
+    scorecardTrend: "दैनिक फेरे",
+    carrierUnassigned: "अनिर्दिष्ट",
+    carrierRulesLabel: "ट्रांसपोर्टर नियम",
+    carrierRuleCount: "{count} नियम",
+    carrierRulesHint: "प्रति पंक्ति एक: प्लेट = ट्रांसपोर्टर। उपसर्ग के लिए अंत में * लगाएँ; सटीक प्लेट पहले, फिर सबसे लंबा उपसर्ग।",
+    statTopN: "शीर्ष {n} कुल",
+    paretoOthers: "अन्य ({count})",
+    paretoByTons: "टन के अनुसार",
+    paretoByCounts: "ट्रक संख्या के अनुसार",
+    paretoByTime: "हैंडलिंग समय के अनुसार",
+    paretoTopN: "शीर्ष {n}",
+    paretoClasses: "A / B / C वर्ग",
+    paretoClassFormula: "संचयी हिस्से से वर्गीकरण: कुल के 80% तक A, 80% से 95% तक B, शेष C। ‘अन्य’ में जोड़ी गई सामग्री भी अपने वर्ग में गिनी जाती है।",
+    colShare: "हिस्सा (%)",
+    colClass: "ABC वर्ग",
+    insightsFailed: "AI अंतर्दृष्टि नहीं बन सकी। कृपया अपना कनेक्शन या API कुंजी जाँचें।",
+    sourceNotPersisted: "फ़ाइल ब्राउज़र स्टोरेज में रखने के लिए बहुत बड़ी है। यह केवल इस सत्र में दिखेगी; रीलोड के बाद पिछला डेटा स्रोत फिर से उपयोग होगा।",
+    effRefBenchmark: "डैश रेखा: अपेक्षित औसत {minutes}m (सामग्री बेंचमार्क)",
+    effRefTarget: "डैश रेखा: दैनिक लक्ष्य {minutes}m",
+    reportFailed: "PDF रिपोर्ट नहीं बन सकी। कृपया फिर से प्रयास करें।"
   }
 };
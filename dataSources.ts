@@ -0,0 +1,100 @@
+import { CSV_URL } from './constants.ts';
+import { DataSourceConfig } from './types.ts';
+import { robustParseCSV, formatDateToISO, getPlantNow } from './utils.ts';
+
+// --- Data Sources ---
+// Every source resolves to a raw table: a header row followed by data rows.
+// Column detection and row mapping happen downstream and are source-agnostic.
+
+export interface DataSource {
+  load: () => Promise<string[][]>;
+}
+
+export const DEFAULT_SOURCE_CONFIG: DataSourceConfig = {
+  kind: 'sheet',
+  url: CSV_URL,
+  format: 'auto'
+};
+
+/**
+ * Appends a cache-busting parameter so published sheets are not served stale.
+ */
+function withCacheBuster(url: string): string {
+  return `${url}${url.includes('?') ? '&' : '?'}cb=${Date.now()}`;
+}
+
+async function fetchText(url: string): Promise<string> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Data source responded with HTTP ${res.status}`);
+  return res.text();
+}
+
+/**
+ * Turns a JSON array of flat objects (or an object wrapping one under `data`/`rows`)
+ * into a header row plus value rows, using the union of keys as headers.
+ */
+export function jsonToTable(text: string): string[][] {
+  const parsed = JSON.parse(text);
+  const list: any[] = Array.isArray(parsed) ? parsed : (parsed.data || parsed.rows || []);
+  if (!Array.isArray(list) || list.length === 0) return [];
+  if (Array.isArray(list[0])) return list.map((r: any[]) => r.map(v => (v == null ? "" : String(v))));
+  const headers = Array.from(new Set(list.flatMap(r => Object.keys(r))));
+  return [headers, ...list.map(r => headers.map(h => (r[h] == null ? "" : String(r[h]))))];
+}
+
+/**
+ * Parses text as JSON or CSV. `auto` sniffs the first non-blank character.
+ */
+export function parseTable(text: string, format: DataSourceConfig['format'] = 'auto'): string[][] {
+  const isJson = format === 'json' || (format === 'auto' && /^\s*[[{]/.test(text));
+  return isJson ? jsonToTable(text) : robustParseCSV(text);
+}
+
+const FIXTURE_MATERIALS = ["Coal", "Limestone", "Gypsum", "Iron Ore", "Slag", "Fly Ash"];
+
+/**
+ * Deterministic sample data covering `days` shift days up to `anchor`,
+ * using the same header names as the production sheet.
+ */
+export function buildFixtureTable(anchor: Date, days = 14): string[][] {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const stamp = (d: Date) => `${formatDateToISO(d)} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+  const rows: string[][] = [["車號", "原材料", "進場時間", "結束時間", "作業總時間", "重量", "攪拌機庫存", "倉庫庫存"]];
+  let seed = 42;
+  const rand = () => { seed = (seed * 16807) % 2147483647; return seed / 2147483647; };
+
+  for (let day = days - 1; day >= 0; day--) {
+    const trucks = 8 + Math.floor(rand() * 8);
+    for (let i = 0; i < trucks; i++) {
+      const arrival = new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate() - day, 7, 0);
+      arrival.setMinutes(Math.floor(rand() * 22 * 60));
+      const mins = 30 + Math.floor(rand() * 60);
+      const end = new Date(arrival.getTime() + mins * 60000);
+      rows.push([
+        `TR-${pad(1 + Math.floor(rand() * 40))}`,
+        FIXTURE_MATERIALS[Math.floor(rand() * FIXTURE_MATERIALS.length)],
+        stamp(arrival),
+        stamp(end),
+        String(mins),
+        String(18000 + Math.floor(rand() * 14000)),
+        (20 + rand() * 100).toFixed(1),
+        (100 + rand() * 400).toFixed(1)
+      ]);
+    }
+  }
+  return rows;
+}
+
+export function createDataSource(config: DataSourceConfig, timeZone?: string): DataSource {
+  switch (config.kind) {
+    case 'url':
+      return { load: async () => parseTable(await fetchText(config.url || ''), config.format) };
+    case 'file':
+      return { load: async () => (config.fileContent ? parseTable(config.fileContent, config.format) : []) };
+    case 'fixture':
+      return { load: async () => buildFixtureTable(getPlantNow(timeZone)) };
+    case 'sheet':
+    default:
+      return { load: async () => robustParseCSV(await fetchText(withCacheBuster(config.url || CSV_URL))) };
+  }
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { detectDateFormat, formatDateTime, parseDateTime, ResolvedDateFormat } from './dateFormats.ts';
+
+// vitest.config.ts pins TZ to UTC, so wall-clock and offset cases read the same everywhere.
+const parse = (value: string, format: ResolvedDateFormat) => {
+  const d = parseDateTime(value, format);
+  return d && formatDateTime(d);
+};
+
+describe('parseDateTime', () => {
+  it.each<[string, string, ResolvedDateFormat, string | null]>([
+    ['ymd with dashes', '2025-03-04 08:15', 'ymd', '2025-03-04 08:15'],
+    ['ymd with slashes and T', '2025/3/4T08:15', 'dmy', '2025-03-04 08:15'],
+    ['ymd date only', '2025.03.04', 'mdy', '2025-03-04 00:00'],
+    ['dmy', '04/03/2025 08:15', 'dmy', '2025-03-04 08:15'],
+    ['mdy', '03/04/2025 08:15', 'mdy', '2025-03-04 08:15'],
+    ['03/04 read day first', '03/04/2025', 'dmy', '2025-04-03 00:00'],
+    ['03/04 read month first', '03/04/2025', 'mdy', '2025-03-04 00:00'],
+    ['year-first ignores the format', '2025-03-04 08:15', 'mdy', '2025-03-04 08:15'],
+    ['seconds kept', '2025-03-04 08:15:42', 'ymd', '2025-03-04 08:15:42'],
+    ['fractional seconds dropped', '2025-03-04 08:15:42.250', 'ymd', '2025-03-04 08:15:42'],
+    ['two-digit year dmy', '04/03/25 08:15', 'dmy', '2025-03-04 08:15'],
+    ['two-digit year mdy', '03-04-25', 'mdy', '2025-03-04 00:00'],
+    ['zero-width and nbsp trimmed', '​2025-03-04 08:15 ', 'ymd', '2025-03-04 08:15']
+  ])('%s', (_, value, format, expected) => {
+    expect(parse(value, format)).toBe(expected);
+  });
+
+  it.each<[string, string | null]>([
+    ['2025-03-04 8:15 AM', '2025-03-04 08:15'],
+    ['2025-03-04 8:15 PM', '2025-03-04 20:15'],
+    ['2025-03-04 12:00 AM', '2025-03-04 00:00'],
+    ['2025-03-04 12:00 PM', '2025-03-04 12:00'],
+    ['2025-03-04 12:30 a.m.', '2025-03-04 00:30'],
+    ['2025-03-04 3:15:09 pm', '2025-03-04 15:15:09'],
+    ['2025/03/04 上午 12:05', '2025-03-04 00:05'],
+    ['2025/03/04 下午 3:15:00', '2025-03-04 15:15'],
+    ['2025/03/04 上午 11:59:59', '2025-03-04 11:59:59'],
+    ['2025-03-04 13:00 PM', null],
+    ['2025-03-04 0:30 AM', null]
+  ])('12-hour clock: %s', (value, expected) => {
+    expect(parse(value, 'ymd')).toBe(expected);
+  });
+
+  it.each<[string, string | null]>([
+    ['45720', '2025-03-04 00:00'],
+    ['45720.5', '2025-03-04 12:00'],
+    ['45720.34375', '2025-03-04 08:15'],
+    ['29221', '1980-01-01 00:00'],
+    ['29220', null],
+    ['73050', '2099-12-31 00:00'],
+    ['73051', null]
+  ])('Excel serial %s', (value, expected) => {
+    expect(parse(value, 'serial')).toBe(expected);
+  });
+
+  it('leaves bare numbers alone unless the column is serial', () => {
+    expect(parseDateTime('45720', 'dmy')).toBeNull();
+    expect(parseDateTime('45720', 'ymd')).toBeNull();
+  });
+
+  it.each<[string, string]>([
+    ['2025-03-04T08:15:00Z', '2025-03-04 08:15'],
+    ['2025-03-04T08:15:00.500Z', '2025-03-04 08:15'],
+    ['2025-03-04T08:15:00+05:30', '2025-03-04 02:45'],
+    ['2025-03-04 08:15+0800', '2025-03-04 00:15'],
+    ['2025-03-04T01:15:00-03:00', '2025-03-04 04:15']
+  ])('ISO instant %s', (value, expected) => {
+    expect(parse(value, 'dmy')).toBe(expected);
+  });
+
+  it('maps ISO instants to plant wall clock when given a converter', () => {
+    const toTaipei = (instant: Date) => new Date(instant.getTime() + 8 * 3600000);
+    const d = parseDateTime('2025-03-04T23:30:00Z', 'ymd', toTaipei);
+    expect(d && formatDateTime(d)).toBe('2025-03-05 07:30');
+  });
+
+  it.each<[string, ResolvedDateFormat]>([
+    ['31/02/2025', 'dmy'],
+    ['02/31/2025', 'mdy'],
+    ['2025-02-29', 'ymd'],
+    ['2025-04-31 08:00', 'ymd'],
+    ['2025-13-01', 'ymd'],
+    ['00/01/2025', 'dmy'],
+    ['2025-03-04 24:00', 'ymd'],
+    ['2025-03-04 08:60', 'ymd'],
+    ['2025-03-04 soon', 'ymd']
+  ])('rejects %s', (value, format) => {
+    expect(parseDateTime(value, format)).toBeNull();
+  });
+
+  it('accepts 29 February in a leap year', () => {
+    expect(parse('29/02/2024', 'dmy')).toBe('2024-02-29 00:00');
+  });
+
+  it('returns null for empty input', () => {
+    expect(parseDateTime('', 'ymd')).toBeNull();
+    expect(parseDateTime('   ', 'ymd')).toBeNull();
+  });
+});
+
+describe('detectDateFormat', () => {
+  it.each<[string, string[], ResolvedDateFormat | undefined, ResolvedDateFormat]>([
+    ['a day above 12 means day first', ['01/02/2025', '13/02/2025'], undefined, 'dmy'],
+    ['a second part above 12 means month first', ['02/01/2025', '02/13/2025'], undefined, 'mdy'],
+    ['the majority of deciding values wins', ['02/13/2025', '03/14/2025', '13/02/2025'], undefined, 'mdy'],
+    ['a tie keeps day first', ['02/13/2025', '13/02/2025'], undefined, 'dmy'],
+    ['no deciding value keeps the fallback', ['01/02/2025', '03/04/2025'], 'mdy', 'mdy'],
+    ['year-first values', ['2025-03-04 08:00', '2025-03-05 09:00'], 'mdy', 'ymd'],
+    ['day-first values outrank year-first ones', ['2025-03-04', '13/03/2025'], undefined, 'dmy'],
+    ['serials in the majority', ['45720', '45720.5', '2025-03-04'], undefined, 'serial'],
+    ['serials in the minority', ['45720', '2025-03-04', '2025-03-05'], undefined, 'ymd'],
+    ['numbers outside the serial range', ['12', '345', '7'], 'mdy', 'mdy'],
+    ['empty and blank cells', ['', '  '], 'ymd', 'ymd'],
+    ['no cells at all', [], undefined, 'dmy']
+  ])('%s', (_, values, fallback, expected) => {
+    expect(detectDateFormat(values, fallback)).toBe(expected);
+  });
+});
@@ -0,0 +1,142 @@
+import { DateFormat, TranslationSet } from './types.ts';
+
+// --- Date/Time Formats ---
+// Sheets disagree on date order, so the order is decided once per column from a
+// sample of its values (or pinned in settings) instead of guessed per cell.
+// Every import stores times as "YYYY-MM-DD HH:MM[:SS]" plant wall clock, which is
+// all smartParseDate needs to read later on.
+
+export type ResolvedDateFormat = Exclude<DateFormat, 'auto'>;
+
+export const DATE_FORMATS: ResolvedDateFormat[] = ['ymd', 'dmy', 'mdy', 'serial'];
+
+export const DATE_FORMAT_LABEL_KEYS: Record<ResolvedDateFormat, keyof TranslationSet> = {
+  ymd: 'dateFormatYmd',
+  dmy: 'dateFormatDmy',
+  mdy: 'dateFormatMdy',
+  serial: 'dateFormatSerial'
+};
+
+// Serial day 0 of Google Sheets / Excel (1900 system, leap-year bug included).
+const SERIAL_EPOCH = { year: 1899, month: 11, day: 30 };
+// Days 1980-01-01 .. 2099-12-31; other bare numbers are not dates.
+const SERIAL_MIN = 29221;
+const SERIAL_MAX = 73050;
+const SAMPLE_SIZE = 200;
+
+const YMD_RE = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/;
+const XY_YEAR_RE = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})(?!\d)/;
+const SERIAL_RE = /^\d+(\.\d+)?$/;
+const OFFSET_RE = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?\s*(Z|[+-]\d{2}:?\d{2})$/i;
+const TIME_RE = /(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?/;
+const MERIDIEM_RE = /\b(am|pm|a\.m\.|p\.m\.)|(上午|下午|午前|午後)/i;
+
+function clean(str: string): string {
+  return str.trim().replace(/[\u200B-\u200D\uFEFF]/g, '').replace(/\u00a0/g, ' ');
+}
+
+function buildDate(year: number, month: number, day: number, h: number, m: number, s: number): Date | null {
+  if (year < 100) year += 2000;
+  if (month < 1 || month > 12 || day < 1 || day > 31 || h > 23 || m > 59 || s > 59) return null;
+  const d = new Date(year, month - 1, day, h, m, s);
+  // Rejects rollovers such as 31/02.
+  return d.getMonth() === month - 1 ? d : null;
+}
+
+/**
+ * Time of day from the text after the date: 24h or 12h, optional seconds.
+ * The AM/PM marker may sit before or after the time ("下午 3:15:00").
+ */
+function parseTime(rest: string): [number, number, number] | null {
+  const t = TIME_RE.exec(rest);
+  if (!t) return rest.trim() ? null : [0, 0, 0];
+  let h = parseInt(t[1]);
+  const marker = MERIDIEM_RE.exec(rest);
+  if (marker) {
+    const pm = /^p|下午|午後/i.test(marker[0]);
+    if (h < 1 || h > 12) return null;
+    h = (h % 12) + (pm ? 12 : 0);
+  }
+  return [h, parseInt(t[2]), t[3] ? parseInt(t[3]) : 0];
+}
+
+function parseSerial(value: number): Date | null {
+  if (value < SERIAL_MIN || value > SERIAL_MAX) return null;
+  const days = Math.floor(value);
+  const seconds = Math.round((value - days) * 86400);
+  return new Date(SERIAL_EPOCH.year, SERIAL_EPOCH.month, SERIAL_EPOCH.day + days, 0, 0, seconds);
+}
+
+/**
+ * Parses one cell. `format` only settles the order of two-number-plus-year
+ * dates and whether bare numbers are serials; unambiguous shapes (YYYY-first,
+ * ISO with offset) are read whatever it says. Offset timestamps are instants
+ * and go through `toWallClock` when given, else the browser's own zone.
+ */
+export function parseDateTime(str: string, format: ResolvedDateFormat, toWallClock?: (instant: Date) => Date): Date | null {
+  if (!str) return null;
+  const s = clean(str);
+  if (!s) return null;
+
+  const offset = OFFSET_RE.exec(s);
+  if (offset) {
+    const instant = new Date(s.replace(' ', 'T').replace(/([+-]\d{2})(\d{2})$/, '$1:$2'));
+    if (isNaN(instant.getTime())) return null;
+    return toWallClock ? toWallClock(instant) : instant;
+  }
+
+  if (SERIAL_RE.test(s)) return format === 'serial' ? parseSerial(parseFloat(s)) : null;
+
+  const ymd = YMD_RE.exec(s);
+  if (ymd) {
+    const time = parseTime(s.slice(ymd[0].length).replace(/^T/, ' '));
+    return time && buildDate(parseInt(ymd[1]), parseInt(ymd[2]), parseInt(ymd[3]), ...time);
+  }
+
+  const xy = XY_YEAR_RE.exec(s);
+  if (xy) {
+    const time = parseTime(s.slice(xy[0].length));
+    const [a, b, year] = [parseInt(xy[1]), parseInt(xy[2]), parseInt(xy[3])];
+    return time && (format === 'mdy' ? buildDate(year, a, b, ...time) : buildDate(year, b, a, ...time));
+  }
+
+  // Month names and other shapes the browser understands ("4 Mar 2025 08:15").
+  const d = new Date(s);
+  return isNaN(d.getTime()) ? null : d;
+}
+
+/**
+ * Format of a column from a sample of its values. Serials need a majority; for
+ * dd/mm vs mm/dd only a part above 12 decides, and a column with none keeps `fallback`.
+ */
+export function detectDateFormat(values: string[], fallback: ResolvedDateFormat = 'dmy'): ResolvedDateFormat {
+  const sample = values.map(v => clean(v || '')).filter(Boolean).slice(0, SAMPLE_SIZE);
+  if (sample.length === 0) return fallback;
+
+  let serial = 0, ymd = 0, dayFirst = 0, monthFirst = 0;
+  sample.forEach(v => {
+    if (SERIAL_RE.test(v)) {
+      if (parseSerial(parseFloat(v))) serial++;
+      return;
+    }
+    if (YMD_RE.test(v)) { ymd++; return; }
+    const xy = XY_YEAR_RE.exec(v);
+    if (!xy) return;
+    if (parseInt(xy[1]) > 12) dayFirst++;
+    else if (parseInt(xy[2]) > 12) monthFirst++;
+  });
+
+  if (serial > sample.length / 2) return 'serial';
+  if (dayFirst > 0 || monthFirst > 0) return monthFirst > dayFirst ? 'mdy' : 'dmy';
+  if (ymd > 0) return 'ymd';
+  return fallback;
+}
+
+/**
+ * Canonical storage form; seconds are kept only when present.
+ */
+export function formatDateTime(d: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const time = `${pad(d.getHours())}:${pad(d.getMinutes())}${d.getSeconds() ? `:${pad(d.getSeconds())}` : ''}`;
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${time}`;
+}
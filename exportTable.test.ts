@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { tableToCSV, toTableRows } from './exportTable.ts';
+
+describe('toTableRows', () => {
+  it('keeps string and number fields and drops the rest', () => {
+    const rows = toTableRows([{ name: 'Coal', tons: 12.5, others: undefined, flag: true }]);
+    expect(rows).toEqual([{ name: 'Coal', tons: 12.5 }]);
+  });
+});
+
+describe('tableToCSV', () => {
+  it('quotes cells with commas, quotes or line breaks', () => {
+    const csv = tableToCSV({
+      id: 't',
+      title: 'T',
+      columns: [{ key: 'name', label: 'Name' }, { key: 'note', label: 'Note' }],
+      rows: toTableRows([{ name: 'Coal, fine', note: 'say "hi"' }, { name: 'Sand' }])
+    });
+    expect(csv).toBe('Name,Note\r\n"Coal, fine","say ""hi"""\r\nSand,');
+  });
+});
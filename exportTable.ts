@@ -0,0 +1,82 @@
+import * as XLSX from 'xlsx';
+
+// --- Table Export ---
+// A table is a list of labelled columns over plain rows, so the explorer grid,
+// CSV and XLSX all read the same definition.
+
+export type CellValue = string | number;
+
+export interface TableColumn {
+  key: string;
+  label: string;
+  numeric?: boolean;
+}
+
+export type TableRow = Record<string, CellValue>;
+
+export interface DataTable {
+  id: string;
+  title: string;
+  columns: TableColumn[];
+  rows: TableRow[];
+}
+
+// Some browsers start the download only after click() returns, so the URL
+// has to outlive it for a moment.
+const REVOKE_DELAY_MS = 1000;
+
+/**
+ * Table rows from typed records: string and number fields are kept, anything
+ * else (missing optionals, flags) is left out of the row.
+ */
+export function toTableRows<T extends object>(items: T[]): TableRow[] {
+  return items.map(item => {
+    const row: TableRow = {};
+    Object.entries(item).forEach(([key, value]) => {
+      if (typeof value === 'string' || typeof value === 'number') row[key] = value;
+    });
+    return row;
+  });
+}
+
+function csvCell(value: CellValue | undefined): string {
+  const s = value == null ? '' : String(value);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function tableToCSV(table: DataTable): string {
+  const lines = [table.columns.map(c => csvCell(c.label)).join(',')];
+  table.rows.forEach(r => lines.push(table.columns.map(c => csvCell(r[c.key])).join(',')));
+  return lines.join('\r\n');
+}
+
+function triggerDownload(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
+
+/**
+ * The BOM makes Excel open the UTF-8 file with Chinese and Hindi headers intact.
+ */
+export function downloadCSV(table: DataTable, fileName: string) {
+  triggerDownload(new Blob(['\uFEFF' + tableToCSV(table)], { type: 'text/csv;charset=utf-8' }), `${fileName}.csv`);
+}
+
+export function downloadXLSX(table: DataTable, fileName: string) {
+  const aoa: CellValue[][] = [
+    table.columns.map(c => c.label),
+    ...table.rows.map(r => table.columns.map(c => r[c.key] ?? ''))
+  ];
+  const sheet = XLSX.utils.aoa_to_sheet(aoa);
+  sheet['!cols'] = table.columns.map(c => ({ wch: Math.max(10, c.label.length + 2) }));
+  const book = XLSX.utils.book_new();
+  // Sheet names are capped at 31 characters and may not contain []:*?/\
+  XLSX.utils.book_append_sheet(book, sheet, table.title.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Sheet1');
+  XLSX.writeFile(book, `${fileName}.xlsx`);
+}
@@ -0,0 +1,71 @@
+import { FilterState, NumberRange, ShiftCalendar, TruckData } from './types.ts';
+import { getShiftDayWindow } from './shifts.ts';
+import { smartParseDate } from './utils.ts';
+
+// --- Record Filters ---
+// matchesFilters covers every dimension except the date range, which depends on
+// the shift calendar; filterRows applies both.
+
+export const EMPTY_FILTERS: Omit<FilterState, 'startDate' | 'endDate'> = {
+  materials: [],
+  truckNo: '',
+  weight: {},
+  duration: {},
+  status: 'all'
+};
+
+export function isRangeSet(range: NumberRange): boolean {
+  return range.min != null || range.max != null;
+}
+
+function inRange(value: number, range: NumberRange): boolean {
+  return (range.min == null || value >= range.min) && (range.max == null || value <= range.max);
+}
+
+// What the source writes in the end-time column while a truck is still on site.
+export const IN_PROGRESS_MARKER = '⏳';
+
+/**
+ * An empty end time or the source's in-progress marker: the trip has not ended yet.
+ */
+export function isPendingEnd(endTime: string): boolean {
+  const v = (endTime || '').trim();
+  return v === '' || v === IN_PROGRESS_MARKER;
+}
+
+/**
+ * A trip is completed once it has a parseable end time.
+ */
+export function isCompletedTrip(row: TruckData): boolean {
+  return !!row.endTime && !!smartParseDate(row.endTime);
+}
+
+export function matchesFilters(row: TruckData, filters: FilterState): boolean {
+  if (filters.materials.length > 0 && !filters.materials.includes(row.matName)) return false;
+  if (filters.truckNo && !row.truckNo.toLowerCase().includes(filters.truckNo.trim().toLowerCase())) return false;
+  if (!inRange(row.weight / 1000, filters.weight)) return false;
+  if (!inRange(row.totalTime, filters.duration)) return false;
+  if (filters.status !== 'all' && isCompletedTrip(row) !== (filters.status === 'completed')) return false;
+  return true;
+}
+
+export function countActiveFilters(filters: FilterState): number {
+  return filters.materials.length
+    + (filters.truckNo.trim() ? 1 : 0)
+    + (isRangeSet(filters.weight) ? 1 : 0)
+    + (isRangeSet(filters.duration) ? 1 : 0)
+    + (filters.status !== 'all' ? 1 : 0);
+}
+
+/**
+ * Rows arriving within the shift days startDate..endDate that match every other filter.
+ */
+export function filterRows(data: TruckData[], filters: FilterState, calendar: ShiftCalendar): TruckData[] {
+  const s = getShiftDayWindow(filters.startDate, calendar);
+  const e = getShiftDayWindow(filters.endDate, calendar);
+  if (!s || !e) return [];
+  return data.filter(r => {
+    const d = smartParseDate(r.arrivalTime);
+    return d && d >= s.start && d < e.end && matchesFilters(r, filters);
+  });
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { backtestForecast, dropPartialDay, fitForecast, forecastTimeline, mergeForecast, SEASON_LENGTH } from './forecast.ts';
+import { TimelinePoint } from './types.ts';
+
+const WEEKLY = [30, 10, 0, -5, -10, -25, 0];
+
+// 100 plus 2 per day of trend, a weekly pattern and a small deterministic wobble.
+const seasonal = (day: number) => 100 + 2 * day + WEEKLY[day % SEASON_LENGTH] + 3 * Math.sin(day * 1.7);
+
+const dateOf = (day: number) => {
+  const d = new Date(2025, 0, 6 + day);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const timelineOf = (values: number[]): TimelinePoint[] =>
+  values.map((v, day) => ({ date: dateOf(day), tons: v, counts: Math.round(v / 10), time: 0, avgTime: 0 }));
+
+describe('forecastTimeline', () => {
+  it('follows trend and weekly season within a few percent', () => {
+    const history = Array.from({ length: 56 }, (_, d) => seasonal(d));
+    const forecast = forecastTimeline(timelineOf(history), 'tons', 7);
+
+    expect(forecast.map(p => p.date)).toEqual(Array.from({ length: 7 }, (_, h) => dateOf(56 + h)));
+    forecast.forEach((p, h) => {
+      const actual = seasonal(56 + h);
+      expect(Math.abs(p.value - actual) / actual).toBeLessThan(0.05);
+      expect(p.lower).toBeLessThanOrEqual(p.value);
+      expect(p.upper).toBeGreaterThanOrEqual(p.value);
+    });
+  });
+
+  it('backtests the same series with a small error', () => {
+    const result = backtestForecast(timelineOf(Array.from({ length: 56 }, (_, d) => seasonal(d))), 'tons', 7);
+    expect(result.folds).toBe(3);
+    expect(result.mape).not.toBeNull();
+    expect(result.mape!).toBeLessThan(5);
+  });
+
+  it('fills days without trucks with zero so the weekday pattern holds', () => {
+    const timeline = timelineOf(Array.from({ length: 21 }, (_, d) => seasonal(d))).filter((_, d) => d !== 10);
+    const forecast = forecastTimeline(timeline, 'tons', 1);
+    expect(forecast[0].date).toBe(dateOf(21));
+  });
+});
+
+describe('short series', () => {
+  it('repeats last week when there are fewer than two seasons', () => {
+    const values = Array.from({ length: 10 }, (_, d) => seasonal(d));
+    const { forecast } = fitForecast(values, 9);
+    expect(forecast).toEqual([...values.slice(3), ...values.slice(3, 5)]);
+  });
+
+  it('falls back to the mean for less than a week', () => {
+    expect(fitForecast([10, 20, 30], 2).forecast).toEqual([20, 20]);
+  });
+
+  it('reports no folds when every cut is shorter than a season', () => {
+    expect(backtestForecast(timelineOf([10, 20, 30, 40, 50, 60, 70, 80]), 'tons', 7)).toEqual({ mape: null, mae: 0, folds: 0 });
+  });
+
+  it('returns nothing for an empty timeline', () => {
+    expect(forecastTimeline([], 'tons', 7)).toEqual([]);
+  });
+});
+
+describe('partial current day', () => {
+  const history = timelineOf([...Array.from({ length: 28 }, (_, d) => seasonal(d)), 12]);
+  const today = dateOf(28);
+
+  it('is left out of the fit', () => {
+    const complete = dropPartialDay(history, today);
+    expect(complete).toHaveLength(28);
+    const forecast = forecastTimeline(complete, 'tons', 3);
+    expect(forecast[0].date).toBe(today);
+    expect(forecast[0].value).toBeGreaterThan(100);
+  });
+
+  it('keeps its actual value but anchors the dashed line on the last full day', () => {
+    const forecast = forecastTimeline(dropPartialDay(history, today), 'tons', 2);
+    const rows = mergeForecast(history, 'tons', forecast);
+    const yesterday = rows.find(r => r.date === dateOf(27))!;
+    const partial = rows.find(r => r.date === today)!;
+
+    expect(yesterday.fc_tons).toBe(yesterday.tons);
+    expect(partial.tons).toBe(12);
+    expect(partial.fc_tons).toBe(forecast[0].value);
+    expect(rows).toHaveLength(30);
+  });
+});
@@ -0,0 +1,187 @@
+import { TimelinePoint } from './types.ts';
+import { dayOffset } from './comparison.ts';
+import { formatDateToISO } from './utils.ts';
+
+// --- Throughput Forecast ---
+// Additive Holt-Winters with a weekly season over the daily timeline. Days
+// without trucks count as zero, so gaps do not shift the weekday pattern.
+// Series shorter than two weeks fall back to seasonal-naive (same weekday last
+// week) and then to the plain mean. The shift day still in progress is left
+// out of the fit, since its partial total would read as a sudden drop.
+
+export const SEASON_LENGTH = 7;
+const Z_95 = 1.96;
+const GRID = [0.1, 0.3, 0.5, 0.7];
+
+export type ForecastKey = 'tons' | 'counts';
+
+export interface ForecastPoint {
+  date: string;
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+export interface BacktestResult {
+  mape: number | null; // mean absolute percentage error over non-zero actuals
+  mae: number;
+  folds: number;
+}
+
+interface FitResult {
+  forecast: number[];
+  residualSd: number;
+}
+
+function addDays(dateStr: string, days: number): string {
+  const [y, m, d] = dateStr.split('-').map(Number);
+  return formatDateToISO(new Date(y, m - 1, d + days));
+}
+
+/**
+ * The timeline without `currentDay`, the shift day that has not finished yet.
+ */
+export function dropPartialDay(timeline: TimelinePoint[], currentDay: string): TimelinePoint[] {
+  return timeline.filter(p => p.date !== currentDay);
+}
+
+/**
+ * Continuous daily values from the first to the last timeline date.
+ */
+export function toDailySeries(timeline: TimelinePoint[], key: ForecastKey): { start: string; values: number[] } {
+  if (timeline.length === 0) return { start: '', values: [] };
+  const sorted = [...timeline].sort((a, b) => a.date.localeCompare(b.date));
+  const start = sorted[0].date;
+  const values = new Array(dayOffset(start, sorted[sorted.length - 1].date) + 1).fill(0);
+  sorted.forEach(p => { values[dayOffset(start, p.date)] += p[key]; });
+  return { start, values };
+}
+
+function stdDev(residuals: number[]): number {
+  if (residuals.length < 2) return 0;
+  const mean = residuals.reduce((a, b) => a + b, 0) / residuals.length;
+  return Math.sqrt(residuals.reduce((a, b) => a + (b - mean) ** 2, 0) / (residuals.length - 1));
+}
+
+function holtWinters(values: number[], horizon: number, alpha: number, beta: number, gamma: number): FitResult & { sse: number } {
+  const m = SEASON_LENGTH;
+  const firstSeason = values.slice(0, m);
+  const secondSeason = values.slice(m, 2 * m);
+  const mean1 = firstSeason.reduce((a, b) => a + b, 0) / m;
+  const mean2 = secondSeason.reduce((a, b) => a + b, 0) / m;
+  let level = mean1;
+  let trend = (mean2 - mean1) / m;
+  const season = firstSeason.map(v => v - mean1);
+  const residuals: number[] = [];
+
+  for (let i = m; i < values.length; i++) {
+    const s = season[i % m];
+    residuals.push(values[i] - (level + trend + s));
+    const prevLevel = level;
+    level = alpha * (values[i] - s) + (1 - alpha) * (level + trend);
+    trend = beta * (level - prevLevel) + (1 - beta) * trend;
+    season[i % m] = gamma * (values[i] - level) + (1 - gamma) * s;
+  }
+
+  const forecast = Array.from({ length: horizon }, (_, h) => level + (h + 1) * trend + season[(values.length + h) % m]);
+  return { forecast, residualSd: stdDev(residuals), sse: residuals.reduce((a, b) => a + b * b, 0) };
+}
+
+function seasonalNaive(values: number[], horizon: number): FitResult {
+  const m = SEASON_LENGTH;
+  const residuals = values.slice(m).map((v, i) => v - values[i]);
+  const lastSeason = values.slice(-m);
+  return { forecast: Array.from({ length: horizon }, (_, h) => lastSeason[h % m]), residualSd: stdDev(residuals) };
+}
+
+function meanForecast(values: number[], horizon: number): FitResult {
+  const mean = values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+  return { forecast: new Array(horizon).fill(mean), residualSd: stdDev(values.map(v => v - mean)) };
+}
+
+/**
+ * Point forecasts for `horizon` days after the series. Holt-Winters smoothing
+ * parameters are picked by a small grid search on in-sample one-step error.
+ */
+export function fitForecast(values: number[], horizon: number): FitResult {
+  if (values.length >= 2 * SEASON_LENGTH) {
+    let best: (FitResult & { sse: number }) | null = null;
+    for (const alpha of GRID) for (const beta of GRID.slice(0, 2)) for (const gamma of GRID) {
+      const fit = holtWinters(values, horizon, alpha, beta, gamma);
+      if (!best || fit.sse < best.sse) best = fit;
+    }
+    return best!;
+  }
+  if (values.length >= SEASON_LENGTH) return seasonalNaive(values, horizon);
+  return meanForecast(values, horizon);
+}
+
+/**
+ * Dated forecast with a 95% band that widens with the square root of the lead time.
+ */
+export function forecastTimeline(timeline: TimelinePoint[], key: ForecastKey, horizon: number): ForecastPoint[] {
+  const { start, values } = toDailySeries(timeline, key);
+  if (values.length === 0 || horizon <= 0) return [];
+  const { forecast, residualSd } = fitForecast(values, horizon);
+  const lastDate = addDays(start, values.length - 1);
+  return forecast.map((v, h) => {
+    const value = Math.max(0, v);
+    const spread = Z_95 * residualSd * Math.sqrt(h + 1);
+    const round = (n: number) => parseFloat(n.toFixed(key === 'tons' ? 1 : 0));
+    return { date: addDays(lastDate, h + 1), value: round(value), lower: round(Math.max(0, v - spread)), upper: round(v + spread) };
+  });
+}
+
+/**
+ * Rolling-origin backtest: for each fold, fit on everything before the cut
+ * and score the next `horizon` days.
+ */
+export function backtestForecast(timeline: TimelinePoint[], key: ForecastKey, horizon: number, folds = 3): BacktestResult {
+  const { values } = toDailySeries(timeline, key);
+  let absErr = 0, pctErr = 0, pctCount = 0, count = 0, used = 0;
+  for (let f = folds; f >= 1; f--) {
+    const cut = values.length - f * horizon;
+    if (cut < SEASON_LENGTH) continue;
+    const actual = values.slice(cut, cut + horizon);
+    const { forecast } = fitForecast(values.slice(0, cut), actual.length);
+    actual.forEach((a, i) => {
+      const err = Math.abs(a - Math.max(0, forecast[i]));
+      absErr += err;
+      count++;
+      if (a > 0) { pctErr += err / a; pctCount++; }
+    });
+    used++;
+  }
+  return {
+    mape: pctCount > 0 ? parseFloat(((pctErr / pctCount) * 100).toFixed(1)) : null,
+    mae: count > 0 ? parseFloat((absErr / count).toFixed(2)) : 0,
+    folds: used
+  };
+}
+
+/**
+ * Adds fc_<key> and fc_<key>_band ([lower, upper]) to the chart rows, appending
+ * rows for future dates. The last actual point also gets fc_<key> so the
+ * dashed line continues from it.
+ */
+export function mergeForecast<T extends { date: string }>(rows: T[], key: ForecastKey, forecast: ForecastPoint[]): (T & Record<string, any>)[] {
+  if (forecast.length === 0) return rows;
+  const out: Record<string, any>[] = rows.map(r => ({ ...r }));
+  // Rows appended by an earlier merge carry no actual value for this key, and a
+  // partial day left out of the fit is overlaid by the forecast, not anchored to.
+  const last = out.filter(r => typeof r[key] === 'number' && r.date < forecast[0].date).reduce<Record<string, any> | null>((a, r) => (!a || r.date > a.date ? r : a), null);
+  if (last) {
+    last[`fc_${key}`] = last[key];
+    last[`fc_${key}_band`] = [last[key], last[key]];
+  }
+  forecast.forEach(p => {
+    let row = out.find(r => r.date === p.date);
+    if (!row) {
+      row = { date: p.date };
+      out.push(row);
+    }
+    row[`fc_${key}`] = p.value;
+    row[`fc_${key}_band`] = [p.lower, p.upper];
+  });
+  return out.sort((a, b) => a.date.localeCompare(b.date)) as (T & Record<string, any>)[];
+}
@@ -1,41 +1,122 @@
-
 import { GoogleGenAI } from "@google/genai";
+import { I18N } from './constants.ts';
+import { InsightModelId, Language } from './types.ts';
+import { AnalysisSummary } from './aiSummary.ts';
+import { fillTemplate } from './utils.ts';
+
+export interface InsightRequest {
+  prompt: string;
+  summary: AnalysisSummary;
+  language: Language;
+}
+
+/**
+ * A model turns an insight request into a bulleted text answer.
+ * Register new backends in INSIGHT_MODELS.
+ */
+export type InsightModel = (request: InsightRequest) => Promise<string>;
+
+const LANGUAGE_NAMES: Record<Language, string> = {
+  zh: "Traditional Chinese (繁體中文)",
+  en: "English",
+  hi: "Hindi (हिन्दी)"
+};
 
-export async function analyzeLogisticsData(data: any, language: string) {
+const geminiModel: InsightModel = async ({ prompt }) => {
   // Fix: Create instance inside function to ensure the latest API key is used and follow initialization rules.
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
-  // Create a summary string of the data to keep tokens low
-  const summary = JSON.stringify(data.slice(0, 50)); 
+  // Fix: Use gemini-3-pro-preview for complex reasoning and data analysis tasks.
+  const response = await ai.models.generateContent({
+    model: "gemini-3-pro-preview",
+    contents: prompt,
+    config: {
+      temperature: 0.7,
+      topP: 0.9,
+    }
+  });
+  // Fix: Access .text property directly (not a method).
+  return response.text ?? "";
+};
+
+/**
+ * Offline stand-in: derives the same kind of bullets from the summary locally,
+ * so the panel works without network access or an API key.
+ */
+const localModel: InsightModel = async ({ summary, language }) => {
+  const t = I18N[language];
+  const { rangeSummary, pareto, flow, outliers } = summary;
+  if (rangeSummary.totalCounts === 0) return `- ${t.insightNoData}`;
+
+  const peak = Math.max(...flow.map(h => h.count));
+  const hour = String(flow.findIndex(h => h.count === peak)).padStart(2, '0');
+
+  // The material that produces the most slow outliers is reported as the bottleneck.
+  const byMat: Record<string, { time: number; count: number }> = {};
+  outliers.items.forEach(o => {
+    if (!byMat[o.matName]) byMat[o.matName] = { time: 0, count: 0 };
+    byMat[o.matName].time += o.totalTime;
+    byMat[o.matName].count++;
+  });
+  const worst = Object.entries(byMat).sort((a, b) => b[1].count - a[1].count || b[1].time - a[1].time)[0];
+  const mat = worst ? worst[0] : pareto[0]?.name ?? '';
 
-  const prompt = `
-    As a world-class logistics data analyst, analyze the following recent truck movement data: ${summary}.
+  const lines = [fillTemplate(t.insightVolume, { count: rangeSummary.totalCounts, tons: rangeSummary.totalTons, days: rangeSummary.days })];
+  if (worst) {
+    lines.push(fillTemplate(t.insightBottleneck, { mat, avg: Math.round(worst[1].time / worst[1].count), overall: rangeSummary.avgEff }));
+  }
+  lines.push(fillTemplate(t.insightPeak, { hour, peak }));
+  lines.push(fillTemplate(t.insightAction, { hour, mat }));
+  return lines.map(line => `- ${line}`).join('\n');
+};
+
+export const INSIGHT_MODELS: Record<InsightModelId, InsightModel> = {
+  gemini: geminiModel,
+  local: localModel
+};
+
+/**
+ * The prompt sent to remote models: the summary JSON plus a field guide.
+ */
+export function buildInsightPrompt(summary: AnalysisSummary, language: Language): string {
+  const languageName = LANGUAGE_NAMES[language];
+  return `
+    As a world-class logistics data analyst, analyze the following pre-aggregated truck movement summary: ${JSON.stringify(summary)}.
+
+    Field guide (times in minutes, weights in tons, shift days start at dayBoundary and last 24 hours):
+    - shifts: the named shifts; keys ending in _s0, _s1, ... hold the per-shift split in that order.
+    - rangeSummary: totals and per-day averages for the selected range.
+    - timeline: per shift day tons, truck counts, summed work time and average time per truck.
+    - pareto: top 10 materials by tonnage; the entry with an empty name sums the remaining materials (others = how many). percentage is the cumulative share of the range total, abc the A/B/C class (A up to 80%, B up to 95%).
+    - flow: arrivals per hour of day across the range.
+    - outliers: trucks whose totalTime exceeds the threshold, slowest first.
+    - omitted: timeline days and outliers left out to keep the payload small.
     
-    The user is viewing a dashboard in ${language}. 
+    The user is viewing a dashboard in ${languageName}. 
     Provide 4-5 bullet points of high-level insights focusing on:
     1. Throughput efficiency trends.
     2. Notable bottlenecks based on 'totalTime'.
-    3. Shift peak hours distribution (07:00-07:00).
+    3. Peak hours distribution across the shifts.
     4. Actionable operational improvements.
 
-    MANDATORY: Return the answer as a CLEAR BULLETED LIST in ${language}. 
+    MANDATORY: Return the answer as a CLEAR BULLETED LIST in ${languageName}. 
     Do not provide a conversational intro, just the list of points.
   `;
+}
 
-  try {
-    // Fix: Use gemini-3-pro-preview for complex reasoning and data analysis tasks.
-    const response = await ai.models.generateContent({
-      model: "gemini-3-pro-preview",
-      contents: prompt,
-      config: {
-        temperature: 0.7,
-        topP: 0.9,
-      }
-    });
-    // Fix: Access .text property directly (not a method).
-    return response.text;
-  } catch (error) {
-    console.error("AI Analysis failed:", error);
-    return "Failed to generate AI insights. Please check your connection or API key.";
-  }
-}
\ No newline at end of file
+export async function analyzeLogisticsData(summary: AnalysisSummary, language: Language, modelId: InsightModelId = 'gemini') {
+  const prompt = buildInsightPrompt(summary, language);
+
+  // Failures propagate: the panel shows them as an error state, the report leaves insights out.
+  const model = INSIGHT_MODELS[modelId] || geminiModel;
+  return model({ prompt, summary, language });
+}
+
+/**
+ * Splits a model answer into bullet strings, dropping list markers and blank lines.
+ */
+export function parseInsightBullets(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.trim().replace(/^([-*•]|\d+[.)])\s*/, '').replace(/\*\*/g, ''))
+    .filter(line => line.length > 0);
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { buildOccupancy } from './occupancy.ts';
+import { TruckData } from './types.ts';
+
+const truck = (truckNo: string, arrivalTime: string, endTime: string): TruckData => ({
+  truckNo, matName: 'Coal', arrivalTime, endTime, totalTime: 0, weight: 20000, mxStock: 0, whStock: 0
+});
+
+// A two-hour window keeps the minute arithmetic readable.
+const WINDOW = { start: new Date(2025, 2, 4, 7, 0), end: new Date(2025, 2, 4, 9, 0) };
+const NOW = new Date(2025, 2, 4, 8, 30);
+
+describe('buildOccupancy', () => {
+  it('packs overlapping stays into lanes and reuses freed ones', () => {
+    const { bars, lanes, stats } = buildOccupancy([
+      truck('A', '2025-03-04 07:00', '2025-03-04 07:30'),
+      truck('B', '2025-03-04 07:10', '2025-03-04 07:40'),
+      truck('C', '2025-03-04 07:30', '2025-03-04 08:00')
+    ], WINDOW, NOW);
+
+    expect(bars.map(b => [b.truck.truckNo, b.start, b.end, b.lane])).toEqual([['A', 0, 30, 0], ['B', 10, 40, 1], ['C', 30, 60, 0]]);
+    expect(lanes).toBe(2);
+    expect(stats.peak).toBe(2);
+    expect(stats.peakAt).toBe(10);
+  });
+
+  it('runs in-progress stays to now', () => {
+    const { bars } = buildOccupancy([truck('A', '2025-03-04 08:00', '⏳')], WINDOW, NOW);
+    expect(bars[0]).toMatchObject({ start: 60, end: 90, inProgress: true });
+  });
+
+  it('keeps bars inside the window at its end', () => {
+    const { bars, length, curve } = buildOccupancy([
+      truck('LATE', '2025-03-04 09:00', ''),
+      truck('OVER', '2025-03-04 08:50', '2025-03-04 10:00')
+    ], WINDOW, new Date(2025, 2, 4, 9, 30));
+
+    expect(length).toBe(120);
+    expect(bars.every(b => b.end <= length)).toBe(true);
+    expect(bars.find(b => b.truck.truckNo === 'OVER')).toMatchObject({ start: 110, end: 120 });
+    expect(curve.every(p => Number.isFinite(p.count))).toBe(true);
+    expect(curve[curve.length - 1]).toEqual({ minute: 115, count: 1 });
+  });
+
+  it('reports idle gaps of at least the minimum length', () => {
+    const { stats } = buildOccupancy([
+      truck('A', '2025-03-04 07:00', '2025-03-04 07:10'),
+      truck('B', '2025-03-04 07:20', '2025-03-04 07:30'),
+      truck('C', '2025-03-04 08:00', '2025-03-04 08:10')
+    ], WINDOW, NOW);
+
+    expect(stats.idleGaps).toEqual([{ start: 30, end: 60 }]);
+    expect(stats.idleMinutes).toBe(30);
+  });
+});
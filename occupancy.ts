@@ -0,0 +1,95 @@
+import { TruckData } from './types.ts';
+import { isCompletedTrip } from './filters.ts';
+import { smartParseDate } from './utils.ts';
+
+// --- Yard Occupancy ---
+// Each truck occupies the yard from arrival to end (or "now" while in
+// progress). Bars are packed into the fewest lanes without overlap, so the
+// lane count equals peak concurrency: the number of unloading bays needed.
+
+// Shorter empty stretches are normal turnaround, not idle time.
+export const MIN_IDLE_GAP = 15;
+const CURVE_STEP = 5;
+
+export interface OccupancyBar<T extends TruckData> {
+  truck: T;
+  start: number; // minutes after the window start
+  end: number;
+  lane: number;
+  inProgress: boolean;
+}
+
+export interface IdleGap {
+  start: number;
+  end: number;
+}
+
+export interface OccupancyStats {
+  peak: number;
+  peakAt: number;      // minutes after the window start
+  average: number;     // trucks on site, averaged over the active span
+  idleGaps: IdleGap[];
+  idleMinutes: number;
+}
+
+export interface Occupancy<T extends TruckData> {
+  bars: OccupancyBar<T>[];
+  lanes: number;
+  length: number;      // window length in minutes
+  curve: { minute: number; count: number }[]; // max trucks on site per CURVE_STEP minutes
+  stats: OccupancyStats;
+}
+
+export function buildOccupancy<T extends TruckData>(items: T[], window: { start: Date; end: Date }, now: Date): Occupancy<T> {
+  const length = Math.round((window.end.getTime() - window.start.getTime()) / 60000);
+  const toMinute = (d: Date) => Math.max(0, Math.min(length, Math.round((d.getTime() - window.start.getTime()) / 60000)));
+
+  const spans = items.flatMap(truck => {
+    const arrival = smartParseDate(truck.arrivalTime);
+    if (!arrival) return [];
+    const inProgress = !isCompletedTrip(truck);
+    const end = inProgress ? now : smartParseDate(truck.endTime)!;
+    const start = toMinute(arrival);
+    // A zero-length stay still shows as a one-minute sliver, but never past the window.
+    return [{ truck, start, end: Math.min(length, Math.max(start + 1, toMinute(end))), inProgress }];
+  }).sort((a, b) => a.start - b.start);
+
+  // Greedy interval partitioning: reuse the first lane that is free again.
+  const laneEnds: number[] = [];
+  const bars: OccupancyBar<T>[] = spans.map(s => {
+    let lane = laneEnds.findIndex(end => end <= s.start);
+    if (lane < 0) lane = laneEnds.push(0) - 1;
+    laneEnds[lane] = s.end;
+    return { ...s, lane };
+  });
+
+  const perMinute = new Array(length + 1).fill(0);
+  bars.forEach(b => { perMinute[b.start]++; perMinute[b.end]--; });
+  for (let m = 1; m <= length; m++) perMinute[m] += perMinute[m - 1];
+
+  const curve: Occupancy<T>['curve'] = [];
+  for (let m = 0; m < length; m += CURVE_STEP) {
+    curve.push({ minute: m, count: Math.max(...perMinute.slice(m, Math.min(length, m + CURVE_STEP))) });
+  }
+
+  const stats: OccupancyStats = { peak: 0, peakAt: 0, average: 0, idleGaps: [], idleMinutes: 0 };
+  if (bars.length > 0) {
+    const first = bars[0].start;
+    const last = Math.max(...bars.map(b => b.end));
+    let total = 0, gapStart = -1;
+    for (let m = first; m < last; m++) {
+      const count = perMinute[m];
+      total += count;
+      if (count > stats.peak) { stats.peak = count; stats.peakAt = m; }
+      if (count === 0 && gapStart < 0) gapStart = m;
+      if (count > 0 && gapStart >= 0) {
+        if (m - gapStart >= MIN_IDLE_GAP) stats.idleGaps.push({ start: gapStart, end: m });
+        gapStart = -1;
+      }
+    }
+    stats.average = parseFloat((total / Math.max(1, last - first)).toFixed(1));
+    stats.idleMinutes = stats.idleGaps.reduce((a, g) => a + g.end - g.start, 0);
+  }
+
+  return { bars, lanes: laneEnds.length, length, curve, stats };
+}
@@ -0,0 +1,49 @@
+import html2canvas from 'html2canvas';
+import { jsPDF } from 'jspdf';
+
+// --- PDF Report ---
+// Sections are rasterised with html2canvas, the same path as the chart copy
+// button, so Chinese and Hindi text print with the page's own fonts.
+
+const PAGE_MARGIN = 10; // mm
+const SECTION_GAP = 4;  // mm
+
+/**
+ * Lays the sections out top to bottom on A4 portrait pages, starting a new
+ * page whenever the next section does not fit, and saves the file.
+ */
+export async function renderPdfReport(sections: HTMLElement[], fileName: string): Promise<void> {
+  const pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+  const pageW = pdf.internal.pageSize.getWidth();
+  const pageH = pdf.internal.pageSize.getHeight();
+  const maxW = pageW - PAGE_MARGIN * 2;
+  const maxH = pageH - PAGE_MARGIN * 2;
+  let y = PAGE_MARGIN;
+
+  for (const el of sections) {
+    const canvas = await html2canvas(el, { backgroundColor: '#ffffff', scale: 2 });
+    if (canvas.width === 0 || canvas.height === 0) continue;
+    let w = maxW;
+    let h = (canvas.height * w) / canvas.width;
+    if (h > maxH) {
+      h = maxH;
+      w = (canvas.width * h) / canvas.height;
+    }
+    if (y + h > pageH - PAGE_MARGIN && y > PAGE_MARGIN) {
+      pdf.addPage();
+      y = PAGE_MARGIN;
+    }
+    pdf.addImage(canvas.toDataURL('image/jpeg', 0.92), 'JPEG', PAGE_MARGIN + (maxW - w) / 2, y, w, h);
+    y += h + SECTION_GAP;
+  }
+
+  const pages = pdf.getNumberOfPages();
+  for (let i = 1; i <= pages; i++) {
+    pdf.setPage(i);
+    pdf.setFontSize(8);
+    pdf.setTextColor(148, 163, 184);
+    pdf.text(`${i} / ${pages}`, pageW - PAGE_MARGIN, pageH - 4, { align: 'right' });
+  }
+
+  pdf.save(`${fileName}.pdf`);
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { isEmptyDiff, mergeRows } from './rowDiff.ts';
+import { TruckData } from './types.ts';
+
+const truck = (truckNo: string, arrivalTime: string, endTime = '', weight = 20000): TruckData => ({
+  truckNo, matName: 'Coal', arrivalTime, endTime, totalTime: endTime ? 45 : 0, weight, mxStock: 0, whStock: 0
+});
+
+// Each refresh re-parses the source, so the next rows are always fresh objects.
+const copy = (rows: TruckData[]) => rows.map(r => ({ ...r }));
+
+const PREV = [
+  truck('A', '2025-03-04 08:00', '2025-03-04 08:45'),
+  truck('B', '2025-03-04 08:10'),
+  truck('C', '2025-03-04 08:20')
+];
+
+describe('mergeRows', () => {
+  it('keeps the previous array and rows when nothing changed', () => {
+    const { rows, diff } = mergeRows(PREV, copy(PREV));
+    expect(rows).toBe(PREV);
+    expect(rows.every((r, i) => r === PREV[i])).toBe(true);
+    expect(isEmptyDiff(diff)).toBe(true);
+  });
+
+  it('adds new trucks and keeps the identity of unchanged ones', () => {
+    const added = truck('D', '2025-03-04 08:30');
+    const { rows, diff } = mergeRows(PREV, [...copy(PREV), added]);
+    expect(rows).not.toBe(PREV);
+    expect(rows.slice(0, 3).every((r, i) => r === PREV[i])).toBe(true);
+    expect(rows[3]).toBe(added);
+    expect(diff).toEqual({ added: ['D|2025-03-04 08:30'], completed: [], changed: 0, removed: 0 });
+  });
+
+  it('reports a truck that gained an end time as completed', () => {
+    const next = copy(PREV);
+    next[1] = truck('B', '2025-03-04 08:10', '2025-03-04 09:00');
+    const { rows, diff } = mergeRows(PREV, next);
+    expect(rows[1]).toBe(next[1]);
+    expect(rows[0]).toBe(PREV[0]);
+    expect(rows[2]).toBe(PREV[2]);
+    expect(diff).toEqual({ added: [], completed: ['B|2025-03-04 08:10'], changed: 1, removed: 0 });
+  });
+
+  it('counts a changed row without calling it completed', () => {
+    const next = copy(PREV);
+    next[0] = truck('A', '2025-03-04 08:00', '2025-03-04 08:45', 21000);
+    expect(mergeRows(PREV, next).diff).toEqual({ added: [], completed: [], changed: 1, removed: 0 });
+  });
+
+  it('counts trucks missing from the refresh as removed', () => {
+    const { rows, diff } = mergeRows(PREV, copy(PREV.slice(1)));
+    expect(rows).toEqual(PREV.slice(1));
+    expect(rows.every((r, i) => r === PREV[i + 1])).toBe(true);
+    expect(diff).toEqual({ added: [], completed: [], changed: 0, removed: 1 });
+  });
+
+  it('returns a new array when only the order changed', () => {
+    const { rows, diff } = mergeRows(PREV, copy([...PREV].reverse()));
+    expect(isEmptyDiff(diff)).toBe(true);
+    expect(rows).not.toBe(PREV);
+    expect(rows).toEqual([PREV[2], PREV[1], PREV[0]]);
+    expect(rows[0]).toBe(PREV[2]);
+  });
+});
@@ -0,0 +1,54 @@
+import { TruckData } from './types.ts';
+import { isCompletedTrip } from './filters.ts';
+
+// --- Incremental Refresh ---
+// A refresh re-reads the whole source, but only rows whose content changed get
+// new objects. Unchanged rows keep their identity, and a refresh that changes
+// nothing keeps the previous array, so memoised charts do not recompute or re-animate.
+
+export interface RowDiff {
+  added: string[];      // keys of trucks not seen before
+  completed: string[];  // keys of trucks that gained an end time
+  changed: number;      // rows whose content changed, including completed ones
+  removed: number;
+}
+
+// Trucks have no id column; plate plus arrival is unique within a source.
+export const truckKey = (r: TruckData) => `${r.truckNo}|${r.arrivalTime}`;
+
+const FIELDS: (keyof TruckData)[] = ['truckNo', 'matName', 'arrivalTime', 'endTime', 'totalTime', 'weight', 'mxStock', 'whStock'];
+
+const sameRow = (a: TruckData, b: TruckData) => FIELDS.every(f => a[f] === b[f]);
+
+export function isEmptyDiff(diff: RowDiff): boolean {
+  return diff.added.length === 0 && diff.changed === 0 && diff.removed === 0;
+}
+
+/**
+ * Merges freshly parsed rows into the current ones, in the order of `next`.
+ * Returns `prev` itself when nothing changed.
+ */
+export function mergeRows(prev: TruckData[], next: TruckData[]): { rows: TruckData[]; diff: RowDiff } {
+  const byKey = new Map(prev.map(r => [truckKey(r), r]));
+  const diff: RowDiff = { added: [], completed: [], changed: 0, removed: 0 };
+  const seen = new Set<string>();
+  let reordered = prev.length !== next.length;
+
+  const rows = next.map((row, i) => {
+    const key = truckKey(row);
+    seen.add(key);
+    const old = byKey.get(key);
+    if (!old) {
+      diff.added.push(key);
+      return row;
+    }
+    if (prev[i] !== old) reordered = true;
+    if (sameRow(old, row)) return old;
+    diff.changed++;
+    if (!isCompletedTrip(old) && isCompletedTrip(row)) diff.completed.push(key);
+    return row;
+  });
+  byKey.forEach((_, key) => { if (!seen.has(key)) diff.removed++; });
+
+  return { rows: isEmptyDiff(diff) && !reordered ? prev : rows, diff };
+}
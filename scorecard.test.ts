@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { buildScorecard, ScorecardOptions } from './scorecard.ts';
+import { TruckData } from './types.ts';
+
+const truck = (truckNo: string, arrivalTime: string): TruckData => ({
+  truckNo, matName: 'Coal', arrivalTime, endTime: '', totalTime: 60, weight: 20000, mxStock: 0, whStock: 0
+});
+
+// The default calendar starts the plant day at 07:00.
+const opts = (overrides: Partial<ScorecardOptions> = {}): ScorecardOptions => ({
+  carrierRules: [],
+  materialBenchmarks: {},
+  benchmarkTime: 60,
+  warnThreshold: 70,
+  dates: ['2025-03-03', '2025-03-04', '2025-03-05'],
+  ...overrides
+});
+
+describe('buildScorecard trend', () => {
+  it('buckets visits by shift date, not calendar date', () => {
+    const [row] = buildScorecard([
+      truck('A', '2025-03-03 07:00'),
+      truck('A', '2025-03-04 06:59'),
+      truck('A', '2025-03-04 07:00'),
+      truck('A', '2025-03-05 23:30')
+    ], 'truck', opts());
+    expect(row.trend).toEqual([2, 1, 1]);
+  });
+
+  it('follows the day boundary of the shift calendar', () => {
+    const rows = [truck('A', '2025-03-04 05:30'), truck('A', '2025-03-04 06:30')];
+    expect(buildScorecard(rows, 'truck', opts()).at(0)?.trend).toEqual([2, 0, 0]);
+    const calendar = { shifts: [{ name: 'Night', start: '22:00' }, { name: 'Day', start: '06:00' }] };
+    expect(buildScorecard(rows, 'truck', opts({ calendar })).at(0)?.trend).toEqual([1, 1, 0]);
+  });
+
+  it('skips visits outside the dates and unparseable arrivals', () => {
+    const [row] = buildScorecard([
+      truck('A', '2025-03-03 06:00'),
+      truck('A', '2025-03-06 08:00'),
+      truck('A', 'not a date'),
+      truck('A', '2025-03-04 08:00')
+    ], 'truck', opts());
+    expect(row.visits).toBe(4);
+    expect(row.trend).toEqual([0, 1, 0]);
+  });
+
+  it('sums the trend of every truck in a carrier', () => {
+    const [row] = buildScorecard([
+      truck('KA01A', '2025-03-03 08:00'),
+      truck('KA01B', '2025-03-03 09:00'),
+      truck('KA01B', '2025-03-05 08:00')
+    ], 'carrier', opts({ carrierRules: [{ pattern: 'KA01*', carrier: 'City Logistics' }] }));
+    expect(row).toMatchObject({ key: 'City Logistics', visits: 3, trucks: 2, trend: [2, 0, 1] });
+  });
+});
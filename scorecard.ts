@@ -0,0 +1,65 @@
+import { CarrierRule, ShiftCalendar, TruckData } from './types.ts';
+import { DEFAULT_SHIFT_CALENDAR } from './constants.ts';
+import { getMaterialBenchmark, getTruckRate } from './analytics.ts';
+import { resolveCarrier } from './carriers.ts';
+import { getShiftDate } from './shifts.ts';
+import { smartParseDate, quantile } from './utils.ts';
+
+// --- Vehicle Scorecard ---
+// Visits grouped by truck, or by carrier through the carrier rules. Rates use
+// each visit's material benchmark, as in the live monitor.
+
+export type ScorecardGroup = 'truck' | 'carrier';
+
+export interface ScorecardRow {
+  key: string;         // truck number or carrier
+  visits: number;
+  trucks: number;      // distinct trucks, for carriers
+  tons: number;
+  medianTime: number;
+  avgTime: number;
+  avgRate: number;
+  alertShare: number;  // % of visits below the warning threshold
+  trend: number[];     // visits per day, aligned with the `dates` passed in
+}
+
+export interface ScorecardOptions {
+  carrierRules: CarrierRule[];
+  materialBenchmarks: Record<string, number>;
+  benchmarkTime: number;
+  warnThreshold: number;
+  dates: string[];     // shift dates of the range, ascending
+  calendar?: ShiftCalendar;
+}
+
+export function buildScorecard(data: TruckData[], group: ScorecardGroup, opts: ScorecardOptions): ScorecardRow[] {
+  const calendar = opts.calendar || DEFAULT_SHIFT_CALENDAR;
+  const dayIndex = new Map(opts.dates.map((d, i) => [d, i]));
+  const groups: Record<string, TruckData[]> = {};
+  data.forEach(r => {
+    const key = group === 'truck' ? r.truckNo : resolveCarrier(r.truckNo, opts.carrierRules);
+    (groups[key] = groups[key] || []).push(r);
+  });
+
+  return Object.entries(groups).map(([key, rows]) => {
+    const times = rows.map(r => r.totalTime).filter(t => t > 0).sort((a, b) => a - b);
+    const rates = rows.map(r => getTruckRate(r.totalTime, getMaterialBenchmark(r.matName, opts.materialBenchmarks, opts.benchmarkTime)));
+    const trend = new Array(opts.dates.length).fill(0);
+    rows.forEach(r => {
+      const d = smartParseDate(r.arrivalTime);
+      const i = d ? dayIndex.get(getShiftDate(d, calendar)) : undefined;
+      if (i !== undefined) trend[i]++;
+    });
+    return {
+      key,
+      visits: rows.length,
+      trucks: new Set(rows.map(r => r.truckNo)).size,
+      tons: parseFloat((rows.reduce((a, r) => a + r.weight, 0) / 1000).toFixed(1)),
+      medianTime: times.length > 0 ? Math.round(quantile(times, 0.5)) : 0,
+      avgTime: times.length > 0 ? Math.round(times.reduce((a, b) => a + b, 0) / times.length) : 0,
+      avgRate: Math.round(rates.reduce((a, b) => a + b, 0) / rates.length),
+      alertShare: Math.round((rates.filter(r => r < opts.warnThreshold).length / rates.length) * 100),
+      trend
+    };
+  }).sort((a, b) => b.visits - a.visits);
+}
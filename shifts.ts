@@ -0,0 +1,71 @@
+import { ShiftCalendar } from './types.ts';
+import { getShiftDateString } from './utils.ts';
+
+// --- Shift Calendar ---
+// A shift day starts at the day boundary (default: the earliest shift start)
+// and lasts 24 hours. Each arrival belongs to the latest shift that started
+// at or before its time of day.
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export const SHIFT_COLORS = ['#6366f1', '#f59e0b', '#10b981', '#ec4899', '#0ea5e9', '#8b5cf6'];
+
+/**
+ * "HH:mm" → minutes after midnight. Invalid values fall back to 0.
+ */
+export function parseClock(value: string): number {
+  const m = /^(\d{1,2}):(\d{2})/.exec((value || '').trim());
+  if (!m) return 0;
+  return (parseInt(m[1]) % 24) * 60 + (parseInt(m[2]) % 60);
+}
+
+export function formatClock(minutes: number): string {
+  const m = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return `${String(Math.floor(m / 60)).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}`;
+}
+
+export function getDayBoundary(calendar: ShiftCalendar): number {
+  if (calendar.dayBoundary) return parseClock(calendar.dayBoundary);
+  if (calendar.shifts.length === 0) return 7 * 60;
+  return Math.min(...calendar.shifts.map(s => parseClock(s.start)));
+}
+
+export function getShiftDate(date: Date, calendar: ShiftCalendar): string {
+  return getShiftDateString(date, getDayBoundary(calendar));
+}
+
+/**
+ * Index into calendar.shifts of the shift running at `date`.
+ */
+export function getShiftIndex(date: Date, calendar: ShiftCalendar): number {
+  if (calendar.shifts.length === 0) return 0;
+  const m = date.getHours() * 60 + date.getMinutes();
+  const order = calendar.shifts
+    .map((s, i) => ({ i, start: parseClock(s.start) }))
+    .sort((a, b) => a.start - b.start);
+  const current = order.filter(s => s.start <= m).pop() || order[order.length - 1];
+  return current.i;
+}
+
+/**
+ * Start and end time of day for one shift: it runs until the next shift starts.
+ */
+export function getShiftHours(calendar: ShiftCalendar, index: number): { start: string; end: string } {
+  const starts = calendar.shifts.map(s => parseClock(s.start)).sort((a, b) => a - b);
+  const start = parseClock(calendar.shifts[index]?.start || '');
+  const next = starts.find(s => s > start) ?? starts[0];
+  return { start: formatClock(start), end: formatClock(next ?? start) };
+}
+
+/**
+ * [start, end) of the shift day labelled `dateStr` (YYYY-MM-DD).
+ */
+export function getShiftDayWindow(dateStr: string, calendar: ShiftCalendar): { start: Date; end: Date } | null {
+  const m = /^(\d{4})-(\d{2})-(\d{2})/.exec(dateStr || '');
+  if (!m) return null;
+  const boundary = getDayBoundary(calendar);
+  const start = new Date(parseInt(m[1]), parseInt(m[2]) - 1, parseInt(m[3]), Math.floor(boundary / 60), boundary % 60);
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+  return { start, end };
+}
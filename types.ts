@@ -10,16 +10,151 @@ export interface TruckData {
   whStock: number;
 }
 
-export type ChartTypeOption = 'bar' | 'area' | 'line' | 'stepAfter' | 'radar' | 'composed';
+export interface TimelinePoint {
+  date: string; // shift date, YYYY-MM-DD
+  tons: number;
+  counts: number;
+  time: number;
+  avgTime: number;
+  // Per-shift breakdown: counts_s0, tons_s0, ... indexed like ShiftCalendar.shifts
+  [shiftKey: `${'counts' | 'tons'}_s${number}`]: number;
+}
+
+export interface RangeSummary {
+  totalTons: number;
+  totalCounts: number;
+  totalTime: number;
+  avgTonsPerDay: number;
+  avgCountsPerDay: number;
+  avgTotalWorkTimePerDay: number;
+  avgEff: number;
+  days: number;
+}
+
+// What the Pareto chart ranks materials by: tons, truck count or summed work minutes
+export type ParetoMetric = 'tons' | 'counts' | 'time';
+
+export type ParetoClass = 'A' | 'B' | 'C';
+
+export interface ParetoItem {
+  name: string;         // empty for the "Others" bucket
+  tons: number;
+  counts: number;
+  time: number;
+  share: number;        // % of the range total for the ranked metric
+  percentage: number;   // cumulative share, against the range total
+  abc?: ParetoClass;    // absent on the "Others" bucket, which mixes classes
+  others?: number;      // materials folded into the "Others" bucket
+}
+
+export interface ParetoData {
+  items: ParetoItem[];
+  metric: ParetoMetric;
+  total: number;
+  topTotal: number;     // the top-N bars, without "Others"
+  classCounts: Record<ParetoClass, number>;
+}
+
+export interface FlowData {
+  hrs: { hour: string; count: number; [shiftKey: `count_s${number}`]: number }[];
+  amStr: string;
+  pmStr: string;
+}
+
+export interface WeekdayHourRow {
+  weekday: number;   // 0 = Monday
+  hours: number[];   // arrivals per clock hour, 24 entries
+  total: number;
+}
+
+export interface DurationStats {
+  name: string;      // material
+  count: number;
+  range: [number, number]; // whisker ends: furthest points within 1.5 × IQR
+  q1: number;
+  median: number;
+  q3: number;
+  mean: number;
+  outliers: number[];
+  benchmark: number;
+}
+
+export interface InventoryPoint {
+  date: string; // shift date, YYYY-MM-DD
+  tons: number; // inbound tons of the material that day
+  mxStock: number; // last reading of the day
+  whStock: number;
+}
+
+export interface UtilizationData {
+  days: { date: string; time: number; utilization: number; met: boolean }[];
+  targetMinutes: number;
+  avgUtilization: number;
+  daysMet: number;
+}
+
+// heatmap and boxplot need their own data shape and are offered only where it exists
+export type ChartTypeOption = 'bar' | 'area' | 'line' | 'stepAfter' | 'radar' | 'composed' | 'heatmap' | 'boxplot';
+
+export type InsightModelId = 'gemini' | 'local';
+
+export interface CarrierRule {
+  pattern: string;   // exact truck number, or a prefix ending in "*"
+  carrier: string;
+}
+
+export type AlertKind = 'lowRate' | 'overdue' | 'avgRate';
+
+export interface AlertRules {
+  enabled: boolean;
+  notify: boolean;        // Web Notifications, once the browser grants permission
+  sound: boolean;
+  lowRate: boolean;       // a truck newly below warnThreshold
+  overdue: boolean;       // a truck still in progress after overdueFactor × its benchmark
+  overdueFactor: number;
+  avgRate: boolean;       // the day's average rate dropping below warnThreshold
+}
+
+export interface AlertEvent {
+  id: string;
+  kind: AlertKind;
+  at: number;             // epoch ms
+  value: number;          // rate % or elapsed minutes
+  limit: number;          // threshold % or overdue minutes
+  truckNo?: string;
+  material?: string;
+  silenced: boolean;      // raised while snoozed: logged only
+}
+
+// Date order of the source's time columns; 'serial' = Sheets/Excel day numbers
+export type DateFormat = 'auto' | 'ymd' | 'dmy' | 'mdy' | 'serial';
 
 export interface DashboardSettings {
+  // Shown in report headers; empty falls back to the dashboard title
+  plantName: string;
   refreshRate: number;
   benchmarkTime: number;
+  // Per-material benchmark minutes by matName; missing materials use benchmarkTime
+  materialBenchmarks: Record<string, number>;
   warnThreshold: number;
   warnColor: string;
   animationEnabled: boolean;
   animationDuration: number;
   targetHours: number;
+  aiModel: InsightModelId;
+  shiftCalendar: ShiftCalendar;
+  // IANA zone of the plant, e.g. "Asia/Kolkata" or "Asia/Taipei"
+  timeZone: string;
+  dateFormat: DateFormat;
+  // Low-stock alert levels in tons
+  stockThresholds: {
+    mixer: number;
+    warehouse: number;
+  };
+  alertRules: AlertRules;
+  carrierRules: CarrierRule[];
+  paretoMetric: ParetoMetric;
+  paretoTopN: number;
   chartTypes: {
     pareto: ChartTypeOption;
     tonnage: ChartTypeOption;
@@ -29,10 +164,73 @@ export interface DashboardSettings {
   };
 }
 
+export type DataSourceKind = 'sheet' | 'url' | 'file' | 'fixture';
+
+export interface DataSourceConfig {
+  kind: DataSourceKind;
+  url?: string;
+  format?: 'auto' | 'csv' | 'json';
+  fileName?: string;
+  fileContent?: string;
+  uploadedAt?: number; // epoch ms; tells apart uploads that share a file name
+}
+
+export type MappableField = 'truckNo' | 'matName' | 'arrivalTime' | 'endTime' | 'totalTime' | 'weight' | 'mxStock' | 'whStock';
+
+// Header name pinned per field; unset fields fall back to keyword detection.
+export type ColumnMapping = Partial<Record<MappableField, string>>;
+
+export interface ShiftDefinition {
+  name: string;
+  start: string; // HH:mm
+}
+
+export interface ShiftCalendar {
+  shifts: ShiftDefinition[];
+  // HH:mm where the shift day rolls over; defaults to the earliest shift start
+  dayBoundary?: string;
+}
+
+export interface ReportOptions {
+  period: 'range' | 'day'; // the filter range, or one shift day
+  day: string;             // YYYY-MM-DD, used when period is 'day'
+  lang: Language;
+  includeInsights: boolean;
+}
+
+// A clicked chart point, resolved back to the rows it aggregates.
+export interface DrillTarget {
+  kind: 'material' | 'day' | 'hour' | 'truck' | 'carrier';
+  value: string;     // material name, shift date (YYYY-MM-DD), flow hour label ("7h"), truck number or carrier
+  material?: string; // narrows a day to one material (inventory card)
+  weekday?: number;  // narrows an hour to one weekday, 0 = Monday (heatmap cell)
+}
+
+export type ComparisonMode = 'off' | 'previous' | 'lastMonth' | 'custom';
+
+export interface ComparisonState {
+  mode: ComparisonMode;
+  // Baseline shift days, used when mode is 'custom'
+  startDate: string;
+  endDate: string;
+}
+
+export type TripStatus = 'all' | 'completed' | 'inProgress';
+
+// Inclusive bounds; a missing side is open.
+export interface NumberRange {
+  min?: number;
+  max?: number;
+}
+
 export interface FilterState {
   startDate: string; // YYYY-MM-DD
   endDate: string;   // YYYY-MM-DD
-  material: string;
+  materials: string[]; // exact names; empty = all materials
+  truckNo: string;     // case-insensitive substring
+  weight: NumberRange;   // tons
+  duration: NumberRange; // minutes
+  status: TripStatus;
 }
 
 export type Language = 'zh' | 'en' | 'hi';
@@ -64,7 +262,6 @@ export interface TranslationSet {
   effTotal: string;
   selectDate: string;
   analysisTitle: string;
-  statTop10: string;
   statRangeTotal: string;
   statRatio: string;
   statAvgDayWeight: string;
@@ -85,4 +282,226 @@ export interface TranslationSet {
   loginAction: string;
   logoutAction: string;
   statFetchDays: string;
+  aiModelLabel: string;
+  aiModelGemini: string;
+  aiModelLocal: string;
+  userNameLabel: string;
+  signedInAs: string;
+  insightsEmpty: string;
+  insightVolume: string;
+  insightBottleneck: string;
+  insightPeak: string;
+  insightAction: string;
+  insightNoData: string;
+  dataSourceLabel: string;
+  sourceSheet: string;
+  sourceUrl: string;
+  sourceFile: string;
+  sourceFixture: string;
+  sourceUrlLabel: string;
+  sourceFormat: string;
+  formatAuto: string;
+  dropFileHint: string;
+  fixtureHint: string;
+  columnMappingTitle: string;
+  mappingOpen: string;
+  mappingAuto: string;
+  mappingManual: string;
+  mappingUnmapped: string;
+  mappingRequired: string;
+  mappingSample: string;
+  mappingReset: string;
+  mappingMissing: string;
+  fieldTruckNo: string;
+  fieldMaterial: string;
+  fieldTotalTime: string;
+  fieldWeight: string;
+  diagnosticsTitle: string;
+  diagnosticsTotal: string;
+  diagnosticsOk: string;
+  diagnosticsWarnings: string;
+  diagnosticsErrors: string;
+  diagnosticsEmpty: string;
+  diagnosticsRow: string;
+  diagnosticsReasons: string;
+  issueBadArrival: string;
+  issueBadEnd: string;
+  issueEndBeforeArrival: string;
+  issueNegativeWeight: string;
+  issueZeroWeight: string;
+  issueDurationMismatch: string;
+  issueDuplicate: string;
+  issueMissingTruck: string;
+  inventory: string;
+  fieldMxStock: string;
+  fieldWhStock: string;
+  inboundTons: string;
+  lowStockMixer: string;
+  lowStockWarehouse: string;
+  statLatestMixer: string;
+  statLatestWarehouse: string;
+  statLowStockDays: string;
+  noStockData: string;
+  statUtilization: string;
+  utilizationFormula: string;
+  statDaysMet: string;
+  targetProgress: string;
+  allShifts: string;
+  splitByShift: string;
+  shiftCalendarLabel: string;
+  shiftName: string;
+  shiftStart: string;
+  addShift: string;
+  dayBoundaryLabel: string;
+  timeZoneLabel: string;
+  invalidTimeZone: string;
+  filterMaterialPlaceholder: string;
+  filterWeight: string;
+  filterDuration: string;
+  filterStatus: string;
+  filterMin: string;
+  filterMax: string;
+  statusAll: string;
+  statusCompleted: string;
+  statusInProgress: string;
+  noActiveFilters: string;
+  clearFilters: string;
+  shareView: string;
+  copyChartLink: string;
+  linkCopied: string;
+  drillTitle: string;
+  drillSearch: string;
+  drillDuration: string;
+  drillWeight: string;
+  drillRate: string;
+  drillJumpToDay: string;
+  drillEmpty: string;
+  explorerTitle: string;
+  explorerTrips: string;
+  explorerTimeline: string;
+  explorerPareto: string;
+  explorerFlow: string;
+  explorerEmpty: string;
+  colDate: string;
+  colTons: string;
+  colCounts: string;
+  colWorkTime: string;
+  colAvgTime: string;
+  colCumulative: string;
+  colHour: string;
+  reportTitle: string;
+  reportFilePrefix: string;
+  reportPeriod: string;
+  reportPeriodRange: string;
+  reportPeriodDay: string;
+  reportLanguage: string;
+  reportIncludeInsights: string;
+  reportGenerate: string;
+  reportGenerating: string;
+  reportGeneratedAt: string;
+  reportAlerts: string;
+  reportAlertCount: string;
+  reportNoAlerts: string;
+  reportMoreAlerts: string;
+  plantNameLabel: string;
+  compareLabel: string;
+  compareOff: string;
+  comparePrevious: string;
+  compareLastMonth: string;
+  compareCustom: string;
+  compareBaseline: string;
+  forecastOff: string;
+  forecastDays: string;
+  forecastSeries: string;
+  forecastBand: string;
+  statForecastTotal: string;
+  statForecastError: string;
+  forecastFormula: string;
+  anomaliesTitle: string;
+  anomaliesEmpty: string;
+  anomalyMethod: string;
+  anomalyHigh: string;
+  anomalyLow: string;
+  anomalyKindDuration: string;
+  anomalyKindWeight: string;
+  anomalyKindDayCounts: string;
+  anomalyKindDayTons: string;
+  anomalyReasonDuration: string;
+  anomalyReasonWeight: string;
+  anomalyReasonDayCounts: string;
+  anomalyReasonDayTons: string;
+  materialBenchmarksLabel: string;
+  deriveFromMedians: string;
+  materialBenchmarkFallback: string;
+  materialMedian: string;
+  alertsTitle: string;
+  alertsEmpty: string;
+  alertSnooze: string;
+  alertResume: string;
+  alertLowRate: string;
+  alertOverdue: string;
+  alertAvgRate: string;
+  alertRulesLabel: string;
+  alertEnabled: string;
+  alertNotify: string;
+  alertSound: string;
+  alertNotifyBlocked: string;
+  alertRuleLowRate: string;
+  alertRuleOverdue: string;
+  alertOverdueFactor: string;
+  alertRuleAvgRate: string;
+  lastUpdated: string;
+  refreshFailed: string;
+  badgeNew: string;
+  badgeCompleted: string;
+  dateFormatLabel: string;
+  dateFormatAuto: string;
+  dateFormatYmd: string;
+  dateFormatDmy: string;
+  dateFormatMdy: string;
+  dateFormatSerial: string;
+  dateFormatDetected: string;
+  ganttTitle: string;
+  ganttPeak: string;
+  ganttAverage: string;
+  ganttBays: string;
+  ganttIdle: string;
+  ganttConcurrency: string;
+  ganttEmpty: string;
+  weekdayNames: string;
+  heatmapCell: string;
+  boxplotSummary: string;
+  boxplotMean: string;
+  boxplotOutliers: string;
+  scorecardTitle: string;
+  scorecardByTruck: string;
+  scorecardByCarrier: string;
+  scorecardNoCarrierRules: string;
+  scorecardCarrier: string;
+  scorecardTrucks: string;
+  scorecardVisits: string;
+  scorecardTons: string;
+  scorecardMedianTime: string;
+  scorecardAvgTime: string;
+  scorecardAlertShare: string;
+  scorecardTrend: string;
+  carrierUnassigned: string;
+  carrierRulesLabel: string;
+  carrierRuleCount: string;
+  carrierRulesHint: string;
+  statTopN: string;
+  paretoOthers: string;
+  paretoByTons: string;
+  paretoByCounts: string;
+  paretoByTime: string;
+  paretoTopN: string;
+  paretoClasses: string;
+  paretoClassFormula: string;
+  colShare: string;
+  colClass: string;
+  insightsFailed: string;
+  sourceNotPersisted: string;
+  effRefBenchmark: string;
+  effRefTarget: string;
+  reportFailed: string;
 }
\ No newline at end of file
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { decodeViewState, encodeViewState, NO_COMPARISON, ViewDefaults, ViewState } from './urlState.ts';
+import { DEFAULT_SETTINGS } from './constants.ts';
+import { EMPTY_FILTERS } from './filters.ts';
+
+const DEFAULTS: ViewDefaults = { startDate: '2025-02-02', endDate: '2025-03-04', monitorDate: '2025-03-04' };
+
+const view = (overrides: Partial<ViewState> = {}): ViewState => ({
+  filters: { startDate: DEFAULTS.startDate, endDate: DEFAULTS.endDate, ...EMPTY_FILTERS },
+  monitorDate: DEFAULTS.monitorDate,
+  monitorShift: -1,
+  effMode: 'avg',
+  lang: 'zh',
+  chartTypes: DEFAULT_SETTINGS.chartTypes,
+  comparison: NO_COMPARISON,
+  forecastDays: 0,
+  ...overrides
+});
+
+describe('encodeViewState', () => {
+  it('leaves default dates out so a later reload re-anchors on its own day', () => {
+    const p = new URLSearchParams(encodeViewState(view(), DEFAULTS));
+    expect(p.has('from')).toBe(false);
+    expect(p.has('to')).toBe(false);
+    expect(p.has('day')).toBe(false);
+    expect(decodeViewState(`?${p}`).filters).toBeUndefined();
+    expect(decodeViewState(`?${p}`).monitorDate).toBeUndefined();
+  });
+
+  it('keeps dates the user changed', () => {
+    const p = new URLSearchParams(encodeViewState(view({ filters: { ...view().filters, startDate: '2025-03-01' }, monitorDate: '2025-03-02' }), DEFAULTS));
+    expect(p.get('from')).toBe('2025-03-01');
+    expect(p.get('to')).toBe('2025-03-04');
+    expect(p.get('day')).toBe('2025-03-02');
+  });
+
+  it('always names the dates without defaults, as copied links do', () => {
+    const p = new URLSearchParams(encodeViewState(view()));
+    expect([p.get('from'), p.get('to'), p.get('day')]).toEqual(['2025-02-02', '2025-03-04', '2025-03-04']);
+  });
+});
+
+describe('view state round trip', () => {
+  it.each<[string, Partial<ViewState>]>([
+    ['defaults', {}],
+    ['filters', { filters: { startDate: '2025-01-01', endDate: '2025-01-31', materials: ['Coal', 'Sand & Gravel'], truckNo: 'KA01', weight: { min: 10, max: 40.5 }, duration: { max: 90 }, status: 'inProgress' } }],
+    ['monitor shift', { monitorDate: '2025-03-01', monitorShift: 1 }],
+    ['display choices', { effMode: 'total', lang: 'hi', chartTypes: { ...DEFAULT_SETTINGS.chartTypes, efficiency: 'boxplot', flow: 'heatmap' }, forecastDays: 14 }],
+    ['preset comparison', { comparison: { mode: 'previous', startDate: '', endDate: '' } }],
+    ['custom comparison', { comparison: { mode: 'custom', startDate: '2024-12-01', endDate: '2024-12-31' } }]
+  ])('%s', (_, overrides) => {
+    const original = view(overrides);
+    const patch = decodeViewState(`?${encodeViewState(original)}`);
+    expect({
+      ...original,
+      ...patch,
+      filters: { ...original.filters, ...patch.filters },
+      chartTypes: { ...DEFAULT_SETTINGS.chartTypes, ...patch.chartTypes },
+      monitorShift: patch.monitorShift ?? -1,
+      comparison: patch.comparison || NO_COMPARISON,
+      forecastDays: patch.forecastDays || 0
+    }).toEqual(original);
+    expect(patch.filters).toMatchObject({ startDate: original.filters.startDate, endDate: original.filters.endDate });
+  });
+});
+
+describe('decodeViewState', () => {
+  it('drops malformed and unknown values', () => {
+    expect(decodeViewState('?from=2025-3-1&to=soon&day=x&shift=-2&eff=max&lang=fr&ct.flow=boxplot&cmp=never&fc=99&weight=a..b&status=done')).toEqual({});
+  });
+
+  it('keeps one-sided ranges', () => {
+    expect(decodeViewState('?weight=..30&dur=15..').filters).toEqual({ weight: { max: 30 }, duration: { min: 15 } });
+  });
+
+  it('blanks invalid custom comparison dates', () => {
+    expect(decodeViewState('?cmp=custom&cmpFrom=2024-12-01&cmpTo=later').comparison).toEqual({ mode: 'custom', startDate: '2024-12-01', endDate: '' });
+  });
+});
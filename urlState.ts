@@ -0,0 +1,143 @@
+import { ChartTypeOption, ComparisonMode, ComparisonState, DashboardSettings, EfficiencyMode, FilterState, Language, NumberRange, TripStatus } from './types.ts';
+import { CHART_TYPE_CHOICES } from './constants.ts';
+
+// --- Shareable View State ---
+// What the user is looking at (filters, monitor day, display choices) lives in
+// the query string so a link reproduces the view. Plant configuration such as
+// thresholds, the shift calendar and the data source stays in localStorage.
+
+export interface ViewState {
+  filters: FilterState;
+  monitorDate: string;
+  monitorShift: number; // -1 = whole shift day
+  effMode: EfficiencyMode;
+  lang: Language;
+  chartTypes: DashboardSettings['chartTypes'];
+  comparison: ComparisonState;
+  forecastDays: number; // 0 = off
+}
+
+// Only the fields present and valid in the URL.
+export interface ViewPatch {
+  filters?: Partial<FilterState>;
+  monitorDate?: string;
+  monitorShift?: number;
+  effMode?: EfficiencyMode;
+  lang?: Language;
+  chartTypes?: Partial<DashboardSettings['chartTypes']>;
+  comparison?: ComparisonState;
+  forecastDays?: number;
+}
+
+// The dates a view starts on when the URL names none. Dates equal to these stay
+// out of the URL, so a reload on a later day re-anchors on that day.
+export interface ViewDefaults {
+  startDate: string;
+  endDate: string;
+  monitorDate: string;
+}
+
+export const NO_COMPARISON: ComparisonState = { mode: 'off', startDate: '', endDate: '' };
+
+const CHART_KEYS: (keyof DashboardSettings['chartTypes'])[] = ['pareto', 'tonnage', 'frequency', 'efficiency', 'flow'];
+const LANGUAGES: Language[] = ['zh', 'en', 'hi'];
+const STATUSES: TripStatus[] = ['all', 'completed', 'inProgress'];
+const COMPARISON_MODES: ComparisonMode[] = ['previous', 'lastMonth', 'custom'];
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Ranges are written as "min..max" with either side optional.
+function encodeRange(range: NumberRange): string | null {
+  if (range.min == null && range.max == null) return null;
+  return `${range.min ?? ''}..${range.max ?? ''}`;
+}
+
+function decodeRange(value: string | null): NumberRange | undefined {
+  const m = /^(-?[\d.]*)\.\.(-?[\d.]*)$/.exec(value || '');
+  if (!m) return undefined;
+  const range: NumberRange = {};
+  if (m[1] && !isNaN(parseFloat(m[1]))) range.min = parseFloat(m[1]);
+  if (m[2] && !isNaN(parseFloat(m[2]))) range.max = parseFloat(m[2]);
+  return range;
+}
+
+export function encodeViewState(view: ViewState, defaults?: ViewDefaults): string {
+  const p = new URLSearchParams();
+  const f = view.filters;
+  if (f.startDate !== defaults?.startDate || f.endDate !== defaults?.endDate) {
+    p.set('from', f.startDate);
+    p.set('to', f.endDate);
+  }
+  f.materials.forEach(m => p.append('mat', m));
+  if (f.truckNo.trim()) p.set('truck', f.truckNo.trim());
+  const weight = encodeRange(f.weight);
+  if (weight) p.set('weight', weight);
+  const duration = encodeRange(f.duration);
+  if (duration) p.set('dur', duration);
+  if (f.status !== 'all') p.set('status', f.status);
+  if (view.monitorDate !== defaults?.monitorDate) p.set('day', view.monitorDate);
+  if (view.monitorShift >= 0) p.set('shift', String(view.monitorShift));
+  p.set('eff', view.effMode);
+  p.set('lang', view.lang);
+  CHART_KEYS.forEach(k => p.set(`ct.${k}`, view.chartTypes[k]));
+  if (view.comparison.mode !== 'off') {
+    p.set('cmp', view.comparison.mode);
+    if (view.comparison.mode === 'custom') {
+      p.set('cmpFrom', view.comparison.startDate);
+      p.set('cmpTo', view.comparison.endDate);
+    }
+  }
+  if (view.forecastDays > 0) p.set('fc', String(view.forecastDays));
+  return p.toString();
+}
+
+export function decodeViewState(search: string): ViewPatch {
+  const p = new URLSearchParams(search);
+  const patch: ViewPatch = {};
+  const filters: Partial<FilterState> = {};
+
+  const from = p.get('from');
+  if (from && DATE_RE.test(from)) filters.startDate = from;
+  const to = p.get('to');
+  if (to && DATE_RE.test(to)) filters.endDate = to;
+  if (p.has('mat')) filters.materials = p.getAll('mat').filter(Boolean);
+  if (p.has('truck')) filters.truckNo = p.get('truck') || '';
+  const weight = decodeRange(p.get('weight'));
+  if (weight) filters.weight = weight;
+  const duration = decodeRange(p.get('dur'));
+  if (duration) filters.duration = duration;
+  const status = p.get('status') as TripStatus;
+  if (STATUSES.includes(status)) filters.status = status;
+  if (Object.keys(filters).length > 0) patch.filters = filters;
+
+  const day = p.get('day');
+  if (day && DATE_RE.test(day)) patch.monitorDate = day;
+  const shift = parseInt(p.get('shift') || '');
+  if (!isNaN(shift) && shift >= 0) patch.monitorShift = shift;
+  const eff = p.get('eff');
+  if (eff === 'avg' || eff === 'total') patch.effMode = eff;
+  const lang = p.get('lang') as Language;
+  if (LANGUAGES.includes(lang)) patch.lang = lang;
+
+  const chartTypes: Partial<DashboardSettings['chartTypes']> = {};
+  CHART_KEYS.forEach(k => {
+    const type = p.get(`ct.${k}`) as ChartTypeOption;
+    if (CHART_TYPE_CHOICES[k].includes(type)) chartTypes[k] = type;
+  });
+  if (Object.keys(chartTypes).length > 0) patch.chartTypes = chartTypes;
+
+  const cmp = p.get('cmp') as ComparisonMode;
+  if (COMPARISON_MODES.includes(cmp)) {
+    const cmpFrom = p.get('cmpFrom') || '';
+    const cmpTo = p.get('cmpTo') || '';
+    patch.comparison = {
+      mode: cmp,
+      startDate: DATE_RE.test(cmpFrom) ? cmpFrom : '',
+      endDate: DATE_RE.test(cmpTo) ? cmpTo : ''
+    };
+  }
+
+  const fc = parseInt(p.get('fc') || '');
+  if (!isNaN(fc) && fc > 0 && fc <= 31) patch.forecastDays = fc;
+
+  return patch;
+}
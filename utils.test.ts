@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { getDefaultDateRange, getPlantNow, getTimeZoneLabel, isValidTimeZone } from './utils.ts';
+import { getShiftDate, getShiftIndex } from './shifts.ts';
+import { ShiftCalendar } from './types.ts';
+
+// Plant wall clock as "YYYY-MM-DD HH:mm:ss".
+const wallClock = (d: Date) => d.toISOString().slice(0, 19).replace('T', ' ');
+
+const THREE_SHIFTS: ShiftCalendar = { shifts: [{ name: 'A', start: '07:00' }, { name: 'B', start: '15:00' }, { name: 'C', start: '23:00' }] };
+const MIDNIGHT_DAY: ShiftCalendar = { shifts: [{ name: 'A', start: '06:00' }], dayBoundary: '00:00' };
+
+describe('getPlantNow', () => {
+  it.each([
+    // America/New_York, spring forward on 2025-03-09: 02:00 EST jumps to 03:00 EDT
+    ['America/New_York', '2025-03-09T06:59:00Z', '2025-03-09 01:59:00'],
+    ['America/New_York', '2025-03-09T07:00:00Z', '2025-03-09 03:00:00'],
+    // ...and fall back on 2025-11-02: 01:00–02:00 happens twice
+    ['America/New_York', '2025-11-02T05:30:00Z', '2025-11-02 01:30:00'],
+    ['America/New_York', '2025-11-02T06:30:00Z', '2025-11-02 01:30:00'],
+    ['America/New_York', '2025-11-02T07:30:00Z', '2025-11-02 02:30:00'],
+    // Asia/Taipei (UTC+8) around midnight
+    ['Asia/Taipei', '2025-03-03T15:59:59Z', '2025-03-03 23:59:59'],
+    ['Asia/Taipei', '2025-03-03T16:00:00Z', '2025-03-04 00:00:00'],
+    // Asia/Kolkata (UTC+5:30) around midnight and across a year end
+    ['Asia/Kolkata', '2025-03-03T18:29:59Z', '2025-03-03 23:59:59'],
+    ['Asia/Kolkata', '2025-03-03T18:30:00Z', '2025-03-04 00:00:00'],
+    ['Asia/Kolkata', '2024-12-31T18:30:00Z', '2025-01-01 00:00:00']
+  ])('%s at %s reads %s', (zone, instant, expected) => {
+    expect(wallClock(getPlantNow(zone, new Date(instant)))).toBe(expected);
+  });
+
+  it('falls back to the default zone for an unknown zone', () => {
+    const now = new Date('2025-03-03T18:30:00Z');
+    expect(getPlantNow('Mars/Olympus', now)).toEqual(getPlantNow('Asia/Kolkata', now));
+  });
+});
+
+describe('getTimeZoneLabel', () => {
+  it.each([
+    ['America/New_York', '2025-03-09T06:59:00Z', 'EST'],
+    ['America/New_York', '2025-03-09T07:00:00Z', 'EDT'],
+    ['America/New_York', '2025-11-02T05:59:00Z', 'EDT'],
+    ['America/New_York', '2025-11-02T06:00:00Z', 'EST'],
+    ['Asia/Taipei', '2025-07-01T00:00:00Z', 'GMT+8'],
+    ['Asia/Kolkata', '2025-07-01T00:00:00Z', 'GMT+5:30']
+  ])('%s at %s is %s', (zone, instant, expected) => {
+    expect(getTimeZoneLabel(zone, new Date(instant))).toBe(expected);
+  });
+});
+
+describe('isValidTimeZone', () => {
+  it.each([
+    ['Asia/Kolkata', true],
+    ['Asia/Taipei', true],
+    ['America/New_York', true],
+    ['UTC', true],
+    ['Mars/Olympus', false],
+    ['GMT+25', false]
+  ])('%s → %s', (zone, expected) => {
+    expect(isValidTimeZone(zone)).toBe(expected);
+  });
+});
+
+describe('getShiftDate at the plant', () => {
+  it.each([
+    // Shift day boundary (07:00) in Kolkata
+    ['Asia/Kolkata', '2025-03-04T01:29:00Z', THREE_SHIFTS, '2025-03-03', 2],
+    ['Asia/Kolkata', '2025-03-04T01:30:00Z', THREE_SHIFTS, '2025-03-04', 0],
+    // Midnight belongs to the night shift of the previous shift day
+    ['Asia/Kolkata', '2025-03-03T18:29:00Z', THREE_SHIFTS, '2025-03-03', 2],
+    ['Asia/Kolkata', '2025-03-03T18:30:00Z', THREE_SHIFTS, '2025-03-03', 2],
+    // A midnight day boundary rolls over at 00:00
+    ['Asia/Taipei', '2025-03-03T15:59:00Z', MIDNIGHT_DAY, '2025-03-03', 0],
+    ['Asia/Taipei', '2025-03-03T16:00:00Z', MIDNIGHT_DAY, '2025-03-04', 0],
+    // New York on the spring-forward day: 07:00 EDT is 11:00Z, not 12:00Z
+    ['America/New_York', '2025-03-09T10:59:00Z', THREE_SHIFTS, '2025-03-08', 2],
+    ['America/New_York', '2025-03-09T11:00:00Z', THREE_SHIFTS, '2025-03-09', 0],
+    // ...and on the fall-back day: 07:00 EST is 12:00Z
+    ['America/New_York', '2025-11-02T11:59:00Z', THREE_SHIFTS, '2025-11-01', 2],
+    ['America/New_York', '2025-11-02T12:00:00Z', THREE_SHIFTS, '2025-11-02', 0]
+  ])('%s at %s is shift day %s', (zone, instant, calendar, date, shift) => {
+    const plantNow = getPlantNow(zone, new Date(instant));
+    expect(getShiftDate(plantNow, calendar)).toBe(date);
+    expect(getShiftIndex(plantNow, calendar)).toBe(shift);
+  });
+});
+
+describe('getDefaultDateRange', () => {
+  it('ends on the plant date, not the UTC date', () => {
+    const now = new Date('2025-03-03T20:00:00Z');
+    expect(getDefaultDateRange('Asia/Kolkata', 30, now)).toEqual({ startDate: '2025-02-02', endDate: '2025-03-04' });
+    expect(getDefaultDateRange('America/New_York', 30, now)).toEqual({ startDate: '2025-02-01', endDate: '2025-03-03' });
+  });
+});
@@ -0,0 +1,142 @@
+import { DEFAULT_TIME_ZONE } from './constants.ts';
+import { parseDateTime } from './dateFormats.ts';
+
+// --- Plant Time Utilities ---
+// CSV times are factory wall-clock times and are parsed into Dates whose local
+// components (hours, minutes) carry that wall time. "Now" follows the same convention.
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Gets the current date/time in the plant's time zone.
+ * Returns a Date object where the local components (hours, minutes) match the plant wall clock.
+ */
+export function getPlantNow(timeZone: string = DEFAULT_TIME_ZONE, now: Date = new Date()): Date {
+  const zone = isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: zone,
+    year: 'numeric', month: 'numeric', day: 'numeric',
+    hour: 'numeric', minute: 'numeric', second: 'numeric',
+    hourCycle: 'h23'
+  }).formatToParts(now);
+  const get = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0');
+  return new Date(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+}
+
+/**
+ * Short zone name for headers, e.g. "GMT+5:30", "GMT+8" or "CDT" (DST-aware).
+ */
+export function getTimeZoneLabel(timeZone: string = DEFAULT_TIME_ZONE, now: Date = new Date()): string {
+  const zone = isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone: zone, timeZoneName: 'short' }).formatToParts(now);
+  return parts.find(p => p.type === 'timeZoneName')?.value || zone;
+}
+
+/**
+ * Formats a Date object to YYYY-MM-DD using its local components.
+ * This avoids timezone conversions shifting the day.
+ */
+export function formatDateToISO(d: Date): string {
+  const yyyy = d.getFullYear();
+  const mm = String(d.getMonth() + 1).padStart(2, '0');
+  const dd = String(d.getDate()).padStart(2, '0');
+  return `${yyyy}-${mm}-${dd}`;
+}
+
+/**
+ * Default filter range: the last `days` days up to the plant's "today".
+ */
+export function getDefaultDateRange(timeZone: string, days = 30, now: Date = new Date()): { startDate: string; endDate: string } {
+  const plantNow = getPlantNow(timeZone, now);
+  const ago = new Date(plantNow);
+  ago.setDate(plantNow.getDate() - days);
+  return { startDate: formatDateToISO(ago), endDate: formatDateToISO(plantNow) };
+}
+
+/**
+ * Logic: If the time (in plant wall-clock time) is before the day boundary (default 07:00),
+ * the "Shift Date" is yesterday.
+ */
+export function getShiftDateString(date: Date, boundaryMinutes: number = 7 * 60): string {
+  const m = date.getHours() * 60 + date.getMinutes();
+  // Create a copy to manipulate
+  const d = new Date(date);
+  if (m < boundaryMinutes) {
+    d.setDate(d.getDate() - 1);
+  }
+  return formatDateToISO(d);
+}
+
+export function robustParseCSV(text: string): string[][] {
+  const result: string[][] = [];
+  let row: string[] = [];
+  let col = "";
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const nextChar = text[i + 1];
+    if (inQuotes) {
+      if (char === '"' && nextChar === '"') { col += '"'; i++; }
+      else if (char === '"') inQuotes = false;
+      else col += char;
+    } else {
+      if (char === '"') inQuotes = true;
+      else if (char === ',') { row.push(col); col = ""; }
+      else if (char === '\n' || char === '\r') {
+        row.push(col);
+        if (row.length > 0) result.push(row);
+        row = []; col = "";
+        if (char === '\r' && nextChar === '\n') i++;
+      } else col += char;
+    }
+  }
+  if (col || row.length > 0) { row.push(col); result.push(row); }
+  return result;
+}
+
+export function findColIdx(headers: string[], keywords: string[]): number {
+  return headers.findIndex(h => keywords.some(k => h.toLowerCase().includes(k.toLowerCase())));
+}
+
+/**
+ * Parses stored date strings into "Factory Wall Time" Dates.
+ * Imported rows are already normalised to YYYY-MM-DD HH:MM[:SS]; anything
+ * else is read with day-first order, as the dashboard always has.
+ */
+export function smartParseDate(str: string) {
+  return parseDateTime(str, 'dmy');
+}
+
+/**
+ * Safe number parsing that handles commas (e.g. "1,894")
+ */
+export function parseNumberSafe(str: string): number {
+  if (!str) return 0;
+  // Remove commas before parsing
+  return parseFloat(str.replace(/,/g, '')) || 0;
+}
+
+/**
+ * Replaces `{key}` placeholders in a translation string.
+ */
+export function fillTemplate(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (m, k) => (k in values ? String(values[k]) : m));
+}
+
+/**
+ * Linear-interpolated quantile (q in 0..1) of an ascending-sorted array.
+ */
+export function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
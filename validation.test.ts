@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { IssueCode, RowIssue, validateRows } from './validation.ts';
+import { TruckData } from './types.ts';
+
+const row = (patch: Partial<TruckData>): TruckData => ({
+  truckNo: 'KA01AB1234', matName: 'Coal', arrivalTime: '2025-03-04 08:00', endTime: '2025-03-04 09:00',
+  totalTime: 60, weight: 20000, mxStock: 0, whStock: 0, ...patch
+});
+
+describe('validateRows', () => {
+  // One case per issue code; the last row of each case is the one judged.
+  it.each<[IssueCode, TruckData[], RowIssue, boolean]>([
+    ['badArrival', [row({ arrivalTime: 'yesterday' })], { code: 'badArrival', severity: 'error', detail: 'yesterday' }, false],
+    ['badEnd', [row({ endTime: '25:99' })], { code: 'badEnd', severity: 'warning', detail: '25:99' }, true],
+    ['endBeforeArrival', [row({ endTime: '2025-03-04 07:30' })], { code: 'endBeforeArrival', severity: 'error', detail: undefined }, false],
+    ['negativeWeight', [row({ weight: -500 })], { code: 'negativeWeight', severity: 'error', detail: '-500' }, false],
+    ['zeroWeight', [row({ weight: 0 })], { code: 'zeroWeight', severity: 'warning', detail: undefined }, true],
+    ['durationMismatch', [row({ totalTime: 90 })], { code: 'durationMismatch', severity: 'warning', detail: '90m ≠ 60m' }, true],
+    ['duplicate', [row({}), row({ truckNo: ' KA01AB1234 ', weight: 18000 })], { code: 'duplicate', severity: 'error', detail: '#2' }, false],
+    ['missingTruck', [row({ truckNo: 'N/A' })], { code: 'missingTruck', severity: 'warning', detail: undefined }, true]
+  ])('%s', (_, rows, expected, kept) => {
+    const { report, valid } = validateRows(rows);
+    const judged = rows[rows.length - 1];
+    expect(report.rows).toEqual([{ rowNumber: rows.length + 1, row: judged, status: expected.severity, issues: [expected] }]);
+    expect(valid.includes(judged)).toBe(kept);
+  });
+
+  it('allows a few minutes of slack between total time and the clock times', () => {
+    expect(validateRows([row({ totalTime: 65 }), row({ truckNo: 'B', totalTime: 55 })]).report.rows).toEqual([]);
+  });
+
+  it('counts rows by their worst issue and skips fully blank lines', () => {
+    const blank = row({ truckNo: 'N/A', matName: 'N/A', arrivalTime: '', endTime: '' });
+    const { report, valid } = validateRows([
+      row({}),
+      blank,
+      row({ truckNo: 'B', weight: 0, totalTime: 90 }),
+      row({ truckNo: 'C', weight: -1, totalTime: 90 })
+    ]);
+    expect(report).toMatchObject({ total: 3, ok: 1, warnings: 1, errors: 1 });
+    expect(report.rows.map(r => [r.rowNumber, r.status, r.issues.map(x => x.code)])).toEqual([
+      [4, 'warning', ['durationMismatch', 'zeroWeight']],
+      [5, 'error', ['durationMismatch', 'negativeWeight']]
+    ]);
+    expect(valid.map(r => r.truckNo)).toEqual(['KA01AB1234', 'B']);
+  });
+
+  it('treats an empty end or the in-progress marker as a truck still on site', () => {
+    const { report, valid } = validateRows([
+      row({ endTime: '', totalTime: 0 }),
+      row({ truckNo: 'KA01AB5678', endTime: '⏳', totalTime: 0 }),
+      row({ truckNo: 'KA01AB9999', endTime: ' ⏳ ', totalTime: 0 })
+    ]);
+    expect(report.rows).toEqual([]);
+    expect(valid).toHaveLength(3);
+  });
+
+  it('still flags an end time that cannot be read', () => {
+    const { report } = validateRows([row({ endTime: 'soon' })]);
+    expect(report.rows[0].issues).toEqual([{ code: 'badEnd', severity: 'warning', detail: 'soon' }]);
+  });
+});
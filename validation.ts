@@ -0,0 +1,112 @@
+import { TruckData, TranslationSet } from './types.ts';
+import { isPendingEnd } from './filters.ts';
+import { smartParseDate } from './utils.ts';
+
+// --- Import Validation ---
+// Rows with errors are rejected before they reach the charts; rows with
+// warnings are kept but reported so the source can be corrected.
+
+export type RowStatus = 'ok' | 'warning' | 'error';
+
+export type IssueCode =
+  | 'badArrival'
+  | 'badEnd'
+  | 'endBeforeArrival'
+  | 'negativeWeight'
+  | 'zeroWeight'
+  | 'durationMismatch'
+  | 'duplicate'
+  | 'missingTruck';
+
+export interface RowIssue {
+  code: IssueCode;
+  severity: Exclude<RowStatus, 'ok'>;
+  detail?: string;
+}
+
+export interface RowDiagnostic {
+  // 1-based line in the source, counting the header as line 1
+  rowNumber: number;
+  row: TruckData;
+  status: RowStatus;
+  issues: RowIssue[];
+}
+
+export interface ImportReport {
+  total: number;
+  ok: number;
+  warnings: number;
+  errors: number;
+  // Only rows that are not ok, in source order
+  rows: RowDiagnostic[];
+}
+
+export const ISSUE_LABEL_KEYS: Record<IssueCode, keyof TranslationSet> = {
+  badArrival: 'issueBadArrival',
+  badEnd: 'issueBadEnd',
+  endBeforeArrival: 'issueEndBeforeArrival',
+  negativeWeight: 'issueNegativeWeight',
+  zeroWeight: 'issueZeroWeight',
+  durationMismatch: 'issueDurationMismatch',
+  duplicate: 'issueDuplicate',
+  missingTruck: 'issueMissingTruck'
+};
+
+// Minutes of slack allowed between totalTime and end − arrival
+const DURATION_TOLERANCE = 5;
+
+const ERROR_CODES: IssueCode[] = ['badArrival', 'endBeforeArrival', 'negativeWeight', 'duplicate'];
+
+function issue(code: IssueCode, detail?: string): RowIssue {
+  return { code, severity: ERROR_CODES.includes(code) ? 'error' : 'warning', detail };
+}
+
+/**
+ * Classifies each mapped row. Fully blank lines are skipped without a report entry.
+ */
+export function validateRows(rows: TruckData[]): { valid: TruckData[]; report: ImportReport } {
+  const valid: TruckData[] = [];
+  const report: ImportReport = { total: 0, ok: 0, warnings: 0, errors: 0, rows: [] };
+  const seen = new Map<string, number>();
+
+  rows.forEach((row, i) => {
+    if (row.truckNo === "N/A" && row.matName === "N/A" && !row.arrivalTime && !row.endTime) return;
+    report.total++;
+    const rowNumber = i + 2;
+    const issues: RowIssue[] = [];
+
+    const arrival = smartParseDate(row.arrivalTime);
+    const pending = isPendingEnd(row.endTime);
+    const end = pending ? null : smartParseDate(row.endTime);
+    if (!arrival) issues.push(issue('badArrival', row.arrivalTime || undefined));
+    if (!pending && !end) issues.push(issue('badEnd', row.endTime));
+    if (arrival && end) {
+      const diff = Math.round((end.getTime() - arrival.getTime()) / 60000);
+      if (diff < 0) {
+        issues.push(issue('endBeforeArrival'));
+      } else if (Math.abs(diff - row.totalTime) > DURATION_TOLERANCE) {
+        issues.push(issue('durationMismatch', `${row.totalTime}m ≠ ${diff}m`));
+      }
+    }
+
+    if (row.weight < 0) issues.push(issue('negativeWeight', String(row.weight)));
+    else if (row.weight === 0) issues.push(issue('zeroWeight'));
+
+    if (row.truckNo === "N/A") {
+      issues.push(issue('missingTruck'));
+    } else if (row.arrivalTime) {
+      const key = `${row.truckNo.trim()}|${row.arrivalTime.trim()}`;
+      if (seen.has(key)) issues.push(issue('duplicate', `#${seen.get(key)}`));
+      else seen.set(key, rowNumber);
+    }
+
+    const status: RowStatus = issues.some(x => x.severity === 'error') ? 'error' : (issues.length > 0 ? 'warning' : 'ok');
+    if (status === 'ok') report.ok++;
+    else report.rows.push({ rowNumber, row, status, issues });
+    if (status === 'warning') report.warnings++;
+    if (status === 'error') report.errors++;
+    if (status !== 'error') valid.push(row);
+  });
+
+  return { valid, report };
+}
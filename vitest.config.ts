@@ -0,0 +1,14 @@
+import { defineConfig } from 'vitest/config';
+
+// Wall-clock Dates are built in the process zone; pin it so results do not
+// depend on the machine running the tests.
+process.env.TZ = 'UTC';
+
+// Kept apart from vite.config.ts so the unit tests do not need the React plugin.
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['**/*.test.ts'],
+    exclude: ['node_modules/**']
+  }
+});